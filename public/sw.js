@@ -0,0 +1,120 @@
+// Service worker for system notifications (see src/core/sw/registration.ts).
+// Request alerts raised while the app is in the background carry Accept and
+// Decline actions; the answer is handed to the open app, which talks to the
+// API as usual. Web Push (src/core/sw/push.ts) brings requests, chat
+// messages and payment confirmations while the app is closed.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+const windows = () => self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+
+// How each kind of push is shown, and where a click on it leads
+const PUSHES = {
+  'service:request': (p) => ({
+    title: p.title || 'New service request',
+    kind: 'service-request',
+    tag: `request:${p.serviceId}`,
+    url: '/dashboard',
+    actions: [
+      { action: 'accept', title: 'Accept' },
+      { action: 'decline', title: 'Decline' },
+    ],
+  }),
+  'chat:message': (p) => ({ title: p.title || 'New message', kind: 'chat', tag: `chat:${p.serviceId}`, url: `/jobs/${p.serviceId}` }),
+  'payment:completed': (p) => ({
+    title: p.title || 'Payment received',
+    kind: 'payment',
+    tag: `payment:${p.serviceId}`,
+    url: `/payment/${p.serviceId}`,
+  }),
+};
+
+async function showPush(payload) {
+  const describe = payload && payload.serviceId && PUSHES[payload.type];
+  if (!describe) return;
+  // A visible app already shows all of this itself
+  const clients = await windows();
+  if (clients.some((c) => c.visibilityState === 'visible')) return;
+  const push = describe(payload);
+  return self.registration.showNotification(push.title, {
+    body: payload.body || '',
+    tag: push.tag,
+    renotify: true,
+    icon: '/vite.svg',
+    requireInteraction: !!push.actions,
+    actions: push.actions,
+    data: { kind: push.kind, serviceId: payload.serviceId, url: push.url },
+  });
+}
+
+self.addEventListener('push', (event) => {
+  let payload = null;
+  try {
+    payload = event.data ? event.data.json() : null;
+  } catch {
+    payload = null;
+  }
+  event.waitUntil(showPush(payload));
+});
+
+// Local stand-in for the push service: the mock backend posts the same
+// payloads here (__mockBackend.push)
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'push:test') event.waitUntil(showPush(event.data.payload));
+});
+
+// The push service replaced or dropped this device's endpoint. The worker
+// cannot call the API, so it subscribes again with the same key and leaves
+// registering the new endpoint to the app: straight away if it is open,
+// otherwise when it next starts.
+self.addEventListener('pushsubscriptionchange', (event) => {
+  event.waitUntil(
+    (async () => {
+      const options = event.oldSubscription && event.oldSubscription.options;
+      if (!event.newSubscription && options) {
+        try {
+          await self.registration.pushManager.subscribe(options);
+        } catch {
+          // Permission withdrawn; the app subscribes again from Settings
+        }
+      }
+      (await windows()).forEach((c) => c.postMessage({ type: 'push:subscription-change' }));
+    })()
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  const notification = event.notification;
+  const data = notification.data || {};
+  notification.close();
+
+  event.waitUntil(
+    windows().then(async (clients) => {
+      const action = event.action || 'open';
+      const client = clients.find((c) => 'focus' in c);
+      if (data.kind === 'service-request' && data.serviceId) {
+        if (client) {
+          clients.forEach((c) => c.postMessage({ type: 'notification:action', action, serviceId: data.serviceId }));
+          // Declining needs no screen; anything else brings the app forward
+          return action === 'decline' ? undefined : client.focus();
+        }
+        // The app is closed: it picks the answer up from the URL on start
+        const url = data.url || '/dashboard';
+        return self.clients.openWindow(
+          action === 'open' ? url : `${url}?notificationAction=${action}&serviceId=${encodeURIComponent(data.serviceId)}`
+        );
+      }
+      if (client) {
+        if (data.url) client.postMessage({ type: 'notification:open', url: data.url });
+        return client.focus();
+      }
+      return self.clients.openWindow(data.url || '/dashboard');
+    })
+  );
+});
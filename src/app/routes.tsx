@@ -1,8 +1,13 @@
-import { Routes, Route, Navigate } from 'react-router-dom';
+import { Routes, Route, Navigate, Outlet } from 'react-router-dom';
 import { lazy, Suspense } from 'react';
 import { useAuth } from '@/features/auth';
 import { Loader } from '@/shared/components';
 import { BottomNav } from '@/components/layout/BottomNav';
+import { ConnectionBanner } from '@/components/layout/ConnectionBanner';
+import { useSocketQuerySync } from '@/core/query/useSocketQuerySync';
+import { useShiftScheduler } from '@/features/shifts';
+import { useNotificationLinks } from '@/core/sw/useNotificationLinks';
+import { usePushRegistration } from '@/core/sw/usePushRegistration';
 
 // Lazy-loaded pages for code-splitting
 const Index = lazy(() => import('@/pages/Index'));
@@ -11,11 +16,42 @@ const OnboardingPage = lazy(() => import('@/features/auth/pages/OnboardingPage')
 const DashboardPage = lazy(() => import('@/features/dashboard/pages/DashboardPage'));
 const EarningsPage = lazy(() => import('@/features/earnings/pages/EarningsPage'));
 const HistoryPage = lazy(() => import('@/features/history/pages/HistoryPage'));
+const MissedRequestsPage = lazy(() => import('@/features/history/pages/MissedRequestsPage'));
 const ProfilePage = lazy(() => import('@/features/profile/pages/ProfilePage'));
 const JobsPage = lazy(() => import('@/features/jobs/pages/JobsPage'));
+const SettingsPage = lazy(() => import('@/features/settings/pages/SettingsPage'));
+const NotificationPreferences = lazy(() =>
+  import('@/features/notifications/NotificationPreferences').then((m) => ({ default: m.NotificationPreferences }))
+);
 const PaymentReceivingPage = lazy(() => import('@/features/payment/pages/PaymentReceivingPage'));
 
-const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
+// Socket events patch/invalidate react-query data while signed in
+const QuerySync = () => {
+  useSocketQuerySync();
+  return null;
+};
+
+// Scheduled shifts switch availability on and off while signed in
+const ShiftAutomation = () => {
+  useShiftScheduler();
+  return null;
+};
+
+// Notification clicks that lead to a job or payment page
+const NotificationLinks = () => {
+  useNotificationLinks();
+  return null;
+};
+
+// This device's push endpoint, registered with the backend
+const PushRegistration = () => {
+  usePushRegistration();
+  return null;
+};
+
+// Every signed-in page renders inside this layout, so the sync hooks, the
+// connection banner and the bottom nav stay mounted across navigation
+const ProtectedLayout = () => {
   const { isAuthenticated, isLoading, helper } = useAuth();
 
   if (isLoading) {
@@ -34,7 +70,14 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
 
   return (
     <>
-      {children}
+      <QuerySync />
+      <ShiftAutomation />
+      <NotificationLinks />
+      <PushRegistration />
+      <ConnectionBanner />
+      <Suspense fallback={<Loader fullScreen />}>
+        <Outlet />
+      </Suspense>
       <BottomNav />
     </>
   );
@@ -50,54 +93,17 @@ export const AppRoutes = () => {
       )} />
   <Route path="/auth" element={<Suspense fallback={<Loader fullScreen />}> <AuthPage /> </Suspense>} />
   <Route path="/auth/helper" element={<Suspense fallback={<Loader fullScreen />}> <OnboardingPage /> </Suspense>} />
-      <Route
-        path="/dashboard"
-        element={
-          <ProtectedRoute>
-            <Suspense fallback={<Loader fullScreen />}> <DashboardPage /> </Suspense>
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/earnings"
-        element={
-          <ProtectedRoute>
-            <Suspense fallback={<Loader fullScreen />}> <EarningsPage /> </Suspense>
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/history"
-        element={
-          <ProtectedRoute>
-            <Suspense fallback={<Loader fullScreen />}> <HistoryPage /> </Suspense>
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/profile"
-        element={
-          <ProtectedRoute>
-            <Suspense fallback={<Loader fullScreen />}> <ProfilePage /> </Suspense>
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/jobs/:serviceId"
-        element={
-          <ProtectedRoute>
-            <Suspense fallback={<Loader fullScreen />}> <JobsPage /> </Suspense>
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/payment/:serviceId"
-        element={
-          <ProtectedRoute>
-            <Suspense fallback={<Loader fullScreen />}> <PaymentReceivingPage /> </Suspense>
-          </ProtectedRoute>
-        }
-      />
+      <Route element={<ProtectedLayout />}>
+        <Route path="/dashboard" element={<DashboardPage />} />
+        <Route path="/earnings" element={<EarningsPage />} />
+        <Route path="/history" element={<HistoryPage />} />
+        <Route path="/history/missed" element={<MissedRequestsPage />} />
+        <Route path="/profile" element={<ProfilePage />} />
+        <Route path="/settings" element={<SettingsPage />} />
+        <Route path="/settings/notifications" element={<NotificationPreferences />} />
+        <Route path="/jobs/:serviceId" element={<JobsPage />} />
+        <Route path="/payment/:serviceId" element={<PaymentReceivingPage />} />
+      </Route>
       <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
   );
@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { KeyRound, Loader2, RefreshCw, SignalLow, WifiOff, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/core/providers/AuthProvider';
+import { useSocketContext } from '@/core/providers/SocketProvider';
+import { realtime, type ConnectionStatus } from '@/core/socket/realtime';
+import { useConnectionQuality } from '@/core/socket/useConnectionQuality';
+
+// A short connect on boot or a tab hand-over is not worth a banner
+const CONNECTING_GRACE_MS = 4_000;
+// A dismissed weak-connection prompt stays away this long
+const WEAK_PROMPT_SNOOZE_MS = 10 * 60_000;
+
+type Problem = Exclude<ConnectionStatus, 'idle' | 'online'>;
+
+const MESSAGES: Record<Problem, { title: string; detail: string }> = {
+  connecting: { title: 'Connecting…', detail: "You'll start receiving requests once connected." },
+  degraded: { title: 'Connection lost — reconnecting', detail: "You can't receive requests right now." },
+  offline: { title: "You're offline", detail: "You can't receive requests until your network is back." },
+  'auth-failed': { title: 'Session expired', detail: "Sign in again to keep receiving requests." },
+};
+
+const WEAK_MESSAGE = {
+  title: 'Weak connection — move to better signal or switch networks',
+  detail: 'Requests may reach you late.',
+};
+
+// Shown on every signed-in page while an available helper cannot be reached
+// by new requests, or can only be reached slowly (core/socket/quality).
+export const ConnectionBanner = () => {
+  const { helper, logout } = useAuth();
+  const { status } = useSocketContext();
+  const quality = useConnectionQuality();
+  const [slowConnect, setSlowConnect] = useState(false);
+  const [weakSnoozedUntil, setWeakSnoozedUntil] = useState(0);
+
+  useEffect(() => {
+    setSlowConnect(false);
+    if (status !== 'connecting') return;
+    const timer = window.setTimeout(() => setSlowConnect(true), CONNECTING_GRACE_MS);
+    return () => window.clearTimeout(timer);
+  }, [status]);
+
+  const visible =
+    !!helper?.isAvailable && status !== 'idle' && status !== 'online' && (status !== 'connecting' || slowConnect);
+  const weak =
+    !!helper?.isAvailable && status === 'online' && quality.level === 'poor' && Date.now() >= weakSnoozedUntil;
+  const message = visible ? MESSAGES[status as Problem] : weak ? WEAK_MESSAGE : null;
+
+  return (
+    <AnimatePresence>
+      {message && (
+        <motion.div
+          key="connection-banner"
+          initial={{ opacity: 0, y: -12 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -12 }}
+          role="status"
+          className={`fixed top-0 left-0 right-0 z-[60] border-b px-4 py-2 ${
+            status === 'auth-failed' ? 'bg-red-50 border-red-200 text-red-900' : 'bg-amber-50 border-amber-200 text-amber-900'
+          }`}
+        >
+          <div className="max-w-6xl mx-auto flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2 min-w-0">
+              {status === 'offline' && <WifiOff className="w-4 h-4 shrink-0" />}
+              {status === 'auth-failed' && <KeyRound className="w-4 h-4 shrink-0" />}
+              {(status === 'degraded' || status === 'connecting') && <Loader2 className="w-4 h-4 shrink-0 animate-spin" />}
+              {status === 'online' && <SignalLow className="w-4 h-4 shrink-0" />}
+              <p className="text-sm truncate">
+                <span className="font-semibold">{message.title}</span>
+                <span className="hidden sm:inline"> · {message.detail}</span>
+              </p>
+            </div>
+            {status === 'online' ? (
+              <Button
+                size="icon"
+                variant="ghost"
+                aria-label="Dismiss"
+                onClick={() => setWeakSnoozedUntil(Date.now() + WEAK_PROMPT_SNOOZE_MS)}
+                className="h-7 w-7 text-amber-900 hover:bg-amber-100"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            ) : status === 'auth-failed' ? (
+              <Button size="sm" variant="ghost" onClick={logout} className="text-red-900 hover:bg-red-100">
+                Sign in
+              </Button>
+            ) : (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => realtime.retryNow()}
+                className="text-amber-900 hover:bg-amber-100"
+              >
+                <RefreshCw className="w-4 h-4 mr-1" />
+                Retry now
+              </Button>
+            )}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
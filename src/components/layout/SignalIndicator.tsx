@@ -0,0 +1,46 @@
+import { cn } from '@/lib/utils';
+import { useConnectionQuality } from '@/core/socket/useConnectionQuality';
+import type { QualityLevel } from '@/core/socket/quality';
+
+const BARS: Record<QualityLevel, number> = { unknown: 0, offline: 0, poor: 1, fair: 2, good: 3 };
+
+const COLORS: Record<QualityLevel, string> = {
+  unknown: 'bg-muted-foreground',
+  offline: 'bg-destructive',
+  poor: 'bg-destructive',
+  fair: 'bg-amber-500',
+  good: 'bg-success',
+};
+
+const LABELS: Record<QualityLevel, string> = {
+  unknown: 'Not connected',
+  offline: 'Connection lost',
+  poor: 'Poor connection',
+  fair: 'Fair connection',
+  good: 'Good connection',
+};
+
+// Signal-strength bars for the realtime connection (core/socket/quality)
+export const SignalIndicator = ({ className }: { className?: string }) => {
+  const quality = useConnectionQuality();
+  const lit = BARS[quality.level];
+  const label =
+    quality.latencyMs !== null && quality.level !== 'offline' && quality.level !== 'unknown'
+      ? `${LABELS[quality.level]} · ${quality.latencyMs} ms`
+      : LABELS[quality.level];
+
+  return (
+    <div role="img" aria-label={label} title={label} className={cn('flex items-end gap-0.5 h-4', className)}>
+      {[1, 2, 3].map((bar) => (
+        <span
+          key={bar}
+          className={cn(
+            'w-1 rounded-sm',
+            bar === 1 ? 'h-1.5' : bar === 2 ? 'h-2.5' : 'h-4',
+            bar <= lit ? COLORS[quality.level] : 'bg-muted-foreground/25'
+          )}
+        />
+      ))}
+    </div>
+  );
+};
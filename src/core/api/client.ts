@@ -1,75 +1,146 @@
-// Use a relative '/api' base during development so the Vite proxy forwards
-// requests to the backend and cookies are handled as same-origin. In
-// production, allow an explicit VITE_API_URL to override the base.
-const API_URL = (import.meta.env.DEV)
-  ? '/api'
-  : (import.meta.env.VITE_API_URL || 'https://helpbuddyback.onrender.com/api');
-
-interface ApiResponse<T = any> {
+import type { AppNotification, ChatMessageType, DeclineDetails, HistoryItem, Page } from '@/types';
+import { env } from '@/core/config/env';
+import * as S from './schemas';
+import type { Contract, NotificationPreferencesPayload } from './schemas';
+import { isAbortError, isTimeoutError, Transport, type SendOptions } from './transport';
+import {
+  authHeader,
+  contentType,
+  logging,
+  rateLimitCooldown,
+  refreshOnAuthError,
+  ResponseCache,
+  retry,
+  timeout,
+} from './middleware';
+import { resolvePolicy, type EndpointPattern } from './policies';
+import { createLogger } from '@/core/logging/logger';
+
+const API_URL = env.apiUrl;
+const log = createLogger('api');
+
+export interface ApiResponse<T = unknown> {
   success: boolean;
   data?: T;
   error?: string;
   status?: number;
+  // SCHEMA_MISMATCH: the server answered 2xx but the payload did not match
+  // the contract in ./schemas (`issues` carries the zod paths for debugging).
+  // ABORTED / TIMEOUT: the call was cancelled by the caller or timed out.
+  errorCode?: 'SCHEMA_MISMATCH' | 'ABORTED' | 'TIMEOUT';
+  issues?: string[];
 }
 
-class ApiClient {
-  private baseUrl: string;
-  // client-side protection: short caches, pending markers, and cooldowns for sensitive endpoints
-  private _cache: Record<string, { ts: number; data: any }> = {};
-  private _cooldowns: Record<string, number> = {};
-  // track if a refresh is in progress to avoid concurrent refresh attempts
-  private _refreshPromise: Promise<boolean> | null = null;
+// Validate the `data` part of a successful envelope against its contract.
+// Anything that does not match is turned into an explicit failure so callers
+// never see a half-shaped object.
+function validate<T>(ep: string, method: string, body: unknown, schema: Contract<T>, status: number): ApiResponse<T> {
+  // Most endpoints answer `{ success, data }`, but a few (analytics) return the
+  // payload bare. Normalise both into an envelope before validating.
+  const isEnvelope = !!body && typeof body === 'object' && !Array.isArray(body) && 'success' in body;
+  const envelope = (isEnvelope ? body : { success: true, data: body }) as ApiResponse<unknown> & Record<string, unknown>;
+  if (!envelope.success) return { ...envelope, status } as ApiResponse<T>;
+
+  const parsed = schema.safeParse(envelope.data);
+  if (parsed.success) {
+    return { ...envelope, data: parsed.data, status } as ApiResponse<T>;
+  }
+
+  const issues = parsed.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`);
+  log.warn(`Schema mismatch for ${method} ${ep}`, issues);
+  return {
+    success: false,
+    error: `Unexpected response from server for ${method} ${ep}`,
+    errorCode: 'SCHEMA_MISMATCH',
+    issues,
+    status,
+  };
+}
 
-  constructor(baseUrl: string) {
-    // Normalize baseUrl to avoid trailing slashes causing malformed joins later
-    this.baseUrl = String(baseUrl || '').replace(/\/+$/, '');
-  }
+// Sent with job lifecycle mutations so replays from the offline outbox
+// (core/offline) are safe to apply more than once.
+export interface MutationMeta {
+  idempotencyKey: string;
+  deviceTimestamp: string;
+}
 
-  // Refresh access token using the refresh token endpoint
-  private async refreshAccessToken(): Promise<boolean> {
-    try {
-      const url = `${this.baseUrl}/auth/refresh`;
-      const response = await fetch(url, {
-        method: 'POST',
-        credentials: 'include',
-        headers: { 'Content-Type': 'application/json' },
-      });
+// Per-call options accepted by every ApiClient method.
+export interface CallOptions {
+  // Abort the request (including pending retry backoff), e.g. on unmount
+  signal?: AbortSignal;
+  // Per-attempt timeout; defaults to the endpoint policy, then 15s
+  timeoutMs?: number;
+  // False when the caller retries on its own schedule (the offline outbox)
+  retry?: boolean;
+  mutation?: MutationMeta;
+}
 
-      if (!response.ok) {
-        console.warn('[API] Token refresh failed with status', response.status);
-        // On refresh failure, clear tokens and redirect to auth
-        localStorage.removeItem('accessToken');
-        localStorage.removeItem('refreshToken');
-        window.location.href = '/auth';
-        return false;
-      }
+// Cursor pagination. `cursor` is the previous page's `nextCursor`; for
+// backends that do not send one the client pages by offset and makes up
+// `offset:<n>` cursors itself.
+export interface PageParams {
+  cursor?: string | null;
+  limit?: number;
+}
 
-      const data = await response.json().catch(() => null);
-      if (data?.data?.accessToken) {
-        localStorage.setItem('accessToken', data.data.accessToken);
-        if (data?.data?.refreshToken) {
-          localStorage.setItem('refreshToken', data.data.refreshToken);
-        }
-        return true;
-      }
-      return false;
-    } catch (err) {
-      console.error('[API] Token refresh error', err);
-      return false;
-    }
-  }
+const OFFSET_CURSOR = 'offset:';
+export const HISTORY_PAGE_SIZE = 20;
+export const NOTIFICATIONS_PAGE_SIZE = 20;
+
+function pageQuery(cursor: string | null | undefined, limit: number) {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (cursor?.startsWith(OFFSET_CURSOR)) params.set('offset', cursor.slice(OFFSET_CURSOR.length));
+  else if (cursor) params.set('cursor', cursor);
+  return params.toString();
+}
 
-  private getHeaders(): HeadersInit {
-    const token = localStorage.getItem('accessToken');
-    return {
-      'Content-Type': 'application/json',
-      ...(token && { Authorization: `Bearer ${token}` }),
-    };
+function toPage<T>(response: ApiResponse<S.RawPage<T>>, cursor: string | null | undefined, limit: number): ApiResponse<Page<T>> {
+  const raw = response.data;
+  if (!raw) return { ...response, data: undefined };
+  const { items, total } = raw;
+  let nextCursor = raw.nextCursor ?? null;
+  if (raw.legacy) {
+    const offset = cursor?.startsWith(OFFSET_CURSOR) ? Number(cursor.slice(OFFSET_CURSOR.length)) || 0 : 0;
+    // A full page may have more behind it; a longer one means the backend
+    // ignored `limit` and sent everything
+    nextCursor = items.length === limit ? `${OFFSET_CURSOR}${offset + items.length}` : null;
+  }
+  return { ...response, data: { items, nextCursor, total } };
+}
+
+const mutationHeaders = (meta?: MutationMeta): Record<string, string> =>
+  meta ? { 'Idempotency-Key': meta.idempotencyKey, 'X-Device-Timestamp': meta.deviceTimestamp } : {};
+
+class ApiClient {
+  private transport: Transport;
+  private cache = new ResponseCache(resolvePolicy);
+
+  constructor(baseUrl: string) {
+    // Every request the app makes goes through this one pipeline; per-endpoint
+    // caching, coalescing and 429 handling live in ./policies.
+    this.transport = new Transport(baseUrl).use(
+      logging(),
+      this.cache.middleware(),
+      rateLimitCooldown(resolvePolicy),
+      refreshOnAuthError(),
+      retry({ maxRetries: 4, backoffMs: 1000, policyFor: resolvePolicy }),
+      timeout(resolvePolicy, 15_000),
+      authHeader(),
+      contentType()
+    );
+  }
+
+  // Drop cached responses for endpoints matching `pattern` (all when omitted),
+  // e.g. after a socket event says the data changed.
+  invalidate(pattern?: EndpointPattern) {
+    this.cache.invalidate(pattern);
   }
 
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    init: SendOptions,
+    schema: Contract<T>,
+    options: CallOptions = {}
   ): Promise<ApiResponse<T>> {
     // Normalize and validate endpoint to avoid accidental concat bugs
     let ep = endpoint ?? '';
@@ -78,494 +149,357 @@ class ApiClient {
     const httpMethods = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS', 'HEAD'];
     // If caller accidentally passed an HTTP method as endpoint (e.g., 'GET'), reject early and log for debugging
     if (httpMethods.includes(ep.toUpperCase())) {
-      console.warn('[API] Invalid request - endpoint looks like an HTTP method:', ep);
+      log.warn('Invalid request - endpoint looks like an HTTP method', { endpoint: ep });
       return { success: false, error: 'Invalid endpoint' } as ApiResponse<T>;
     }
     if (!ep.startsWith('/')) ep = '/' + ep;
+    const method = (init.method || 'GET').toUpperCase();
 
-    const url = `${this.baseUrl}${ep}`;
-    const maxRetries = 4;
-    let attempt = 0;
-    let backoff = 1000;
-
-    const now = Date.now();
-    const method = (options.method || 'GET').toUpperCase();
-    const isGet = method === 'GET';
-    const isAuthMe = ep === '/auth/me' && isGet;
-    const isActiveService = ep === '/services/active' && isGet;
-    
-
-    // If we have a recent cached response for /auth/me or /services/active, return it (short TTL)
-    if ((isAuthMe || isActiveService) && this._cache[ep] && now - this._cache[ep].ts < 10_000) {
-      return this._cache[ep].data;
-    }
-
-    // If a client-side cooldown exists for this endpoint (set after 429), avoid hitting server
-    const cd = this._cooldowns[ep];
-    if (cd && cd > now) {
-      return { success: false, error: 'Client-side cooldown after rate limit' } as ApiResponse<T>;
-    }
-
-    while (attempt <= maxRetries) {
-      try {
-        const response = await fetch(url, {
-          ...options,
-          credentials: 'include',
-          headers: {
-            ...this.getHeaders(),
-            ...options.headers,
-          },
-        });
-
-        let data: any = null;
-        try {
-          data = await response.json();
-        } catch (e) {
-          // No JSON body
-        }
-
-        if (response.status === 429) {
-          // Rate limited. Honor Retry-After header if present, otherwise exponential backoff.
-          const retryAfter = response.headers.get('Retry-After');
-          let waitMs = backoff;
-          if (retryAfter) {
-            const sec = parseInt(retryAfter, 10);
-            if (!isNaN(sec)) waitMs = sec * 1000;
-            else {
-              const date = Date.parse(retryAfter);
-              if (!isNaN(date)) waitMs = Math.max(0, date - Date.now());
-            }
-          }
-          // For sensitive endpoints (like polling /services/*) treat a 429
-          // as a hard signal: set a longer cooldown and avoid retry loops.
-          const normalized = endpoint || '';
-          const isActiveService = normalized === '/services/active' && (options.method || 'GET').toUpperCase() === 'GET';
-          const isServiceResource = normalized.startsWith('/services/');
-          try {
-            if (isActiveService) {
-              // set a longer cooldown (5 minutes) and do not retry
-              this._cooldowns[ep] = Date.now() + 5 * 60 * 1000;
-              console.warn('API rate limited for /services/active — applying 5m client cooldown');
-              return { success: false, error: data?.error || `Request failed with status ${response.status}` };
-            }
-            if (isServiceResource) {
-              // requests for specific services (e.g., /services/:id) are often
-              // polled; if the server responds 429, apply a moderate cooldown
-              // (45s) to avoid hammering.
-              const cooldown = Math.max(waitMs, 45 * 1000);
-              this._cooldowns[ep] = Date.now() + cooldown;
-              console.warn(`API rate limited for ${ep} — applying ${Math.round(cooldown/1000)}s client cooldown`);
-              return { success: false, error: data?.error || `Request failed with status ${response.status}` };
-            }
-            // set a client-side cooldown to avoid hammering the endpoint (honor Retry-After)
-            this._cooldowns[ep] = Date.now() + waitMs;
-          } catch (e) {
-            // ignore
-          }
-          // If we've exhausted retries, return an error response to caller
-          if (attempt === maxRetries) {
-            const retryWindow = 30_000; // default 30s cooldown
-            this._cooldowns[ep] = Date.now() + retryWindow;
-            console.error('API Rate limit exceeded:', url);
-            return { success: false, error: data?.error || `Request failed with status ${response.status}` };
-          }
-          // wait and retry
-          await new Promise((res) => setTimeout(res, waitMs));
-          attempt += 1;
-          backoff *= 2;
-          continue;
-        }
-
-        // Handle authentication errors: 401/403 and backend's 400 'unauthenticated' responses.
-        // Treat them the same: attempt token refresh once, then retry the request.
-        const isAuthError = response.status === 401 || response.status === 403 || (
-          response.status === 400 && String(data?.error || '').toLowerCase().includes('unauthenticated')
-        );
-
-        if (isAuthError) {
-          const errMsg = data?.error || `Request failed with status ${response.status}`;
-
-          // Prevent concurrent refresh attempts
-          if (!this._refreshPromise) {
-            this._refreshPromise = this.refreshAccessToken().finally(() => {
-              this._refreshPromise = null;
-            });
-          }
-
-          const refreshed = await this._refreshPromise;
-          if (refreshed && attempt < maxRetries) {
-            // Retry the original request with new token
-            attempt += 1;
-            continue;
-          }
-
-          // Refresh failed or out of retries
-          try {
-            if (isAuthMe) this._cooldowns[ep] = Date.now() + 30_000; // 30s cooldown for auth/me
-          } catch (e) {
-            // ignore
-          }
-          return { success: false, error: errMsg, status: response.status } as ApiResponse<T>;
-        }
-
-        if (!response.ok) {
-          // Try to capture server error body (JSON or text) to aid debugging.
-          let serverMsg: string | null = null;
-          try {
-            // clone the response so earlier json() consumption doesn't prevent reading text
-            const clone = response.clone();
-            const txt = await clone.text();
-            serverMsg = txt || null;
-          } catch (e) {
-            serverMsg = null;
-          }
-
-          // Retry transient 5xx errors a few times before returning failure
-          if (response.status >= 500 && attempt < maxRetries) {
-            const waitMs = backoff;
-            if (import.meta.env.DEV) console.warn('[API] transient server error', response.status, 'retrying in', waitMs, 'ms', url);
-            await new Promise((res) => setTimeout(res, waitMs));
-            attempt += 1;
-            backoff *= 2;
-            continue;
-          }
-
-          const errMessage = data?.error || serverMsg || `Request failed with status ${response.status}`;
-          const errObj: ApiResponse = {
-            success: false,
-            error: errMessage,
-            status: response.status,
-            // include some debug fields to help callers/logging
-            data: undefined,
-          } as ApiResponse;
-          try {
-            // Use debug-level logging for non-ok responses to avoid polluting
-            // DevTools as errors (installHook shows console.error entries).
-            if (import.meta.env.DEV) console.debug('API non-ok response', { url, status: response.status, body: serverMsg, jsonBody: data });
-          } catch (e) {
-            // ignore logging errors
-          }
-          return errObj;
-        }
-
-        // Cache successful responses for sensitive GET endpoints to reduce request churn
-        if ((isAuthMe || isActiveService) && data) {
-          try {
-            this._cache[ep] = { ts: Date.now(), data };
-          } catch (e) {
-            // ignore cache failures
-          }
-        }
-
-        return data;
-      } catch (error) {
-        // On network or other errors, decide whether to retry
-        if (attempt < maxRetries) {
-          await new Promise((res) => setTimeout(res, backoff));
-          attempt += 1;
-          backoff *= 2;
-          continue;
-        }
-        console.error('API Error:', error);
+    try {
+      const response = await this.transport.send(ep, {
+        ...init,
+        headers: { ...init.headers, ...mutationHeaders(options.mutation) },
+        signal: options.signal,
+        timeoutMs: options.timeoutMs,
+        retry: options.retry,
+      });
+      if (!response.ok) {
+        const body = response.body as { error?: string } | null;
         return {
           success: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
+          error: body?.error || response.text || `Request failed with status ${response.status}`,
+          status: response.status,
         };
       }
+      return validate(ep, method, response.body, schema, response.status);
+    } catch (error) {
+      // Cancellation is expected (unmount, navigation); not worth an error log
+      if (isAbortError(error)) {
+        return { success: false, error: 'Request aborted', errorCode: 'ABORTED' };
+      }
+      if (isTimeoutError(error)) {
+        log.warn(`${method} ${ep} timed out`);
+        return { success: false, error: 'Request timed out', errorCode: 'TIMEOUT' };
+      }
+      log.error(`${method} ${ep} failed`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
     }
-    // Shouldn't reach here, but return a generic failure
-    return { success: false, error: 'Request failed' };
   }
 
   // Auth
-  async requestOtp(_type: 'phone' | 'email', value: string, _name?: string) {
+  async requestOtp(_type: 'phone' | 'email', value: string, _name?: string, options: CallOptions = {}) {
     // Backend expects { phone, role } for request-otp
     // type parameter is ignored since backend only supports phone auth currently
     return this.request('/auth/request-otp', {
       method: 'POST',
       body: JSON.stringify({ phone: value, role: 'HELPER' }),
-    });
+    }, S.AckSchema, options);
   }
 
-  async verifyOtp(_type: 'phone' | 'email', value: string, otp: string, name?: string, role?: 'PATIENT' | 'HELPER') {
+  async verifyOtp(_type: 'phone' | 'email', value: string, otp: string, name?: string, role?: 'PATIENT' | 'HELPER', options: CallOptions = {}) {
     // Backend expects { phone, otp, name, role } for verify-otp
     return this.request('/auth/verify-otp', {
       method: 'POST',
       body: JSON.stringify({ phone: value, otp, name, role: role || 'HELPER' }),
-    });
+    }, S.AuthTokensSchema, options);
   }
 
-  async getMe() {
-    return this.request('/auth/me');
+  async getMe(options: CallOptions = {}) {
+    return this.request('/auth/me', {}, S.MeSchema, options);
   }
   
-  // Token refresh: if a refreshToken string is provided, send it in the body.
-  // Otherwise rely on any httpOnly cookie the backend may have set.
-  async refreshTokens(refreshToken?: string) {
-    return this.request('/auth/refresh', {
-      method: 'POST',
-      ...(refreshToken ? { body: JSON.stringify({ refreshToken }) } : {}),
-    });
-  }
-
   // Best-effort logout to clear server httpOnly cookies if the backend exposes it
-  async logout() {
-    return this.request('/auth/logout', { method: 'POST' });
+  async logout(options: CallOptions = {}) {
+    return this.request('/auth/logout', { method: 'POST' }, S.AckSchema, options);
   }
   
   // Helper
-  // Helper
-  async getHelperProfile() {
-    return this.request('/helpers/me');
+  async getHelperProfile(options: CallOptions = {}) {
+    return this.request('/helpers/me', {}, S.HelperSchema, options);
   }
 
-  async createHelper(data: any) {
+  async createHelper(data: Record<string, unknown>, options: CallOptions = {}) {
     return this.request('/helpers', {
       method: 'POST',
       body: JSON.stringify(data),
-    });
+    }, S.HelperSchema, options);
   }
 
   // Register helper with documents (multipart form-data)
-  async registerHelperWithDocuments(form: FormData) {
-    const url = `${this.baseUrl}/helpers/register`;
-    try {
-      // Extract Authorization header only (avoid Content-Type for multipart)
-      const baseHeaders = this.getHeaders();
-      const authHeader = (baseHeaders as Record<string, string>).Authorization;
-      const response = await fetch(url, {
-        method: 'POST',
-        credentials: 'include',
-        headers: {
-          // Let the browser set multipart boundary; do not set Content-Type here
-          ...(authHeader ? { Authorization: authHeader } : {}),
-        },
-        body: form,
-      });
-      const data = await response.json().catch(() => null);
-      if (!response.ok) {
-        return { success: false, error: data?.error || `Request failed with status ${response.status}`, status: response.status } as ApiResponse<any>;
-      }
-      // Ensure success payload carries status for consistency
-      return { ...(data || {}), status: response.status } as ApiResponse<any>;
-    } catch (e) {
-      return { success: false, error: e instanceof Error ? e.message : 'Network error' } as ApiResponse<any>;
-    }
+  async registerHelperWithDocuments(form: FormData, options: CallOptions = {}) {
+    return this.request('/helpers/register', {
+      method: 'POST',
+      body: form,
+    }, S.HelperSchema, options);
   }
 
   // Check whether a helper already exists by phone or aadhaar
   // Expects backend to return { success: boolean, data: { exists: boolean, field?: 'phone'|'aadhaar'|'both' } }
-  async checkHelperExists(phone?: string, aadhaar?: string) {
+  async checkHelperExists(phone?: string, aadhaar?: string, options: CallOptions = {}) {
     return this.request('/helpers/exists', {
       method: 'POST',
       body: JSON.stringify({ phone, aadhaar }),
-    });
+    }, S.HelperExistsSchema, options);
   }
 
-  async updateAvailability(helperId: string, isAvailable: boolean) {
+  async updateAvailability(helperId: string, isAvailable: boolean, options: CallOptions = {}) {
     return this.request(`/helpers/${helperId}/availability`, {
       method: 'PATCH',
       body: JSON.stringify({ isAvailable }),
-    });
+    }, S.HelperSchema, options);
   }
 
-  async updateLocation(helperId: string, lat: number, lng: number) {
+  // Stop (minutes) or resume (null) request dispatch without going offline
+  async pauseRequests(helperId: string, minutes: number | null, options: CallOptions = {}) {
+    return this.request(`/helpers/${helperId}/pause`, {
+      method: 'PATCH',
+      body: JSON.stringify({ minutes }),
+    }, S.HelperSchema, options);
+  }
+
+  async updateLocation(helperId: string, lat: number, lng: number, options: CallOptions = {}) {
     return this.request(`/helpers/${helperId}/location`, {
       method: 'PATCH',
       body: JSON.stringify({ lat, lng }),
-    });
+    }, S.AckSchema, options);
   }
 
   // Services
-  async getActiveService() {
-    return this.request('/services/active');
+  async getActiveService(options: CallOptions = {}) {
+    return this.request('/services/active', {}, S.ActiveServiceSchema, options);
+  }
+
+  async getPendingRequests(options: CallOptions = {}) {
+    return this.request('/services/pending', {}, S.PendingRequestsSchema, options);
   }
 
-  async getService(serviceId: string) {
-    return this.request(`/services/${serviceId}`);
+  async getService(serviceId: string, options: CallOptions = {}) {
+    return this.request(`/services/${serviceId}`, {}, S.ServiceSchema, options);
   }
 
-  async verifyServiceOtp(serviceId: string, otp: string) {
+  async verifyServiceOtp(serviceId: string, otp: string, options: CallOptions = {}) {
     return this.request(`/services/${serviceId}/verify-otp`, {
       method: 'POST',
       body: JSON.stringify({ otp }),
-    });
+    }, S.AckSchema, options);
   }
 
-  async arriveService(serviceId: string) {
+  async arriveService(serviceId: string, options: CallOptions = {}) {
     return this.request(`/services/${serviceId}/arrive`, {
       method: 'POST',
-    });
+    }, S.AckSchema, options);
   }
 
-  async completeService(serviceId: string) {
+  async completeService(serviceId: string, options: CallOptions = {}) {
     return this.request(`/services/${serviceId}/complete`, {
       method: 'POST',
-    });
+    }, S.AckSchema, options);
   }
 
-  async acceptService(serviceId: string) {
+  async acceptService(serviceId: string, options: CallOptions = {}) {
     return this.request(`/services/${serviceId}/accept`, {
       method: 'POST',
-    });
+    }, S.AckSchema, options);
   }
 
-  async declineService(serviceId: string) {
+  async declineService(serviceId: string, details: DeclineDetails = { source: 'manual' }, options: CallOptions = {}) {
     return this.request(`/services/${serviceId}/decline`, {
       method: 'POST',
-    });
+      body: JSON.stringify(details),
+    }, S.AckSchema, options);
   }
 
-  async updateServiceStatus(serviceId: string, status: string) {
+  async updateServiceStatus(serviceId: string, status: string, options: CallOptions = {}) {
     return this.request(`/services/${serviceId}/status`, {
       method: 'PATCH',
       body: JSON.stringify({ status }),
-    });
+    }, S.AckSchema, options);
   }
 
-  async getServiceHistory() {
-    return this.request('/services/history');
+  async getServiceHistory(page: PageParams = {}, options: CallOptions = {}): Promise<ApiResponse<Page<HistoryItem>>> {
+    const limit = page.limit ?? HISTORY_PAGE_SIZE;
+    const response = await this.request(`/services/history?${pageQuery(page.cursor, limit)}`, {}, S.ServiceHistoryPageSchema, options);
+    return toPage(response, page.cursor, limit);
   }
 
-  async getEarnings() {
-    return this.request('/helpers/earnings');
+  async getEarnings(options: CallOptions = {}) {
+    return this.request('/helpers/earnings', {}, S.EarningsSummarySchema, options);
   }
 
-  async getHelperHoursOnline() {
-    return this.request<any>('GET', '/analytics/helper/hours-online');
+  async getHelperHoursOnline(options: CallOptions = {}) {
+    return this.request('/analytics/helper/hours-online', {}, S.HoursOnlineSchema, options);
   }
 
   // Ratings
-  async rateService(serviceId: string, rating: number, comment?: string) {
+  async rateService(serviceId: string, rating: number, comment?: string, options: CallOptions = {}) {
     return this.request(`/services/${serviceId}/rate`, {
       method: 'POST',
       body: JSON.stringify({ rating, comment }),
-    });
+    }, S.AckSchema, options);
   }
 
-  async getServiceRating(serviceId: string) {
-    return this.request(`/services/${serviceId}/rating`);
+  async getServiceRating(serviceId: string, options: CallOptions = {}) {
+    return this.request(`/services/${serviceId}/rating`, {}, S.RatingSchema, options);
   }
 
   // Chat
-  async getChatMessages(serviceId: string) {
-    return this.request(`/chat/service/${serviceId}/messages`);
+  async getChatMessages(serviceId: string, options: CallOptions = {}) {
+    return this.request(`/chat/service/${serviceId}/messages`, {}, S.ChatMessageListSchema, options);
   }
 
   async sendChatMessage(data: {
     serviceId: string;
-    messageType: 'TEXT' | 'IMAGE' | 'FILE' | 'VOICE' | 'TEMPLATE';
+    messageType: ChatMessageType;
     message?: string;
     fileUrl?: string;
     fileName?: string;
-  }) {
+  }, options: CallOptions = {}) {
     return this.request('/chat/message', {
       method: 'POST',
       body: JSON.stringify(data),
-    });
+    }, S.ChatMessageSchema, options);
   }
 
-  async markChatAsRead(serviceId: string) {
+  async markChatAsRead(serviceId: string, options: CallOptions = {}) {
     return this.request(`/chat/service/${serviceId}/mark-read`, {
       method: 'POST',
-    });
+    }, S.AckSchema, options);
   }
 
-  async getUnreadChatCount() {
-    return this.request('/chat/unread-count');
+  async getUnreadChatCount(options: CallOptions = {}) {
+    return this.request('/chat/unread-count', {}, S.UnreadCountSchema, options);
   }
 
-  async getChatTemplates() {
-    return this.request('/chat/templates');
+  async getChatTemplates(options: CallOptions = {}) {
+    return this.request('/chat/templates', {}, S.ChatTemplateListSchema, options);
   }
 
-  async uploadChatFile(file: File, messageType: 'IMAGE' | 'FILE' | 'VOICE') {
+  async uploadChatFile(file: File, messageType: 'IMAGE' | 'FILE' | 'VOICE', options: CallOptions = {}) {
     const formData = new FormData();
     formData.append('file', file);
     formData.append('messageType', messageType);
 
-    const token = localStorage.getItem('accessToken');
-    const response = await fetch(`${this.baseUrl}/chat/upload`, {
+    return this.request('/chat/upload', {
       method: 'POST',
-      headers: {
-        ...(token && { Authorization: `Bearer ${token}` }),
-      },
       body: formData,
-    });
+    }, S.ChatUploadSchema, options);
+  }
 
-    return response.json();
+  // Authenticated download of a chat attachment
+  async getChatFile(messageId: string, options: CallOptions = {}): Promise<ApiResponse<Blob>> {
+    try {
+      const response = await this.transport.send(`/chat/file/${messageId}`, {
+        responseType: 'blob',
+        signal: options.signal,
+        timeoutMs: options.timeoutMs,
+      });
+      if (!response.ok || !(response.body instanceof Blob)) {
+        return { success: false, error: `Request failed with status ${response.status}`, status: response.status };
+      }
+      return { success: true, data: response.body, status: response.status };
+    } catch (error) {
+      if (isAbortError(error)) return { success: false, error: 'Request aborted', errorCode: 'ABORTED' };
+      if (isTimeoutError(error)) {
+        log.warn(`GET /chat/file/${messageId} timed out`);
+        return { success: false, error: 'Request timed out', errorCode: 'TIMEOUT' };
+      }
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
   }
 
   // Notifications
-  async getNotifications(limit = 50) {
-    return this.request(`/notifications?limit=${limit}`);
+  async getNotifications(page: PageParams = {}, options: CallOptions = {}): Promise<ApiResponse<Page<AppNotification>>> {
+    const limit = page.limit ?? NOTIFICATIONS_PAGE_SIZE;
+    const response = await this.request(`/notifications?${pageQuery(page.cursor, limit)}`, {}, S.NotificationPageSchema, options);
+    return toPage(response, page.cursor, limit);
   }
 
-  async getUnreadNotificationCount() {
-    return this.request('/notifications/unread-count');
+  async getUnreadNotificationCount(options: CallOptions = {}) {
+    return this.request('/notifications/unread-count', {}, S.UnreadCountSchema, options);
   }
 
-  async markNotificationAsRead(notificationId: string) {
+  async markNotificationAsRead(notificationId: string, options: CallOptions = {}) {
     return this.request(`/notifications/${notificationId}/mark-read`, {
       method: 'POST',
-    });
+    }, S.AckSchema, options);
   }
 
-  async markAllNotificationsAsRead() {
+  async markAllNotificationsAsRead(options: CallOptions = {}) {
     return this.request('/notifications/mark-all-read', {
       method: 'POST',
-    });
+    }, S.AckSchema, options);
   }
 
-  async deleteNotification(notificationId: string) {
+  async deleteNotification(notificationId: string, options: CallOptions = {}) {
     return this.request(`/notifications/${notificationId}`, {
       method: 'DELETE',
-    });
+    }, S.AckSchema, options);
   }
 
-  async getNotificationPreferences() {
-    return this.request('/notifications/preferences');
+  async getNotificationPreferences(options: CallOptions = {}) {
+    return this.request('/notifications/preferences', {}, S.NotificationPreferencesSchema, options);
   }
 
-  async updateNotificationPreferences(preferences: any) {
+  async updateNotificationPreferences(preferences: NotificationPreferencesPayload, options: CallOptions = {}) {
     return this.request('/notifications/preferences', {
       method: 'PUT',
       body: JSON.stringify(preferences),
-    });
+    }, S.NotificationPreferencesSchema, options);
+  }
+
+  // Web Push (see core/sw/push)
+  async getPushPublicKey(options: CallOptions = {}) {
+    return this.request('/notifications/push/public-key', {}, S.PushPublicKeySchema, options);
+  }
+
+  async registerPushSubscription(subscription: PushSubscriptionJSON, options: CallOptions = {}) {
+    return this.request('/notifications/push/subscriptions', {
+      method: 'POST',
+      body: JSON.stringify({ subscription }),
+    }, S.AckSchema, options);
+  }
+
+  async unregisterPushSubscription(endpoint: string, options: CallOptions = {}) {
+    return this.request('/notifications/push/subscriptions', {
+      method: 'DELETE',
+      body: JSON.stringify({ endpoint }),
+    }, S.AckSchema, options);
   }
 
   // Analytics
-  async getHelperEarnings(startDate?: string, endDate?: string) {
+  async getHelperEarnings(startDate?: string, endDate?: string, options: CallOptions = {}) {
     const params = new URLSearchParams();
     if (startDate) params.append('startDate', startDate);
     if (endDate) params.append('endDate', endDate);
-    return this.request(`/analytics/helper/earnings?${params.toString()}`);
+    return this.request(`/analytics/helper/earnings?${params.toString()}`, {}, S.EarningsSummarySchema, options);
   }
 
-  async getHelperServiceBreakdown() {
-    return this.request('/analytics/helper/service-breakdown');
+  async getHelperServiceBreakdown(options: CallOptions = {}) {
+    return this.request('/analytics/helper/service-breakdown', {}, S.ServiceBreakdownSchema, options);
   }
 
-  async getHelperRatingStats() {
-    return this.request('/analytics/helper/rating-stats');
+  async getHelperRatingStats(options: CallOptions = {}) {
+    return this.request('/analytics/helper/rating-stats', {}, S.RatingStatsSchema, options);
   }
 
-  async getEarningsTrends(period: 'daily' | 'weekly' | 'monthly' = 'weekly', limit = 30) {
-    return this.request(`/analytics/helper/earnings-trends?period=${period}&limit=${limit}`);
+  async getEarningsTrends(period: 'daily' | 'weekly' | 'monthly' = 'weekly', limit = 30, options: CallOptions = {}) {
+    return this.request(`/analytics/helper/earnings-trends?period=${period}&limit=${limit}`, {}, S.EarningsTrendsSchema, options);
   }
 
-  async getHelperPeakHours() {
-    return this.request('/analytics/helper/peak-hours');
+  async getHelperPeakHours(options: CallOptions = {}) {
+    return this.request('/analytics/helper/peak-hours', {}, S.PeakHoursSchema, options);
   }
 
-  async getHelperServiceTypeBreakdown() {
-    return this.request('/analytics/helper/service-type-breakdown');
+  async getHelperServiceTypeBreakdown(options: CallOptions = {}) {
+    return this.request('/analytics/helper/service-type-breakdown', {}, S.ServiceTypeBreakdownSchema, options);
   }
 
-  async getHelperSatisfactionTrends(period: 'daily' | 'weekly' | 'monthly' = 'weekly') {
-    return this.request(`/analytics/helper/satisfaction-trends?period=${period}`);
+  async getHelperSatisfactionTrends(period: 'daily' | 'weekly' | 'monthly' = 'weekly', options: CallOptions = {}) {
+    return this.request(`/analytics/helper/satisfaction-trends?period=${period}`, {}, S.SatisfactionTrendsSchema, options);
   }
 }
 
 export const apiClient = new ApiClient(API_URL);
-
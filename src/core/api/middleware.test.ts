@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { ResponseCache, rateLimitCooldown, retry, syntheticResponse, timeout } from './middleware';
+import { isTimeoutError, type Next, type TransportRequest, type TransportResponse } from './transport';
+import type { EndpointPolicy } from './policies';
+
+const request = (overrides: Partial<TransportRequest> = {}): TransportRequest => ({
+  endpoint: '/services/active',
+  url: '/api/services/active',
+  method: 'GET',
+  headers: {},
+  responseType: 'json',
+  attempt: 0,
+  meta: {},
+  ...overrides,
+});
+
+const policy = (overrides: Partial<EndpointPolicy> = {}) => () => ({ match: /.*/, ...overrides });
+
+// Answers each call with the next scripted outcome (an Error is thrown)
+function scripted(...outcomes: (number | Error)[]) {
+  const calls: TransportRequest[] = [];
+  const next: Next = async (req) => {
+    calls.push(req);
+    const outcome = outcomes[Math.min(calls.length - 1, outcomes.length - 1)];
+    if (outcome instanceof Error) throw outcome;
+    return syntheticResponse(outcome, { success: outcome < 400 });
+  };
+  return { next, calls };
+}
+
+const fastRetry = (overrides: Partial<EndpointPolicy> = {}) =>
+  retry({ maxRetries: 2, backoffMs: 1, policyFor: policy(overrides) });
+
+describe('retry', () => {
+  it('retries a read after a network failure or a 5xx', async () => {
+    const { next, calls } = scripted(new TypeError('Failed to fetch'), 503, 200);
+    const res = await fastRetry()(request(), next);
+    expect(res.status).toBe(200);
+    expect(calls.map((c) => c.attempt)).toEqual([0, 1, 2]);
+  });
+
+  it('gives up after maxRetries', async () => {
+    const { next, calls } = scripted(500);
+    const res = await fastRetry()(request(), next);
+    expect(res.status).toBe(500);
+    expect(calls).toHaveLength(3);
+  });
+
+  it('does not send a mutation again after it may have reached the server', async () => {
+    const failed = scripted(new TypeError('Failed to fetch'), 200);
+    await expect(fastRetry()(request({ method: 'POST' }), failed.next)).rejects.toThrow('Failed to fetch');
+    expect(failed.calls).toHaveLength(1);
+
+    const serverError = scripted(502, 200);
+    expect((await fastRetry()(request({ method: 'POST' }), serverError.next)).status).toBe(502);
+    expect(serverError.calls).toHaveLength(1);
+  });
+
+  it('retries a mutation that carries an Idempotency-Key', async () => {
+    const { next, calls } = scripted(502, 200);
+    const res = await fastRetry()(request({ method: 'POST', headers: { 'Idempotency-Key': 'k1' } }), next);
+    expect(res.status).toBe(200);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('lets the policy opt in or out', async () => {
+    const optedOut = scripted(503, 200);
+    expect((await fastRetry({ retry: false })(request(), optedOut.next)).status).toBe(503);
+    expect(optedOut.calls).toHaveLength(1);
+
+    const optedIn = scripted(503, 200);
+    expect((await fastRetry({ retry: true })(request({ method: 'PUT' }), optedIn.next)).status).toBe(200);
+    expect(optedIn.calls).toHaveLength(2);
+  });
+
+  it('leaves the last word to the caller', async () => {
+    const { next, calls } = scripted(503, 200);
+    const req = request({ method: 'POST', headers: { 'Idempotency-Key': 'k1' }, retry: false });
+    expect((await fastRetry({ retry: true })(req, next)).status).toBe(503);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('retries a 429 for any method unless the policy says not to', async () => {
+    const post = scripted(429, 200);
+    expect((await fastRetry()(request({ method: 'POST' }), post.next)).status).toBe(200);
+
+    const polled = scripted(429, 200);
+    expect((await fastRetry({ retryOn429: false })(request(), polled.next)).status).toBe(429);
+    expect(polled.calls).toHaveLength(1);
+  });
+
+  it('never retries a caller abort', async () => {
+    const { next, calls } = scripted(new DOMException('Request aborted', 'AbortError'), 200);
+    await expect(fastRetry()(request(), next)).rejects.toThrow('Request aborted');
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe('timeout', () => {
+  const hang: Next = (req) =>
+    new Promise<TransportResponse>((_, reject) => {
+      req.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    });
+
+  it('turns a slow attempt into a TimeoutError', async () => {
+    const error = await timeout(policy(), 10)(request(), hang).catch((e: unknown) => e);
+    expect(isTimeoutError(error)).toBe(true);
+  });
+
+  it('prefers the caller timeout over the policy one', async () => {
+    const started = Date.now();
+    await timeout(policy({ timeoutMs: 5_000 }), 5_000)(request({ timeoutMs: 10 }), hang).catch(() => undefined);
+    expect(Date.now() - started).toBeLessThan(1_000);
+  });
+});
+
+describe('rateLimitCooldown', () => {
+  it('answers locally while an endpoint cools down after a 429', async () => {
+    const { next, calls } = scripted(429, 200);
+    const middleware = rateLimitCooldown(policy({ cooldownOn429Ms: 60_000 }));
+    expect((await middleware(request(), next)).status).toBe(429);
+    expect((await middleware(request(), next)).status).toBe(429);
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe('ResponseCache', () => {
+  it('serves a fresh entry without the network and drops it when a mutation invalidates it', async () => {
+    const cache = new ResponseCache((req) =>
+      req.method === 'GET'
+        ? { match: /.*/, ttlMs: 60_000 }
+        : { match: /.*/, invalidates: () => ['/services/active'] }
+    );
+    const { next, calls } = scripted(200);
+    const middleware = cache.middleware();
+
+    await middleware(request(), next);
+    await middleware(request(), next);
+    expect(calls).toHaveLength(1);
+
+    await middleware(request({ endpoint: '/services/s1/accept', method: 'POST' }), next);
+    await middleware(request(), next);
+    expect(calls).toHaveLength(3);
+  });
+
+  it('shares one request between identical concurrent reads', async () => {
+    const cache = new ResponseCache(() => ({ match: /.*/, dedupe: true }));
+    const { next, calls } = scripted(200);
+    const middleware = cache.middleware();
+    await Promise.all([middleware(request(), next), middleware(request(), next)]);
+    expect(calls).toHaveLength(1);
+  });
+});
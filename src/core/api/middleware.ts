@@ -0,0 +1,308 @@
+import { refreshSession } from './session';
+import { matchesPattern, type EndpointPattern, type EndpointPolicy } from './policies';
+import {
+  abortError,
+  isAbortError,
+  timeoutError,
+  type Middleware,
+  type TransportRequest,
+  type TransportResponse,
+} from './transport';
+import { tokenManager } from '@/core/auth/tokenManager';
+import { createLogger } from '@/core/logging/logger';
+
+const log = createLogger('api');
+
+// Stock middleware for the transport. ApiClient wires them in this order
+// (outermost first): logging -> cache -> rateLimitCooldown ->
+// refreshOnAuthError -> retry -> timeout -> authHeader -> contentType -> fetch.
+// Per-endpoint behaviour comes from the policy table in ./policies.
+
+type PolicyResolver = (req: TransportRequest) => EndpointPolicy;
+
+// Backoff wait that ends early (rejecting with AbortError) if the caller aborts.
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const errorOf = (res: TransportResponse) =>
+  String((res.body as { error?: unknown } | null)?.error ?? '');
+
+export function syntheticResponse(status: number, body: unknown): TransportResponse {
+  return { status, ok: status >= 200 && status < 300, headers: new Headers(), body };
+}
+
+// Honor Retry-After (seconds or HTTP date) when the server sends one.
+function retryAfterMs(res: TransportResponse): number | null {
+  const retryAfter = res.headers.get('Retry-After');
+  if (!retryAfter) return null;
+  const sec = parseInt(retryAfter, 10);
+  if (!isNaN(sec)) return sec * 1000;
+  const date = Date.parse(retryAfter);
+  if (!isNaN(date)) return Math.max(0, date - Date.now());
+  return null;
+}
+
+// Handle authentication errors: 401/403 and backend's 400 'unauthenticated' responses.
+export function isAuthError(res: TransportResponse) {
+  return res.status === 401 || res.status === 403 || (
+    res.status === 400 && errorOf(res).toLowerCase().includes('unauthenticated')
+  );
+}
+
+// JSON by default; multipart bodies must let the browser set the boundary.
+export const contentType = (): Middleware => (req, next) => {
+  const isMultipart = typeof FormData !== 'undefined' && req.body instanceof FormData;
+  if (isMultipart) {
+    delete req.headers['Content-Type'];
+  } else if (!req.headers['Content-Type']) {
+    req.headers['Content-Type'] = 'application/json';
+  }
+  return next(req);
+};
+
+// Read the token per attempt so retries after a refresh pick up the new one.
+export const authHeader = (): Middleware => (req, next) => {
+  const token = tokenManager.getAccessToken();
+  const headers = { ...req.headers };
+  if (token && !headers.Authorization) headers.Authorization = `Bearer ${token}`;
+  return next({ ...req, headers });
+};
+
+export interface RetryOptions {
+  maxRetries: number;
+  backoffMs: number;
+  policyFor: PolicyResolver;
+}
+
+// A failed attempt may still have reached the server, so only requests that
+// are safe to repeat are sent again: reads, anything carrying an
+// Idempotency-Key and what the policy opts in. The caller has the last word.
+const isReplayable = (req: TransportRequest, policy: EndpointPolicy) =>
+  req.retry ?? policy.retry ?? (req.method === 'GET' || req.method === 'HEAD' || Boolean(req.headers['Idempotency-Key']));
+
+// Retry 429s, transient 5xx and network failures with exponential backoff.
+// A 429 was turned away unprocessed and is retried for any method; the rest
+// only when the request is replayable.
+export const retry = ({ maxRetries, backoffMs, policyFor }: RetryOptions): Middleware =>
+  async (req, next) => {
+    const replayable = isReplayable(req, policyFor(req));
+    let backoff = backoffMs;
+    for (let attempt = 0; ; attempt += 1) {
+      const current = { ...req, attempt: req.attempt + attempt };
+      let res: TransportResponse;
+      try {
+        res = await next(current);
+      } catch (error) {
+        // On network errors and timeouts, decide whether to retry; a caller
+        // abort is final.
+        if (isAbortError(error) || !replayable || attempt >= maxRetries) throw error;
+        await sleep(backoff, req.signal);
+        backoff *= 2;
+        continue;
+      }
+
+      if (attempt >= maxRetries) return res;
+
+      if (res.status === 429 && policyFor(req).retryOn429 !== false) {
+        await sleep(retryAfterMs(res) ?? backoff, req.signal);
+        backoff *= 2;
+        continue;
+      }
+      if (res.status >= 500 && replayable) {
+        log.warn('Transient server error, retrying', { status: res.status, backoffMs: backoff, endpoint: req.endpoint });
+        await sleep(backoff, req.signal);
+        backoff *= 2;
+        continue;
+      }
+      return res;
+    }
+  };
+
+// Abort an attempt that takes longer than the caller's `timeoutMs`, the
+// endpoint policy's `timeoutMs` or `defaultMs`, in that order. Sits inside
+// `retry`, so a timed-out attempt is retried like a network failure when the
+// request is replayable.
+export const timeout = (policyFor: PolicyResolver, defaultMs: number): Middleware => async (req, next) => {
+  const ms = req.timeoutMs ?? policyFor(req).timeoutMs ?? defaultMs;
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, ms);
+  const onAbort = () => controller.abort();
+  if (req.signal?.aborted) controller.abort();
+  else req.signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await next({ ...req, signal: controller.signal });
+  } catch (error) {
+    throw timedOut ? timeoutError() : error;
+  } finally {
+    clearTimeout(timer);
+    req.signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// On an auth error, refresh the session once (single-flight, see ./session)
+// and replay the request with the new token.
+export const refreshOnAuthError = (): Middleware => async (req, next) => {
+  const res = await next(req);
+  if (!isAuthError(res) || req.endpoint.startsWith('/auth/refresh')) return res;
+
+  const token = await refreshSession({ redirectOnFailure: true });
+  if (!token) return res;
+  if (req.signal?.aborted) throw abortError();
+  return next({ ...req, attempt: req.attempt + 1 });
+};
+
+// Client-side cooldowns after rate limiting: while an endpoint is cooling
+// down we answer locally instead of hitting the server again.
+export const rateLimitCooldown = (policyFor: PolicyResolver): Middleware => {
+  const cooldowns: Record<string, number> = {};
+  return async (req, next) => {
+    const cd = cooldowns[req.endpoint];
+    if (cd && cd > Date.now()) {
+      return syntheticResponse(429, { success: false, error: 'Client-side cooldown after rate limit' });
+    }
+
+    const res = await next(req);
+    if (res.status === 429) {
+      const waitMs = Math.max(retryAfterMs(res) ?? 0, policyFor(req).cooldownOn429Ms ?? 0);
+      cooldowns[req.endpoint] = Date.now() + waitMs;
+      log.warn(`Rate limited for ${req.endpoint} — applying ${Math.round(waitMs / 1000)}s client cooldown`);
+    } else if (isAuthError(res) && req.endpoint === '/auth/me' && req.method === 'GET') {
+      // 30s cooldown for auth/me once refresh has failed
+      cooldowns[req.endpoint] = Date.now() + 30_000;
+    }
+    return res;
+  };
+};
+
+interface CacheEntry {
+  ts: number;
+  res: TransportResponse;
+}
+
+interface InflightEntry {
+  promise: Promise<TransportResponse>;
+  controller: AbortController;
+  waiters: number;
+}
+
+// Response cache with TTL, stale-while-revalidate and in-flight request
+// coalescing, driven by the policy table. Successful mutations drop the
+// entries their policy lists under `invalidates`.
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private inflight = new Map<string, InflightEntry>();
+  private policyFor: PolicyResolver;
+
+  constructor(policyFor: PolicyResolver) {
+    this.policyFor = policyFor;
+  }
+
+  // Drop cached entries whose endpoint matches; no pattern clears everything.
+  invalidate(pattern?: EndpointPattern) {
+    for (const key of [...this.entries.keys()]) {
+      if (!pattern || matchesPattern(pattern, key)) this.entries.delete(key);
+    }
+  }
+
+  middleware(): Middleware {
+    return async (req, next) => {
+      const policy = this.policyFor(req);
+
+      if (req.method !== 'GET') {
+        const res = await next(req);
+        if (res.ok && policy.invalidates) {
+          policy.invalidates(req.endpoint).forEach((p) => this.invalidate(p));
+        }
+        return res;
+      }
+
+      const key = req.endpoint;
+      const ttl = policy.ttlMs ?? 0;
+      const swr = policy.staleWhileRevalidateMs ?? 0;
+      const hit = this.entries.get(key);
+      const age = hit ? Date.now() - hit.ts : Infinity;
+
+      if (hit && age < ttl) return hit.res;
+      if (hit && age < ttl + swr) {
+        // Serve stale now; refresh in the background (errors keep the stale
+        // copy). The refresh outlives the caller, so it gets no signal.
+        this.fetch(key, { ...req, signal: undefined }, next, policy).catch(() => undefined);
+        return hit.res;
+      }
+      return this.fetch(key, req, next, policy);
+    };
+  }
+
+  private fetch(key: string, req: TransportRequest, next: (r: TransportRequest) => Promise<TransportResponse>, policy: EndpointPolicy) {
+    let entry = policy.dedupe ? this.inflight.get(key) : undefined;
+    if (!entry || entry.controller.signal.aborted) {
+      const controller = new AbortController();
+      const promise = next({ ...req, signal: controller.signal })
+        .then((res) => {
+          if (res.ok && (policy.ttlMs || policy.staleWhileRevalidateMs)) {
+            this.entries.set(key, { ts: Date.now(), res });
+          }
+          return res;
+        })
+        .finally(() => {
+          if (this.inflight.get(key) === created) this.inflight.delete(key);
+        });
+      const created: InflightEntry = { promise, controller, waiters: 0 };
+      if (policy.dedupe) this.inflight.set(key, created);
+      entry = created;
+    }
+    return this.wait(entry, req.signal);
+  }
+
+  // Each caller can walk away on its own; the shared request is only
+  // cancelled once every caller waiting on it has aborted.
+  private wait(entry: InflightEntry, signal?: AbortSignal) {
+    return new Promise<TransportResponse>((resolve, reject) => {
+      if (signal?.aborted) {
+        if (entry.waiters === 0) entry.controller.abort();
+        reject(abortError());
+        return;
+      }
+      entry.waiters += 1;
+      const onAbort = () => {
+        entry.waiters -= 1;
+        if (entry.waiters === 0) entry.controller.abort();
+        reject(abortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      entry.promise
+        .then(resolve, reject)
+        .finally(() => signal?.removeEventListener('abort', onAbort));
+    });
+  }
+}
+
+export const logging = (): Middleware => async (req, next) => {
+  const started = Date.now();
+  const res = await next(req);
+  // Non-ok responses are logged at debug level to avoid polluting DevTools
+  // as errors; they still land in the diagnostics buffer.
+  const entry = { method: req.method, endpoint: req.endpoint, status: res.status, ms: Date.now() - started };
+  if (res.ok) log.debug('Response', entry);
+  else log.debug('Non-ok response', { ...entry, body: res.body ?? res.text });
+  return res;
+};
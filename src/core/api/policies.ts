@@ -0,0 +1,150 @@
+import type { TransportRequest } from './transport';
+
+// Declarative per-endpoint behaviour for the transport. Instead of special
+// cases inside ApiClient, each rule says how responses for matching endpoints
+// are cached, whether identical in-flight requests are coalesced, how a 429 is
+// handled and which cached entries a mutation makes stale. The first matching
+// rule wins, so keep specific patterns above general ones.
+
+export type EndpointPattern = string | RegExp;
+
+export interface EndpointPolicy {
+  // Exact path ('/auth/me') or a RegExp tested against the path without query
+  match: EndpointPattern;
+  // Defaults to ['GET']
+  methods?: string[];
+  // Serve a cached success for this long without touching the network
+  ttlMs?: number;
+  // After the TTL, keep serving the cached value for this long while a
+  // background request refreshes it
+  staleWhileRevalidateMs?: number;
+  // Share one network request between identical concurrent callers (GET only)
+  dedupe?: boolean;
+  // Minimum client-side cooldown after a final 429 (Retry-After may extend it)
+  cooldownOn429Ms?: number;
+  // Whether the retry middleware should retry a 429 in-loop. Polled endpoints
+  // should not; the cooldown parks them instead.
+  retryOn429?: boolean;
+  // Whether network failures, timeouts and 5xx are retried. By default only
+  // reads and requests with an Idempotency-Key are; set it for mutations that
+  // are safe (or unsafe) to send twice.
+  retry?: boolean;
+  // Per-attempt timeout; callers can still override it per request
+  timeoutMs?: number;
+  // Cached entries to drop when a request matching this rule succeeds
+  invalidates?: (endpoint: string) => EndpointPattern[];
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+const serviceIdOf = (endpoint: string) => endpoint.split('/')[2] || '';
+
+export const ENDPOINT_POLICIES: EndpointPolicy[] = [
+  // Auth. Signing in or out makes everything cached for the previous session stale.
+  { match: '/auth/me', ttlMs: 10 * SECOND, dedupe: true },
+  { match: /^\/auth\/(verify-otp|logout)$/, methods: ['POST'], invalidates: () => [/.*/] },
+
+  // Services. The dashboard polls /services/active; a 429 there is a hard
+  // signal to back off for a while.
+  {
+    match: '/services/active',
+    ttlMs: 5 * SECOND,
+    staleWhileRevalidateMs: 30 * SECOND,
+    dedupe: true,
+    cooldownOn429Ms: 5 * MINUTE,
+    retryOn429: false,
+  },
+  { match: '/services/history', ttlMs: MINUTE, staleWhileRevalidateMs: 5 * MINUTE, dedupe: true },
+  // Offers expire within seconds; never answer from the cache
+  { match: '/services/pending', dedupe: true },
+  {
+    match: /^\/services\/[^/]+$/,
+    ttlMs: 5 * SECOND,
+    dedupe: true,
+    cooldownOn429Ms: 45 * SECOND,
+    retryOn429: false,
+  },
+  { match: /^\/services\/[^/]+\/rating$/, ttlMs: MINUTE, dedupe: true },
+  // Lifecycle mutations (accept, arrive, verify-otp, complete, rate, ...)
+  {
+    match: /^\/services\/[^/]+\/[^/]+$/,
+    methods: ['POST', 'PATCH'],
+    cooldownOn429Ms: 45 * SECOND,
+    retryOn429: false,
+    invalidates: (ep) => [
+      '/services/active',
+      '/services/history',
+      `/services/${serviceIdOf(ep)}`,
+      '/helpers/earnings',
+      /^\/analytics\//,
+    ],
+  },
+
+  // Helper profile and earnings. Document uploads are slow on mobile data.
+  { match: '/helpers/register', methods: ['POST'], timeoutMs: 2 * MINUTE, retryOn429: false, retry: false },
+  { match: '/helpers/me', ttlMs: 30 * SECOND, dedupe: true },
+  { match: '/helpers/earnings', ttlMs: MINUTE, staleWhileRevalidateMs: 5 * MINUTE, dedupe: true },
+  {
+    match: /^\/helpers\/[^/]+\/(availability|pause)$/,
+    methods: ['PATCH'],
+    invalidates: () => ['/helpers/me', '/auth/me'],
+  },
+
+  // Analytics change slowly; cache hard and refresh in the background
+  { match: /^\/analytics\//, ttlMs: 5 * MINUTE, staleWhileRevalidateMs: 30 * MINUTE, dedupe: true },
+
+  // Notifications
+  { match: '/notifications/preferences', ttlMs: 5 * MINUTE, dedupe: true },
+  {
+    match: '/notifications/preferences',
+    methods: ['PUT'],
+    // Replaces the whole document, so sending it twice is harmless
+    retry: true,
+    invalidates: () => ['/notifications/preferences'],
+  },
+  { match: '/notifications/push/public-key', ttlMs: 30 * MINUTE, dedupe: true },
+  { match: /^\/notifications(\/unread-count)?$/, ttlMs: 15 * SECOND, staleWhileRevalidateMs: MINUTE, dedupe: true },
+  {
+    match: /^\/notifications(\/|$)/,
+    methods: ['POST', 'DELETE'],
+    invalidates: () => [/^\/notifications(\/unread-count)?$/],
+  },
+
+  // Chat
+  { match: '/chat/upload', methods: ['POST'], timeoutMs: MINUTE, retry: false },
+  { match: '/chat/unread-count', ttlMs: 10 * SECOND, dedupe: true },
+  { match: '/chat/templates', ttlMs: 30 * MINUTE, dedupe: true },
+  {
+    match: /^\/chat\/(message|service\/[^/]+\/mark-read)$/,
+    methods: ['POST'],
+    // A message sent twice shows up twice
+    retry: false,
+    invalidates: () => ['/chat/unread-count', /^\/chat\/service\/[^/]+\/messages$/],
+  },
+];
+
+// The base of every resolved policy: a matching rule is merged over it, and
+// an endpoint no rule matches gets it as is. So unless a rule says otherwise,
+// identical GETs are coalesced, a 429 is retried in-loop and a final 429
+// parks the endpoint for at least 30s.
+export const DEFAULT_POLICY: EndpointPolicy = {
+  match: /.*/,
+  dedupe: true,
+  cooldownOn429Ms: 30 * SECOND,
+  retryOn429: true,
+};
+
+export const pathOf = (endpoint: string) => endpoint.split('?')[0];
+
+export const matchesPattern = (pattern: EndpointPattern, endpoint: string) => {
+  const path = pathOf(endpoint);
+  return typeof pattern === 'string' ? pattern === path : pattern.test(path);
+};
+
+export function resolvePolicy(req: Pick<TransportRequest, 'endpoint' | 'method'>): EndpointPolicy {
+  const rule = ENDPOINT_POLICIES.find(
+    (p) => (p.methods || ['GET']).includes(req.method) && matchesPattern(p.match, req.endpoint)
+  );
+  return { ...DEFAULT_POLICY, ...rule };
+}
@@ -0,0 +1,389 @@
+import { z } from 'zod';
+import type {
+  AppNotification,
+  ChatMessage,
+  EarningsSummaryStats,
+  EarningsTrendPoint,
+  Helper,
+  HistoryItem,
+  Location,
+  PeakHour,
+  RatingStats,
+  SatisfactionTrendPoint,
+  Service,
+  ServiceStatus,
+  ServiceTypeShare,
+  User,
+} from '@/types';
+
+// Runtime contract for everything the backend sends us. Each schema is pinned
+// to the matching interface in `@/types` so the two cannot drift apart at
+// compile time, and ApiClient validates every payload against them so backend
+// drift shows up as a SCHEMA_MISMATCH response instead of `undefined` in the UI.
+//
+// Schemas are deliberately lenient about *shape noise*: nulls are treated as
+// missing, numeric strings (Prisma decimals) are coerced, and unknown keys are
+// kept. They are strict about the fields the UI actually relies on.
+
+type Contract<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// `null` from the backend means "not set" everywhere in the UI.
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform((v): z.output<T> | undefined => v ?? undefined);
+
+const numeric = z.preprocess(
+  (v) => (typeof v === 'string' && v.trim() !== '' ? Number(v) : v),
+  z.number()
+);
+
+const stringList = z
+  .union([z.string(), z.array(z.string())])
+  .transform((v) => (Array.isArray(v) ? v : [v]));
+
+export const LocationSchema: Contract<Location> = z
+  .object({
+    lat: numeric,
+    lng: numeric,
+    address: optional(z.string()),
+    landmark: optional(z.string()),
+  })
+  .passthrough();
+
+export const UserSchema: Contract<User> = z
+  .object({
+    id: z.string(),
+    name: optional(z.string()),
+    phone: optional(z.string()),
+    email: optional(z.string()),
+    avatar: optional(z.string()),
+    isAvailable: optional(z.boolean()),
+    isVerified: optional(z.boolean()),
+    rating: optional(numeric),
+    completedServices: optional(numeric),
+    userType: optional(z.string()),
+  })
+  .passthrough();
+
+// GET /auth/me returns either the user or `{ user }` depending on backend version.
+export const MeSchema: Contract<User> = z
+  .union([z.object({ user: UserSchema }).passthrough(), UserSchema])
+  .transform((v) => ('user' in v && v.user && typeof v.user === 'object' ? (v.user as User) : (v as User)));
+
+export const AuthTokensSchema: Contract<{ accessToken: string; refreshToken?: string }> = z
+  .object({
+    accessToken: z.string(),
+    refreshToken: optional(z.string()),
+  })
+  .passthrough();
+
+export const HelperSchema: Contract<Helper> = z
+  .object({
+    id: z.string(),
+    userId: z.string(),
+    isAvailable: z.boolean(),
+    pausedUntil: z.string().nullish(),
+    isVerified: optional(z.boolean()),
+    rating: optional(numeric),
+    avgRating: optional(numeric),
+    totalRatings: optional(numeric),
+    completedServices: optional(numeric),
+    totalEarnings: optional(numeric),
+    currentBalance: optional(numeric),
+    avatarUrl: z.string().nullish(),
+  })
+  .passthrough();
+
+export const HelperExistsSchema: Contract<{ exists: boolean; field?: 'phone' | 'aadhaar' | 'both' }> = z
+  .object({
+    exists: z.boolean(),
+    field: optional(z.enum(['phone', 'aadhaar', 'both'])),
+  })
+  .passthrough();
+
+const PatientUserSchema = z
+  .object({
+    name: z.string().nullish().transform((v) => v ?? ''),
+    phone: optional(z.string()),
+    avgRating: optional(numeric),
+    totalRatings: optional(numeric),
+  })
+  .passthrough();
+
+export const ServiceSchema: Contract<Service> = z
+  .object({
+    id: z.string(),
+    // Lifecycle normalisation (e.g. STARTED vs IN_PROGRESS, unknown statuses)
+    // is a UI concern (features/jobs/lifecycle); the contract only requires a
+    // status string.
+    status: z.string().transform((s) => s as ServiceStatus),
+    serviceType: stringList.nullish().transform((v) => v ?? []),
+    description: optional(z.string()),
+    patientId: optional(z.string()),
+    patientName: optional(z.string()),
+    patientPhone: optional(z.string()),
+    patientLocation: optional(LocationSchema),
+    patientUser: optional(PatientUserSchema),
+    patient: optional(PatientUserSchema),
+    hospitalId: optional(z.string()),
+    hospitalName: optional(z.string()),
+    hospitalLocation: optional(LocationSchema),
+    helperId: optional(z.string()),
+    helperName: optional(z.string()),
+    distance: optional(numeric),
+    estimatedPay: optional(numeric),
+    estimatedFare: optional(numeric),
+    urgency: optional(z.enum(['low', 'medium', 'high'])),
+    notes: optional(z.string()),
+    otp: optional(z.string()),
+    otpCode: optional(z.string()),
+    otpVerified: optional(z.boolean()),
+    fare: optional(numeric),
+    actualPay: optional(numeric),
+    billedMinutes: optional(numeric),
+    paymentStatus: optional(z.enum(['PENDING', 'COMPLETED', 'FAILED'])),
+    paymentMethod: optional(z.string()),
+    paidAt: optional(z.string()),
+    expiresInMs: optional(numeric),
+    createdAt: optional(z.string()),
+    updatedAt: optional(z.string()),
+    acceptedAt: optional(z.string()),
+    arrivedAt: optional(z.string()),
+    startedAt: optional(z.string()),
+    completedAt: optional(z.string()),
+    cancelledAt: optional(z.string()),
+  })
+  .passthrough();
+
+// GET /services/active answers `data: null` when there is no active job.
+export const ActiveServiceSchema: Contract<Service | null> = ServiceSchema.nullable();
+
+// GET /services/pending: offers still waiting for this helper's answer, each
+// with the time left to respond in `expiresInMs`.
+export const PendingRequestsSchema: Contract<Service[]> = z.array(ServiceSchema);
+
+export const HistoryItemSchema: Contract<HistoryItem> = z
+  .object({
+    id: z.string(),
+    patientUser: optional(z.object({ name: optional(z.string()) }).passthrough()),
+    patient: optional(z.object({ name: optional(z.string()) }).passthrough()),
+    serviceType: stringList,
+    fare: optional(numeric),
+    finalFare: optional(numeric),
+    patientRating: optional(numeric),
+    rating: optional(
+      z.union([
+        numeric,
+        z.object({ patientRating: optional(numeric), helperRating: optional(numeric) }).passthrough(),
+      ])
+    ),
+    createdAt: z.string(),
+    requestedAt: optional(z.string()),
+    status: z.string(),
+  })
+  .passthrough();
+
+// History is returned either as a bare array or wrapped in `{ services }`.
+// Paginated lists arrive as `{ items, nextCursor, total }`. Older backends
+// send a bare array (or `{ services }` for history) without a cursor; the
+// client then pages through them by offset (see ApiClient).
+export interface RawPage<T> {
+  items: T[];
+  nextCursor?: string;
+  total?: number;
+  // Came without paging metadata
+  legacy?: boolean;
+}
+
+const pageFields = { nextCursor: optional(z.string()), total: optional(numeric) };
+
+export const ServiceHistoryPageSchema: Contract<RawPage<HistoryItem>> = z
+  .union([
+    z.array(HistoryItemSchema),
+    z.object({ items: z.array(HistoryItemSchema), ...pageFields }),
+    z.object({ services: z.array(HistoryItemSchema), ...pageFields }),
+  ])
+  .transform((v) =>
+    Array.isArray(v)
+      ? { items: v, legacy: true }
+      : 'items' in v
+        ? v
+        : { items: v.services, nextCursor: v.nextCursor, total: v.total, legacy: v.nextCursor === undefined }
+  );
+
+export const NotificationSchema: Contract<AppNotification> = z
+  .object({
+    id: z.string(),
+    title: z.string(),
+    body: z.string(),
+    type: z.string(),
+    isRead: z.boolean(),
+    createdAt: z.string(),
+    data: optional(z.record(z.unknown())),
+  })
+  .passthrough();
+
+export const NotificationPageSchema: Contract<RawPage<AppNotification>> = z
+  .union([z.array(NotificationSchema), z.object({ items: z.array(NotificationSchema), ...pageFields })])
+  .transform((v) => (Array.isArray(v) ? { items: v, legacy: true } : v));
+
+export const UnreadCountSchema: Contract<{ count: number }> = z
+  .object({ count: numeric })
+  .passthrough();
+
+export interface NotificationPreferencesPayload {
+  emailEnabled?: boolean;
+  smsEnabled?: boolean;
+  pushEnabled?: boolean;
+  serviceUpdates?: boolean;
+  chatMessages?: boolean;
+  promotionalMessages?: boolean;
+}
+
+export const NotificationPreferencesSchema: Contract<NotificationPreferencesPayload> = z
+  .object({
+    emailEnabled: optional(z.boolean()),
+    smsEnabled: optional(z.boolean()),
+    pushEnabled: optional(z.boolean()),
+    serviceUpdates: optional(z.boolean()),
+    chatMessages: optional(z.boolean()),
+    promotionalMessages: optional(z.boolean()),
+  })
+  .passthrough();
+
+// VAPID key the browser needs to subscribe to this backend's pushes
+export const PushPublicKeySchema: Contract<{ publicKey: string }> = z
+  .object({ publicKey: z.string().min(1) })
+  .passthrough();
+
+export const ChatMessageSchema: Contract<ChatMessage> = z
+  .object({
+    id: z.string(),
+    serviceId: z.string(),
+    senderId: z.string(),
+    senderType: z.enum(['PATIENT', 'HELPER']),
+    messageType: z.enum(['TEXT', 'IMAGE', 'FILE', 'VOICE', 'TEMPLATE']),
+    message: optional(z.string()),
+    fileName: optional(z.string()),
+    fileUrl: optional(z.string()),
+    fileSize: optional(numeric),
+    mimeType: optional(z.string()),
+    isRead: z.boolean(),
+    createdAt: z.string(),
+  })
+  .passthrough();
+
+export const ChatMessageListSchema: Contract<ChatMessage[]> = z.array(ChatMessageSchema);
+
+export interface ChatTemplate {
+  id?: string;
+  text: string;
+  category?: string;
+}
+
+export const ChatTemplateListSchema: Contract<ChatTemplate[]> = z.array(
+  z.union([
+    z.string().transform((text) => ({ text })),
+    z
+      .object({ id: optional(z.string()), text: z.string(), category: optional(z.string()) })
+      .passthrough(),
+  ])
+);
+
+export const ChatUploadSchema: Contract<{ fileUrl: string }> = z
+  .object({ fileUrl: z.string() })
+  .passthrough();
+
+export const RatingSchema: Contract<{ rating?: number; comment?: string }> = z
+  .object({ rating: optional(numeric), comment: optional(z.string()) })
+  .passthrough();
+
+// Analytics
+
+export const EarningsSummarySchema: Contract<EarningsSummaryStats> = z
+  .object({
+    totalEarnings: numeric.nullish().transform((v) => v ?? 0),
+    totalServices: optional(numeric),
+  })
+  .passthrough();
+
+export const HoursOnlineSchema: Contract<{ hours: number }> = z
+  .object({ hours: numeric })
+  .passthrough();
+
+export const ServiceBreakdownSchema: Contract<{ count: number }[]> = z.array(
+  z.object({ count: numeric.nullish().transform((v) => v ?? 0) }).passthrough()
+);
+
+export const EarningsTrendsSchema: Contract<{ trends: EarningsTrendPoint[] }> = z
+  .object({
+    trends: z
+      .array(
+        z
+          .object({
+            period: z.union([z.string(), z.number()]).transform(String),
+            earnings: numeric.nullish().transform((v) => v ?? 0),
+            services: optional(numeric),
+          })
+          .passthrough()
+      )
+      .nullish()
+      .transform((v) => v ?? []),
+  })
+  .passthrough();
+
+export const PeakHoursSchema: Contract<{ hourlyBreakdown: PeakHour[] }> = z
+  .object({
+    hourlyBreakdown: z
+      .array(z.object({ hour: numeric, count: numeric }).passthrough())
+      .nullish()
+      .transform((v) => v ?? []),
+  })
+  .passthrough();
+
+export const ServiceTypeBreakdownSchema: Contract<{ breakdown: ServiceTypeShare[] }> = z
+  .object({
+    breakdown: z
+      .array(
+        z
+          .object({
+            name: optional(z.string()),
+            serviceType: optional(z.string()),
+            count: numeric,
+          })
+          .passthrough()
+          .transform((v) => ({ ...v, name: v.name ?? v.serviceType ?? 'Other' }))
+      )
+      .nullish()
+      .transform((v) => v ?? []),
+  })
+  .passthrough();
+
+export const SatisfactionTrendsSchema: Contract<{ trends: SatisfactionTrendPoint[] }> = z
+  .object({
+    trends: z
+      .array(
+        z
+          .object({
+            period: z.union([z.string(), z.number()]).transform(String),
+            averageRating: numeric.nullish().transform((v) => v ?? 0),
+            count: optional(numeric),
+          })
+          .passthrough()
+      )
+      .nullish()
+      .transform((v) => v ?? []),
+  })
+  .passthrough();
+
+export const RatingStatsSchema: Contract<RatingStats> = z
+  .object({
+    averageRating: numeric.nullish().transform((v) => v ?? 0),
+    totalRatings: numeric.nullish().transform((v) => v ?? 0),
+    distribution: optional(z.record(numeric)),
+  })
+  .passthrough();
+
+// For endpoints where the UI only cares whether the call succeeded.
+export const AckSchema: Contract<unknown> = z.unknown();
+
+export type { Contract };
@@ -0,0 +1,78 @@
+import { env } from '@/core/config/env';
+import { tokenManager } from '@/core/auth/tokenManager';
+import { sendToNetwork } from './transport';
+import { createLogger } from '@/core/logging/logger';
+
+const log = createLogger('auth');
+
+// Session refresh lives here and only here. Both the HTTP pipeline (on 401)
+// and AuthProvider (on boot) go through `refreshSession`; new tokens go to
+// the token manager, which hands them on to the sockets.
+
+let refreshPromise: Promise<string | null> | null = null;
+
+// Everything waiting on a 401 waits on the refresh, so it must not hang;
+// a timed-out refresh counts as a failed one
+const REFRESH_TIMEOUT_MS = 15_000;
+
+async function postRefresh(refreshToken?: string) {
+  const res = await sendToNetwork({
+    endpoint: '/auth/refresh',
+    url: `${env.apiUrl}/auth/refresh`,
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: refreshToken ? JSON.stringify({ refreshToken }) : null,
+    responseType: 'json',
+    attempt: 0,
+    meta: {},
+    signal: AbortSignal.timeout(REFRESH_TIMEOUT_MS),
+  });
+  const data = (res.body as { data?: { accessToken?: unknown; refreshToken?: unknown } } | null)?.data;
+  const accessToken = typeof data?.accessToken === 'string' ? data.accessToken : null;
+  const nextRefresh = typeof data?.refreshToken === 'string' ? data.refreshToken : undefined;
+  return { status: res.status, accessToken, refreshToken: nextRefresh };
+}
+
+async function doRefresh(redirectOnFailure: boolean): Promise<string | null> {
+  let lastStatus = 0;
+  try {
+    // Prefer a refresh token from this page's login; fall back to the httpOnly cookie flow.
+    const stored = tokenManager.getRefreshToken() || undefined;
+    let result = stored ? await postRefresh(stored) : null;
+    if (!result?.accessToken) result = await postRefresh();
+    lastStatus = result.status;
+
+    if (result.accessToken) {
+      if (!tokenManager.isHelperToken(result.accessToken)) {
+        log.warn('Refreshed token is not a HELPER token');
+        tokenManager.clear();
+        return null;
+      }
+      tokenManager.setTokens(result.accessToken, result.refreshToken);
+      return result.accessToken;
+    }
+    log.warn('Token refresh failed', { status: result.status });
+  } catch (err) {
+    log.error('Token refresh error', err);
+    return null;
+  }
+
+  if (redirectOnFailure) {
+    // On refresh failure, clear tokens and redirect to auth
+    tokenManager.clear();
+    if (window.location.pathname !== '/auth') window.location.href = '/auth';
+  } else if (lastStatus === 401) {
+    tokenManager.clear();
+  }
+  return null;
+}
+
+// Single-flight: concurrent callers share one refresh request.
+export function refreshSession(options: { redirectOnFailure?: boolean } = {}): Promise<string | null> {
+  if (!refreshPromise) {
+    refreshPromise = doRefresh(!!options.redirectOnFailure).finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
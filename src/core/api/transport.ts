@@ -0,0 +1,137 @@
+// Single HTTP transport for the whole app. A request travels through an
+// ordered list of middleware (auth header, refresh, retry, cooldowns, ...)
+// before reaching `fetch`, and the response travels back out through the
+// same list. ApiClient is the only consumer; features never call fetch
+// directly.
+
+export interface TransportRequest {
+  // Normalised endpoint relative to the API base, e.g. '/services/active'
+  endpoint: string;
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: BodyInit | null;
+  responseType: 'json' | 'blob';
+  // How many times this request has been (re)sent through the inner pipeline
+  attempt: number;
+  // Scratch space for middleware to pass hints to each other
+  meta: Record<string, unknown>;
+  // Caller's cancellation signal; middleware may narrow it (e.g. timeouts)
+  signal?: AbortSignal;
+  // Per-attempt timeout requested by the caller (overrides the endpoint policy)
+  timeoutMs?: number;
+  // Whether a failed attempt may be sent again (overrides the endpoint policy)
+  retry?: boolean;
+}
+
+export interface TransportResponse {
+  status: number;
+  ok: boolean;
+  headers: Headers;
+  // Parsed JSON (or a Blob for responseType 'blob'); null when there is no body
+  body: unknown;
+  // Raw text when the body was not JSON, to help debugging
+  text?: string | null;
+}
+
+export type Next = (req: TransportRequest) => Promise<TransportResponse>;
+export type Middleware = (req: TransportRequest, next: Next) => Promise<TransportResponse>;
+
+export interface SendOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: BodyInit | null;
+  responseType?: 'json' | 'blob';
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retry?: boolean;
+}
+
+// Errors raised when a request is cancelled by the caller or times out.
+// Both are DOMExceptions so they behave like fetch's own AbortError.
+export const abortError = () => new DOMException('Request aborted', 'AbortError');
+export const timeoutError = () => new DOMException('Request timed out', 'TimeoutError');
+
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+export const isTimeoutError = (e: unknown) => e instanceof DOMException && e.name === 'TimeoutError';
+
+// Terminal handler: the only place in the app that talks to `fetch`.
+export const fetchHandler: Next = async (req) => {
+  const response = await fetch(req.url, {
+    method: req.method,
+    headers: req.headers,
+    body: req.body,
+    credentials: 'include',
+    signal: req.signal,
+  });
+
+  if (req.responseType === 'blob' && response.ok) {
+    return { status: response.status, ok: true, headers: response.headers, body: await response.blob() };
+  }
+
+  const text = await response.text().catch(() => null);
+  let body: unknown = null;
+  if (text) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Not JSON; keep the text for error reporting
+    }
+  }
+  return { status: response.status, ok: response.ok, headers: response.headers, body, text };
+};
+
+// The network as seen by every transport and by the session refresh. The mock
+// backend (core/mock) swaps it for an in-memory server; see `setNetworkHandler`.
+let networkHandler: Next = fetchHandler;
+
+export const sendToNetwork: Next = (req) => networkHandler(req);
+
+export function setNetworkHandler(handler: Next) {
+  networkHandler = handler;
+}
+
+export class Transport {
+  private baseUrl: string;
+  private middleware: Middleware[] = [];
+  private handler: Next;
+
+  constructor(baseUrl: string, handler: Next = sendToNetwork) {
+    // Normalize baseUrl to avoid trailing slashes causing malformed joins later
+    this.baseUrl = String(baseUrl || '').replace(/\/+$/, '');
+    this.handler = handler;
+  }
+
+  // Middleware run in registration order on the way in (first registered is outermost).
+  use(...middleware: Middleware[]) {
+    this.middleware.push(...middleware);
+    return this;
+  }
+
+  send(endpoint: string, options: SendOptions = {}): Promise<TransportResponse> {
+    let ep = String(endpoint ?? '').trim();
+    if (!ep.startsWith('/')) ep = '/' + ep;
+
+    const req: TransportRequest = {
+      endpoint: ep,
+      url: `${this.baseUrl}${ep}`,
+      method: (options.method || 'GET').toUpperCase(),
+      headers: { ...(options.headers || {}) },
+      body: options.body ?? null,
+      responseType: options.responseType || 'json',
+      attempt: 0,
+      meta: {},
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+      retry: options.retry,
+    };
+
+    const dispatch = (index: number): Next => (r) => {
+      const mw = this.middleware[index];
+      if (!mw) return this.handler(r);
+      return mw(r, dispatch(index + 1));
+    };
+
+    return dispatch(0)(req);
+  }
+}
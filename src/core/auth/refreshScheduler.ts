@@ -0,0 +1,132 @@
+import { refreshSession } from '@/core/api/session';
+import { createLogger } from '@/core/logging/logger';
+import { tokenManager } from './tokenManager';
+
+const log = createLogger('auth');
+
+// Proactive token refresh. Instead of waiting for a 401, the access token is
+// renewed shortly before its `exp`, so a helper who stays online through a
+// long shift keeps a valid token on both sockets (the realtime manager
+// pushes every new token to them with `auth:update`).
+//
+// Timers are paused while the tab is hidden, where browsers throttle them
+// anyway; on resume a token that is due, or already expired, is refreshed
+// straight away.
+//
+// Every tab keeps a timer, but refreshing rotates the shared refresh cookie,
+// so only one tab may do it: refreshes run under a Web Lock, and a tab that
+// finds the token already replaced once it gets the lock leaves it at that.
+// The new token reaches it through the tokenManager subscription.
+
+// Refresh this long before expiry, capped at a fifth of the token's lifetime
+const LEAD_MS = 60_000;
+const MIN_LEAD_MS = 5_000;
+// After a failed refresh that kept the session (e.g. offline)
+const RETRY_MS = 30_000;
+const LOCK_NAME = 'helpbuddy-token-refresh';
+
+// Without Web Locks every tab refreshes for itself, as before
+function withRefreshLock(task: () => Promise<void>) {
+  if (typeof navigator === 'undefined' || !navigator.locks) return task();
+  return navigator.locks.request(LOCK_NAME, task);
+}
+
+function refreshDelay(token: string) {
+  const claims = tokenManager.decode(token);
+  if (typeof claims?.exp !== 'number') return null;
+  const expiresAt = claims.exp * 1000;
+  const lifetime = typeof claims.iat === 'number' ? expiresAt - claims.iat * 1000 : Infinity;
+  const lead = Math.max(MIN_LEAD_MS, Math.min(LEAD_MS, lifetime / 5));
+  return expiresAt - lead - Date.now();
+}
+
+class RefreshScheduler {
+  private timer: number | null = null;
+  private refreshing = false;
+  private started = false;
+  private unsubscribe: (() => void) | null = null;
+
+  start() {
+    if (this.started) return;
+    this.started = true;
+    // Every new token (login, refresh, rotation, another tab) reschedules
+    this.unsubscribe = tokenManager.subscribe(() => this.schedule());
+    document.addEventListener('visibilitychange', this.handleVisibility);
+    window.addEventListener('online', this.handleOnline);
+    this.schedule();
+  }
+
+  stop() {
+    if (!this.started) return;
+    this.started = false;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    document.removeEventListener('visibilitychange', this.handleVisibility);
+    window.removeEventListener('online', this.handleOnline);
+    this.clearTimer();
+  }
+
+  private schedule(delayOverride?: number) {
+    this.clearTimer();
+    if (!this.started || document.visibilityState === 'hidden') return;
+
+    const token = tokenManager.getAccessToken();
+    if (!token) return;
+    const delay = delayOverride ?? refreshDelay(token);
+    // No `exp` claim: nothing to schedule, the 401 path still covers it
+    if (delay === null) return;
+
+    if (delay <= 0) {
+      void this.refresh();
+      return;
+    }
+    log.debug('Token refresh scheduled', { inSeconds: Math.round(delay / 1000) });
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      void this.refresh();
+    }, delay);
+  }
+
+  private async refresh() {
+    if (this.refreshing) return;
+    this.refreshing = true;
+    const due = tokenManager.getAccessToken();
+    try {
+      await withRefreshLock(async () => {
+        if (tokenManager.getAccessToken() !== due) {
+          log.debug('Token already refreshed by another tab');
+          this.schedule();
+          return;
+        }
+        log.debug('Refreshing token ahead of expiry');
+        const token = await refreshSession();
+        // Success reschedules through the subscription. A rejected refresh
+        // clears the session; anything else (network) keeps it, so try again.
+        if (!token && tokenManager.getAccessToken()) {
+          log.warn('Scheduled token refresh failed; retrying', { inSeconds: RETRY_MS / 1000 });
+          this.schedule(RETRY_MS);
+        }
+      });
+    } catch (error) {
+      log.warn('Scheduled token refresh failed', error);
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  private clearTimer() {
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private handleVisibility = () => {
+    if (document.visibilityState === 'hidden') this.clearTimer();
+    else this.schedule();
+  };
+
+  private handleOnline = () => this.schedule();
+}
+
+export const refreshScheduler = new RefreshScheduler();
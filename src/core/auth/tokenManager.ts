@@ -0,0 +1,160 @@
+import { createLogger } from '@/core/logging/logger';
+
+const log = createLogger('auth');
+
+// The one place that knows where tokens live and what is inside them. The
+// HTTP pipeline, both sockets and the auth screens read, store and clear
+// tokens through `tokenManager` and never touch storage or decode JWTs
+// themselves.
+//
+// The access token is kept in localStorage so a reload (and other tabs) can
+// pick it up. The refresh token is not: the backend also sets it as an
+// httpOnly cookie, so when it comes back in a response body it is only held
+// in memory for this page's lifetime, and after a reload the cookie flow
+// takes over (see core/api/session).
+
+export interface TokenClaims {
+  sub?: string;
+  userId?: string;
+  userType?: string;
+  exp?: number;
+  iat?: number;
+}
+
+// `null` means the session was cleared
+type Listener = (accessToken: string | null) => void;
+
+const ACCESS_TOKEN_KEY = 'accessToken';
+// Set on explicit logout so boot does not silently revive the session
+// through the refresh cookie.
+const REFRESH_BLOCK_KEY = 'logoutBlock';
+// Keys older builds wrote; cleared on start-up and on logout
+const LEGACY_KEYS = ['refreshToken', 'token', 'hasRefreshCookie'];
+
+function decodeSegment(segment: string): unknown {
+  // JWTs use unpadded base64url, which atob does not accept as-is
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  return JSON.parse(new TextDecoder().decode(bytes));
+}
+
+const storage = {
+  get(key: string) {
+    try {
+      return localStorage.getItem(key);
+    } catch {
+      return null;
+    }
+  },
+  set(key: string, value: string) {
+    try {
+      localStorage.setItem(key, value);
+    } catch (error) {
+      log.warn('Could not persist token state', error);
+    }
+  },
+  remove(key: string) {
+    try {
+      localStorage.removeItem(key);
+    } catch {
+      // Storage unavailable (private mode); nothing to remove
+    }
+  },
+};
+
+class TokenManager {
+  private refreshToken: string | null = null;
+  private listeners = new Set<Listener>();
+
+  constructor() {
+    LEGACY_KEYS.forEach((key) => storage.remove(key));
+
+    // Another tab signed in, refreshed or signed out
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', (e) => {
+        if (e.key === ACCESS_TOKEN_KEY || e.key === null) this.notify();
+      });
+    }
+  }
+
+  getAccessToken(): string | null {
+    return storage.get(ACCESS_TOKEN_KEY);
+  }
+
+  getRefreshToken(): string | null {
+    return this.refreshToken;
+  }
+
+  // Store a new pair (login, refresh or gateway rotation) and tell the
+  // subscribers. Without a refresh token in the body the cookie is used.
+  setTokens(accessToken: string, refreshToken?: string) {
+    storage.set(ACCESS_TOKEN_KEY, accessToken);
+    if (refreshToken) this.refreshToken = refreshToken;
+    storage.remove(REFRESH_BLOCK_KEY);
+    this.notify();
+  }
+
+  // Drop the session. `blockRefresh` is for explicit logout: until the next
+  // login, boot will not try the refresh cookie.
+  clear(options: { blockRefresh?: boolean } = {}) {
+    const hadToken = !!this.getAccessToken() || !!this.refreshToken;
+    storage.remove(ACCESS_TOKEN_KEY);
+    LEGACY_KEYS.forEach((key) => storage.remove(key));
+    this.refreshToken = null;
+    if (options.blockRefresh) storage.set(REFRESH_BLOCK_KEY, '1');
+    else storage.remove(REFRESH_BLOCK_KEY);
+    if (hadToken) this.notify();
+  }
+
+  isRefreshBlocked() {
+    return storage.get(REFRESH_BLOCK_KEY) === '1';
+  }
+
+  // Payload of a JWT, or null if it is not one. Defaults to the stored token.
+  decode(token: string | null = this.getAccessToken()): TokenClaims | null {
+    if (!token) return null;
+    const payload = token.split('.')[1];
+    if (!payload) return null;
+    try {
+      const claims = decodeSegment(payload);
+      return claims && typeof claims === 'object' ? (claims as TokenClaims) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Tokens without an `exp` claim are left for the server to judge.
+  isExpired(token: string | null = this.getAccessToken(), skewMs = 0) {
+    const exp = this.decode(token)?.exp;
+    if (typeof exp !== 'number') return !token;
+    return exp * 1000 - skewMs <= Date.now();
+  }
+
+  // This app is for helpers only; a patient token is as good as none.
+  isHelperToken(token: string | null = this.getAccessToken()) {
+    return this.decode(token)?.userType === 'HELPER';
+  }
+
+  userId(token: string | null = this.getAccessToken()): string | null {
+    const claims = this.decode(token);
+    return claims?.userId || claims?.sub || null;
+  }
+
+  // Called with the new access token whenever it changes, here or in another
+  // tab, and with null when the session is cleared.
+  subscribe(listener: Listener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    const token = this.getAccessToken();
+    this.listeners.forEach((l) => l(token));
+  }
+}
+
+export const tokenManager = new TokenManager();
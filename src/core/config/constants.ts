@@ -1,28 +1,42 @@
-export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
-export const WS_URL = import.meta.env.VITE_WS_URL || 'http://localhost:3000/realtime';
+import type { DeclineReason } from '@/types';
+import { env } from './env';
+
+// Single API base shared by the transport and anything else that needs it.
+export const API_BASE_URL = env.apiUrl;
 
 export const ROUTES = {
   AUTH: '/auth',
   DASHBOARD: '/dashboard',
   ACTIVE_SERVICE: '/job/:serviceId',
   HISTORY: '/history',
+  MISSED_REQUESTS: '/history/missed',
   PROFILE: '/profile',
+  SETTINGS: '/settings',
 } as const;
 
+// The kinds of help a patient can ask for
+export const SERVICE_TYPES = [
+  'Wheelchair assistance',
+  'Registration help',
+  'Pharmacy pickup',
+  'Lab test accompaniment',
+  'Discharge support',
+] as const;
+
+// What the helper can pick when turning an offer down
+export const DECLINE_REASONS: Record<DeclineReason, string> = {
+  too_far: 'Too far',
+  busy: 'Busy',
+  wrong_service: 'Wrong service type',
+  unsafe_area: 'Unsafe area',
+};
+
 export const SERVICE_STATUS = {
   PENDING: 'PENDING',
   ACCEPTED: 'ACCEPTED',
   ARRIVED: 'ARRIVED',
+  STARTED: 'STARTED',
   IN_PROGRESS: 'IN_PROGRESS',
   COMPLETED: 'COMPLETED',
   CANCELLED: 'CANCELLED',
 } as const;
-
-export const SOCKET_EVENTS = {
-  CONNECT: 'connect',
-  DISCONNECT: 'disconnect',
-  SERVICE_REQUEST_CREATED: 'service:request:created',
-  SERVICE_REQUEST_UPDATED: 'service:request:updated',
-  HELPER_LOCATION_UPDATE: 'helper:location:update',
-  PATIENT_LOCATION_UPDATE: 'patient:location:update',
-} as const;
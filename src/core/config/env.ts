@@ -1,6 +1,27 @@
+// Use a relative '/api' base during development so the Vite proxy forwards
+// requests to the backend and cookies are handled as same-origin. In
+// production, allow an explicit VITE_API_URL to override the base.
+const apiUrl: string = import.meta.env.DEV
+  ? '/api'
+  : (import.meta.env.VITE_API_URL || 'https://helpbuddyback.onrender.com/api');
+
+// Socket.io server hosting the /realtime and /chat namespaces. VITE_WS_URL
+// overrides it (a trailing namespace is ignored); otherwise it is the API URL
+// without its `/api` suffix.
+const socketUrl: string = (
+  import.meta.env.VITE_WS_URL ||
+  import.meta.env.VITE_API_URL ||
+  'https://helpbuddyback.onrender.com/api'
+)
+  .replace(/\/+$/, '')
+  .replace(/\/(api|realtime|chat)$/i, '');
+
 export const env = {
-  apiUrl: import.meta.env.VITE_API_URL || 'http://localhost:3000/api',
-  wsUrl: import.meta.env.VITE_WS_URL || 'http://localhost:3000/realtime',
+  apiUrl,
+  socketUrl,
+  // VITE_MOCK_API=true serves the API and sockets from an in-browser mock
+  // backend (core/mock) so the app runs without a server.
+  mockApi: import.meta.env.VITE_MOCK_API === 'true',
   isDev: import.meta.env.DEV,
   isProd: import.meta.env.PROD,
 } as const;
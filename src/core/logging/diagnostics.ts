@@ -0,0 +1,68 @@
+import { env } from '@/core/config/env';
+import { tokenManager } from '@/core/auth/tokenManager';
+import { connectionQuality } from '@/core/socket/quality';
+import { logger, redact } from './logger';
+
+// "Send diagnostics" bundle for field support: the recent log, socket
+// connection history and quality, and enough about the app and device to
+// reproduce a report such as "requests not arriving". Everything in it has
+// already been through the logger's redaction.
+
+declare const __APP_VERSION__: string;
+
+export function buildDiagnostics() {
+  return {
+    generatedAt: new Date().toISOString(),
+    app: {
+      version: __APP_VERSION__,
+      mode: import.meta.env.MODE,
+      apiUrl: env.apiUrl,
+      mockApi: env.mockApi,
+    },
+    device: {
+      userAgent: navigator.userAgent,
+      language: navigator.language,
+      online: navigator.onLine,
+      viewport: `${window.innerWidth}x${window.innerHeight}`,
+      path: window.location.pathname,
+    },
+    session: redact({
+      userId: tokenManager.userId(),
+      hasAccessToken: !!tokenManager.getAccessToken(),
+      accessTokenExpired: tokenManager.isExpired(),
+      activeServiceId: localStorage.getItem('activeServiceId'),
+    }),
+    connectionQuality: connectionQuality.report(),
+    connections: logger.connectionHistory(),
+    logs: logger.recent(),
+  };
+}
+
+// Hand the bundle to the share sheet where the browser can share files
+// (most phones), otherwise save it as a JSON download.
+export async function sendDiagnostics() {
+  const bundle = buildDiagnostics();
+  const name = `helpbuddy-diagnostics-${bundle.generatedAt.replace(/[:.]/g, '-')}.json`;
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+
+  const file = typeof File !== 'undefined' ? new File([blob], name, { type: 'application/json' }) : null;
+  if (file && navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title: 'HelpBuddy diagnostics' });
+      return 'shared' as const;
+    } catch (error) {
+      // Closing the share sheet is not a failure; anything else falls back to a download
+      if (error instanceof DOMException && error.name === 'AbortError') return 'cancelled' as const;
+    }
+  }
+
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+  return 'downloaded' as const;
+}
@@ -0,0 +1,138 @@
+// Structured client logger. Every entry has a level and a namespace, is
+// redacted (tokens, phone and Aadhaar numbers) and kept in an in-memory ring
+// buffer that the diagnostics export (./diagnostics) attaches to support
+// reports. The console only shows debug output in development.
+//
+//   const log = createLogger('ws');
+//   log.debug('Joined user room', { userId });
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogNamespace = 'api' | 'ws' | 'chat' | 'location' | 'auth' | 'offline' | 'app';
+
+export interface LogEntry {
+  ts: string;
+  level: LogLevel;
+  ns: LogNamespace;
+  message: string;
+  data?: unknown;
+}
+
+// Socket lifecycle events, kept apart from the log so a noisy session does
+// not push them out of the buffer.
+export interface ConnectionEvent {
+  ts: string;
+  channel: 'realtime' | 'chat';
+  event: string;
+  detail?: unknown;
+}
+
+const BUFFER_SIZE = 500;
+const CONNECTION_HISTORY_SIZE = 100;
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+// Redaction
+
+const SECRET_KEY = /token|authorization|password|secret|cookie|otp(?!verified)/i;
+const PHONE_KEY = /phone|mobile/i;
+const AADHAAR_KEY = /aadhaar/i;
+
+const maskDigits = (value: string) => {
+  const digits = value.replace(/\D/g, '');
+  return digits.length > 2 ? `${'*'.repeat(digits.length - 2)}${digits.slice(-2)}` : '**';
+};
+
+export function redactString(value: string) {
+  return value
+    .replace(/Bearer\s+[\w.~+/-]+=*/gi, 'Bearer [redacted]')
+    .replace(/\beyJ[\w-]*\.[\w-]+\.[\w-]*/g, '[token]')
+    .replace(/\b\d{4}[\s-]?\d{4}[\s-]?\d{4}\b/g, '[aadhaar]')
+    .replace(/(?:\+?91[\s-]?)?\b[6-9]\d{9}\b/g, maskDigits);
+}
+
+const MAX_DEPTH = 4;
+const MAX_ITEMS = 20;
+const MAX_STRING = 2000;
+
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    const clipped = value.length > MAX_STRING ? `${value.slice(0, MAX_STRING)}…` : value;
+    return redactString(clipped);
+  }
+  if (value === null || typeof value !== 'object') return value;
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message) };
+  }
+  if (depth >= MAX_DEPTH) return '[…]';
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ITEMS).map((v) => redact(v, depth + 1));
+    return value.length > MAX_ITEMS ? [...items, `… ${value.length - MAX_ITEMS} more`] : items;
+  }
+  if (typeof Blob !== 'undefined' && value instanceof Blob) return `[Blob ${value.size} bytes]`;
+
+  const out: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value as Record<string, unknown>)) {
+    if ((typeof v === 'string' || typeof v === 'number') && String(v) !== '') {
+      if (SECRET_KEY.test(key)) {
+        out[key] = '[redacted]';
+        continue;
+      }
+      if (AADHAAR_KEY.test(key)) {
+        out[key] = '[aadhaar]';
+        continue;
+      }
+      if (PHONE_KEY.test(key)) {
+        out[key] = maskDigits(String(v));
+        continue;
+      }
+    }
+    out[key] = redact(v, depth + 1);
+  }
+  return out;
+}
+
+class Logger {
+  private entries: LogEntry[] = [];
+  private connections: ConnectionEvent[] = [];
+  private consoleLevel: LogLevel = import.meta.env.DEV ? 'debug' : 'warn';
+
+  log(ns: LogNamespace, level: LogLevel, message: string, data?: unknown) {
+    const entry: LogEntry = { ts: new Date().toISOString(), level, ns, message: redactString(message) };
+    if (data !== undefined) entry.data = redact(data);
+    this.entries.push(entry);
+    if (this.entries.length > BUFFER_SIZE) this.entries.shift();
+
+    if (LEVEL_ORDER[level] >= LEVEL_ORDER[this.consoleLevel]) {
+      const args: unknown[] = [`[${ns}] ${entry.message}`];
+      if (entry.data !== undefined) args.push(entry.data);
+      console[level](...args);
+    }
+  }
+
+  connection(channel: ConnectionEvent['channel'], event: string, detail?: unknown) {
+    const entry: ConnectionEvent = { ts: new Date().toISOString(), channel, event };
+    if (detail !== undefined) entry.detail = redact(detail);
+    this.connections.push(entry);
+    if (this.connections.length > CONNECTION_HISTORY_SIZE) this.connections.shift();
+    this.log(channel === 'chat' ? 'chat' : 'ws', event === 'connect_error' ? 'warn' : 'info', `connection ${event}`, detail);
+  }
+
+  recent(): LogEntry[] {
+    return [...this.entries];
+  }
+
+  connectionHistory(): ConnectionEvent[] {
+    return [...this.connections];
+  }
+}
+
+export const logger = new Logger();
+
+export type NamespacedLogger = Record<LogLevel, (message: string, data?: unknown) => void>;
+
+export const createLogger = (ns: LogNamespace): NamespacedLogger => ({
+  debug: (message, data) => logger.log(ns, 'debug', message, data),
+  info: (message, data) => logger.log(ns, 'info', message, data),
+  warn: (message, data) => logger.log(ns, 'warn', message, data),
+  error: (message, data) => logger.log(ns, 'error', message, data),
+});
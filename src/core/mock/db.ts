@@ -0,0 +1,205 @@
+import type { AppNotification, ChatMessage, Helper, Location, Service, User } from '@/types';
+import type { NotificationPreferencesPayload } from '@/core/api/schemas';
+import { SERVICE_TYPES } from '@/core/config/constants';
+
+// State behind the mock backend. It is seeded with a registered helper and a
+// few weeks of job history, and saved to localStorage after every change so
+// a reload picks up where the demo left off. `mockDb.reset()` (also exposed
+// as `window.__mockBackend.reset()`) goes back to the seed.
+
+const STORAGE_KEY = 'helpbuddy-mock-db';
+// Bump when the shape changes; older saved state is discarded.
+const VERSION = 1;
+
+export const DEMO_PHONE = '9876543210';
+// Every login OTP is accepted as long as it is this code.
+export const DEMO_LOGIN_OTP = '123456';
+
+export interface MockAccount {
+  user: User;
+  helper: Helper | null;
+  aadhaar?: string;
+}
+
+export interface MockSession {
+  userId: string;
+  refreshToken: string;
+}
+
+export interface MockState {
+  version: number;
+  accounts: MockAccount[];
+  // Stands in for the backend's httpOnly refresh cookie
+  session: MockSession | null;
+  services: Service[];
+  messages: ChatMessage[];
+  notifications: Record<string, AppNotification[]>;
+  preferences: Record<string, NotificationPreferencesPayload>;
+  hoursOnline: Record<string, number>;
+  // Web Push subscriptions per user; missing from state saved before push
+  pushSubscriptions?: Record<string, PushSubscriptionJSON[]>;
+}
+
+export const id = (prefix: string) => `${prefix}_${Math.random().toString(36).slice(2, 10)}`;
+
+export const HOSPITALS: { name: string; location: Location }[] = [
+  { name: 'City General Hospital', location: { lat: 12.9716, lng: 77.5946, address: 'MG Road, Bengaluru' } },
+  { name: 'St. Martha\'s Hospital', location: { lat: 12.9667, lng: 77.5869, address: 'Nrupathunga Road, Bengaluru' } },
+  { name: 'Manipal Hospital', location: { lat: 12.9592, lng: 77.6484, address: 'HAL Airport Road, Bengaluru' } },
+];
+
+export const PATIENTS = [
+  { name: 'Asha Rao', phone: '9000000001' },
+  { name: 'Vikram Shetty', phone: '9000000002' },
+  { name: 'Meera Iyer', phone: '9000000003' },
+  { name: 'Rahul Menon', phone: '9000000004' },
+];
+
+const [WHEELCHAIR, REGISTRATION, PHARMACY, LAB, DISCHARGE] = SERVICE_TYPES;
+
+// What patients ask for: usually one service, sometimes two together
+export const SERVICE_MIXES: string[][] = [[WHEELCHAIR], [REGISTRATION, PHARMACY], [LAB], [DISCHARGE]];
+
+export const pick = <T>(items: T[]) => items[Math.floor(Math.random() * items.length)];
+
+// Same formula as the backend: half-minute billing units at 2.5 each, plus a base fare
+export const fareFor = (billedMinutes: number) => 15 + billedMinutes * 2.5;
+
+function seedHistory(helperId: string): Service[] {
+  const now = Date.now();
+  return Array.from({ length: 18 }, (_, i) => {
+    const patient = PATIENTS[i % PATIENTS.length];
+    const hospital = HOSPITALS[i % HOSPITALS.length];
+    const createdAt = now - (i + 1) * 26 * 60 * 60 * 1000 - (i % 5) * 37 * 60 * 1000;
+    const cancelled = i % 7 === 6;
+    const billedMinutes = 40 + ((i * 17) % 90);
+    return {
+      id: id('svc'),
+      status: cancelled ? 'CANCELLED' : 'COMPLETED',
+      serviceType: SERVICE_MIXES[i % SERVICE_MIXES.length],
+      patientId: `patient_${i % PATIENTS.length}`,
+      patientUser: { name: patient.name, phone: patient.phone, avgRating: 4.6, totalRatings: 12 },
+      hospitalName: hospital.name,
+      hospitalLocation: hospital.location,
+      patientLocation: hospital.location,
+      helperId,
+      createdAt: new Date(createdAt).toISOString(),
+      acceptedAt: new Date(createdAt + 60_000).toISOString(),
+      ...(cancelled
+        ? { cancelledAt: new Date(createdAt + 10 * 60_000).toISOString() }
+        : {
+            startedAt: new Date(createdAt + 15 * 60_000).toISOString(),
+            completedAt: new Date(createdAt + (15 + billedMinutes / 2) * 60_000).toISOString(),
+            billedMinutes,
+            fare: fareFor(billedMinutes),
+            otpVerified: true,
+            paymentStatus: 'COMPLETED' as const,
+            paymentMethod: i % 2 ? 'UPI' : 'Cash',
+            patientRating: 3 + (i % 3),
+          }),
+    };
+  });
+}
+
+function seed(): MockState {
+  const userId = 'user_demo_helper';
+  const helperId = 'helper_demo';
+  return {
+    version: VERSION,
+    accounts: [
+      {
+        user: { id: userId, name: 'Priya Sharma', phone: DEMO_PHONE, userType: 'HELPER', isVerified: true },
+        helper: {
+          id: helperId,
+          userId,
+          isAvailable: false,
+          isVerified: true,
+          avgRating: 4.7,
+          totalRatings: 15,
+          completedServices: 15,
+          avatarUrl: null,
+        },
+        aadhaar: '123412341234',
+      },
+    ],
+    session: null,
+    services: seedHistory(helperId),
+    messages: [],
+    notifications: {
+      [userId]: [
+        {
+          id: id('ntf'),
+          title: 'Welcome to HelpBuddy',
+          body: 'You are running against the demo backend. Go online to receive requests.',
+          type: 'SYSTEM',
+          isRead: false,
+          createdAt: new Date().toISOString(),
+        },
+      ],
+    },
+    preferences: {},
+    pushSubscriptions: {},
+    hoursOnline: { [helperId]: 42.5 },
+  };
+}
+
+function load(): MockState {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as MockState;
+      if (parsed?.version === VERSION) return parsed;
+    }
+  } catch {
+    // Corrupt state; fall back to the seed
+  }
+  return seed();
+}
+
+class MockDb {
+  state: MockState = load();
+
+  save() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.state));
+    } catch {
+      // Storage full or disabled; the demo keeps working in memory
+    }
+  }
+
+  reset() {
+    this.state = seed();
+    this.save();
+  }
+
+  accountByUserId(userId: string) {
+    return this.state.accounts.find((a) => a.user.id === userId);
+  }
+
+  accountByPhone(phone: string) {
+    return this.state.accounts.find((a) => a.user.phone === phone);
+  }
+
+  service(serviceId: string) {
+    return this.state.services.find((s) => s.id === serviceId);
+  }
+
+  // Merge a change into a stored service and return the updated copy.
+  updateService(serviceId: string, patch: Partial<Service>) {
+    const index = this.state.services.findIndex((s) => s.id === serviceId);
+    if (index < 0) return undefined;
+    const updated = { ...this.state.services[index], ...patch, updatedAt: new Date().toISOString() };
+    this.state.services[index] = updated;
+    this.save();
+    return updated;
+  }
+
+  notify(userId: string, notification: Omit<AppNotification, 'id' | 'isRead' | 'createdAt'>) {
+    const list = this.state.notifications[userId] ?? [];
+    list.unshift({ ...notification, id: id('ntf'), isRead: false, createdAt: new Date().toISOString() });
+    this.state.notifications[userId] = list.slice(0, 100);
+    this.save();
+  }
+}
+
+export const mockDb = new MockDb();
@@ -0,0 +1,124 @@
+import { setNetworkHandler } from '@/core/api/transport';
+import { setSocketFactory } from '@/core/socket/factory';
+import { createLogger } from '@/core/logging/logger';
+import { DEMO_LOGIN_OTP, DEMO_PHONE, mockDb } from './db';
+import { accountForToken, markPatientMessagesRead, mockHandler, postHelperMessage } from './server';
+import { isActive, simulator } from './simulator';
+import { mockSockets } from './socket';
+import { pushToHelper } from './push';
+import type { PushPayload } from '@/core/sw/push';
+
+// In-browser mock backend, switched on with VITE_MOCK_API=true (see
+// core/config/env). It answers every ApiClient endpoint and the /realtime
+// and /chat socket events from seeded state kept in localStorage, so the
+// whole helper flow works offline:
+//
+//   sign in as 9876543210 (or any new number to onboard) with OTP 123456,
+//   go online, accept the request that arrives, mark arrival, enter the
+//   OTP shown on the job page, complete, and the patient pays shortly after.
+//
+// QA controls live on `window.__mockBackend` (demoLogin, requestService,
+// takeOffer, cancelActive, push, dropSockets, reset).
+
+declare global {
+  interface Window {
+    __mockBackend?: Record<string, (...args: never[]) => unknown>;
+  }
+}
+
+function serveSockets() {
+  mockSockets.serve('/realtime', (socket, event, data, ack) => {
+    const account = accountForToken(socket.auth.token);
+    switch (event) {
+      case 'connection':
+        if (!account) socket.deliver('auth:invalid', { reason: 'invalid_token', message: 'Token rejected by mock backend' });
+        break;
+      case 'auth:update': {
+        const next = accountForToken((data as { token?: string } | undefined)?.token);
+        if (next) socket.auth = { token: (data as { token: string }).token };
+        ack?.({ success: !!next, userId: next?.user.id });
+        break;
+      }
+      case 'whoami':
+        socket.deliver('whoami', { userId: account?.user.id ?? `anon:${socket.id}` });
+        break;
+      case 'latency:ping':
+        ack?.({ receivedAt: Date.now() });
+        break;
+      // join:user, join:service and location/availability/pause pings need no answer
+      default:
+        break;
+    }
+  });
+
+  mockSockets.serve('/chat', (socket, event, data) => {
+    const account = accountForToken(socket.auth.token);
+    const payload = (data ?? {}) as Record<string, unknown>;
+    if (!account) return;
+    if (event === 'send:message') postHelperMessage(account, payload);
+    if (event === 'messages:mark-read') markPatientMessagesRead(String(payload.serviceId ?? ''));
+  });
+}
+
+const signedInHelperId = () =>
+  mockDb.state.session ? mockDb.accountByUserId(mockDb.state.session.userId)?.helper?.id : undefined;
+
+const activeServiceId = () => {
+  const helperId = signedInHelperId();
+  return mockDb.state.services.find((s) => s.helperId === helperId && isActive(s))?.id;
+};
+
+// A push of each kind for the signed-in helper, sent after a delay so there
+// is time to switch away from the app (a visible app gets no notification)
+function testPush(type: PushPayload['type']) {
+  const helperId = signedInHelperId();
+  if (!helperId) return;
+  if (type === 'service:request') {
+    simulator.offer(helperId);
+    return;
+  }
+  const service =
+    type === 'chat:message'
+      ? mockDb.state.services.find((s) => s.helperId === helperId && isActive(s))
+      : [...mockDb.state.services].reverse().find((s) => s.helperId === helperId && s.status === 'COMPLETED');
+  if (!service) return;
+  void pushToHelper(helperId, {
+    type,
+    serviceId: service.id,
+    title: type === 'chat:message' ? service.patientName : undefined,
+    body: type === 'chat:message' ? 'I am waiting near the main entrance.' : `₹${service.fare ?? 0} received via UPI`,
+  });
+}
+
+export function installMockBackend() {
+  setNetworkHandler(mockHandler);
+  setSocketFactory(mockSockets.factory);
+  serveSockets();
+  simulator.resume();
+
+  window.__mockBackend = {
+    // The logger masks phone numbers, so the demo sign-in is read from here
+    demoLogin: () => ({ phone: DEMO_PHONE, otp: DEMO_LOGIN_OTP }),
+    requestService: () => {
+      const helperId = signedInHelperId();
+      return helperId ? simulator.offer(helperId) : null;
+    },
+    takeOffer: () => simulator.takeByOther(),
+    cancelActive: () => {
+      const serviceId = activeServiceId();
+      return serviceId ? simulator.cancel(serviceId) : null;
+    },
+    push: (type: PushPayload['type'] = 'service:request', delayMs = 5_000) => {
+      window.setTimeout(() => testPush(type), delayMs);
+    },
+    dropSockets: () => mockSockets.dropAll(),
+    reset: () => {
+      mockDb.reset();
+      window.location.reload();
+    },
+  };
+
+  createLogger('api').info(
+    'Mock backend enabled. Demo sign-in: window.__mockBackend.demoLogin(). Controls: window.__mockBackend'
+  );
+}
@@ -0,0 +1,24 @@
+import type { PushPayload } from '@/core/sw/push';
+import { mockDb } from './db';
+
+// Stands in for the push service. Subscriptions are recorded by the
+// /notifications/push routes; a push is handed straight to this page's
+// service worker, which shows it like a real one (so only while the app is
+// not visible).
+
+// Public demo key; nothing ever signs pushes with it
+export const MOCK_VAPID_PUBLIC_KEY =
+  'BEl62iUYgUivxIkv69yViEuiBIa-Ib9-SkvMeAtA3LFgDzkrxZJjSgSnfckjBJuBkr3qBUYIHBQFLXYp5Nksh8U';
+
+// True if the helper is subscribed and the push was handed over
+export async function pushToHelper(helperId: string, payload: PushPayload) {
+  const userId = mockDb.state.accounts.find((a) => a.helper?.id === helperId)?.user.id;
+  if (!userId || !mockDb.state.pushSubscriptions?.[userId]?.length) return false;
+  const prefs = mockDb.state.preferences[userId];
+  if (prefs?.pushEnabled === false || (payload.type === 'chat:message' && prefs?.chatMessages === false)) return false;
+
+  const registration = await navigator.serviceWorker?.getRegistration();
+  if (!registration?.active) return false;
+  registration.active.postMessage({ type: 'push:test', payload });
+  return true;
+}
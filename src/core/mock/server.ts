@@ -0,0 +1,660 @@
+import type { ChatMessage, ChatMessageType, Service } from '@/types';
+import { abortError, type Next, type TransportRequest, type TransportResponse } from '@/core/api/transport';
+import type { NotificationPreferencesPayload } from '@/core/api/schemas';
+import { DEMO_LOGIN_OTP, fareFor, id, mockDb, type MockAccount } from './db';
+import { chat, isActive, realtime, simulator } from './simulator';
+import { MOCK_VAPID_PUBLIC_KEY } from './push';
+
+// The mock backend's HTTP side: a route table answering every endpoint
+// ApiClient calls, in the same `{ success, data }` envelope as the real API.
+// It is installed as the transport's network handler, so the whole
+// middleware pipeline (auth header, refresh on 401, retries, cache) still
+// runs in front of it.
+
+interface MockContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  form: FormData | null;
+  // Set for authenticated routes
+  account: MockAccount;
+}
+
+interface MockReply {
+  status: number;
+  body: unknown;
+}
+
+type RouteHandler = (ctx: MockContext) => MockReply;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  public: boolean;
+  handle: RouteHandler;
+}
+
+const ok = (data: unknown, extra: Record<string, unknown> = {}): MockReply => ({
+  status: 200,
+  body: { success: true, data, ...extra },
+});
+
+// Keyset pagination like the real API: the cursor is the id of the last
+// item on the previous page.
+function paginate<T extends { id: string }>(items: T[], query: URLSearchParams) {
+  const limit = Number(query.get('limit')) || 20;
+  const cursor = query.get('cursor');
+  const start = cursor ? items.findIndex((item) => item.id === cursor) + 1 : 0;
+  const page = items.slice(start, start + limit);
+  const more = start + limit < items.length;
+  return { items: page, nextCursor: more ? page[page.length - 1].id : null, total: items.length };
+}
+
+const fail = (status: number, error: string): MockReply => ({ status, body: { success: false, error } });
+
+const TOKEN_TTL_MS = 60 * 60 * 1000;
+
+// Unsigned JWT-shaped token; the app only ever decodes the payload.
+const encode = (value: unknown) => btoa(JSON.stringify(value)).replace(/=+$/, '');
+
+function issueTokens(account: MockAccount) {
+  const now = Date.now();
+  const accessToken = [
+    encode({ alg: 'none', typ: 'JWT' }),
+    encode({
+      sub: account.user.id,
+      userId: account.user.id,
+      userType: 'HELPER',
+      iat: Math.floor(now / 1000),
+      exp: Math.floor((now + TOKEN_TTL_MS) / 1000),
+    }),
+    'mock',
+  ].join('.');
+  const refreshToken = id('rt');
+  mockDb.state.session = { userId: account.user.id, refreshToken };
+  mockDb.save();
+  return { accessToken, refreshToken };
+}
+
+export function accountForToken(token: string | undefined): MockAccount | null {
+  if (!token) return null;
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1])) as { userId?: string; exp?: number };
+    if (!payload.userId || !payload.exp || payload.exp * 1000 < Date.now()) return null;
+    return mockDb.accountByUserId(payload.userId) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+const routes: Route[] = [];
+
+function route(method: string, path: string, handle: RouteHandler, options: { public?: boolean } = {}) {
+  const keys: string[] = [];
+  const pattern = new RegExp(
+    '^' + path.replace(/:([a-zA-Z]+)/g, (_, key: string) => {
+      keys.push(key);
+      return '([^/]+)';
+    }) + '$'
+  );
+  routes.push({ method, pattern, keys, public: !!options.public, handle });
+}
+
+// Helpers for handlers
+
+const helperOf = (ctx: MockContext) => ctx.account.helper;
+
+const servicesOf = (helperId: string) => mockDb.state.services.filter((s) => s.helperId === helperId);
+
+const completedOf = (helperId: string) => servicesOf(helperId).filter((s) => s.status === 'COMPLETED');
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+function ownService(ctx: MockContext): Service | MockReply {
+  const helper = helperOf(ctx);
+  const service = mockDb.service(ctx.params.id);
+  if (!helper || !service || service.helperId !== helper.id) return fail(404, 'Service not found');
+  return service;
+}
+
+const isReply = (v: unknown): v is MockReply => !!v && typeof v === 'object' && 'status' in v && 'body' in v;
+
+function periodKey(iso: string, period: string) {
+  const d = new Date(iso);
+  if (period === 'monthly') return d.toISOString().slice(0, 7);
+  if (period === 'weekly') {
+    const monday = new Date(d);
+    monday.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+    return monday.toISOString().slice(0, 10);
+  }
+  return d.toISOString().slice(0, 10);
+}
+
+function groupByPeriod(services: Service[], period: string) {
+  const groups = new Map<string, Service[]>();
+  services.forEach((s) => {
+    const key = periodKey(s.completedAt || s.createdAt || new Date().toISOString(), period);
+    groups.set(key, [...(groups.get(key) ?? []), s]);
+  });
+  return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+}
+
+// Auth
+
+route('POST', '/auth/request-otp', () => ok({ sent: true }, { code: DEMO_LOGIN_OTP }), { public: true });
+
+route('POST', '/auth/verify-otp', ({ body }) => {
+  const phone = String(body.phone ?? '');
+  if (String(body.otp ?? '') !== DEMO_LOGIN_OTP) return fail(400, 'Invalid OTP');
+  let account = mockDb.accountByPhone(phone);
+  if (!account) {
+    account = {
+      user: { id: id('user'), phone, name: String(body.name ?? '') || undefined, userType: 'HELPER' },
+      helper: null,
+    };
+    mockDb.state.accounts.push(account);
+  }
+  return ok(issueTokens(account));
+}, { public: true });
+
+route('POST', '/auth/refresh', ({ body }) => {
+  const session = mockDb.state.session;
+  const account = session && mockDb.accountByUserId(session.userId);
+  if (!session || !account || (body.refreshToken && body.refreshToken !== session.refreshToken)) {
+    return fail(401, 'Invalid refresh token');
+  }
+  return ok(issueTokens(account));
+}, { public: true });
+
+route('POST', '/auth/logout', () => {
+  mockDb.state.session = null;
+  mockDb.save();
+  return ok({ loggedOut: true });
+}, { public: true });
+
+route('GET', '/auth/me', ({ account }) => ok(account.user));
+
+// Helpers
+
+route('GET', '/helpers/me', (ctx) => {
+  const helper = helperOf(ctx);
+  return helper ? ok(helper) : fail(404, 'Helper profile not found');
+});
+
+route('POST', '/helpers/exists', ({ body }) => {
+  const byPhone = !!body.phone && mockDb.state.accounts.some((a) => a.helper && a.user.phone === body.phone);
+  const byAadhaar = !!body.aadhaar && mockDb.state.accounts.some((a) => a.helper && a.aadhaar === body.aadhaar);
+  const field = byPhone && byAadhaar ? 'both' : byPhone ? 'phone' : byAadhaar ? 'aadhaar' : undefined;
+  return ok({ exists: byPhone || byAadhaar, field });
+}, { public: true });
+
+const createHelper = (account: MockAccount) => {
+  account.helper = {
+    id: id('helper'),
+    userId: account.user.id,
+    isAvailable: false,
+    isVerified: true,
+    avgRating: 0,
+    totalRatings: 0,
+    completedServices: 0,
+    avatarUrl: null,
+  };
+  mockDb.state.hoursOnline[account.helper.id] = 0;
+  mockDb.save();
+  return account.helper;
+};
+
+route('POST', '/helpers', ({ account }) => ok(account.helper ?? createHelper(account)));
+
+route('POST', '/helpers/register', ({ account, form }) => {
+  if (account.helper) return fail(409, 'Helper already registered');
+  const name = form?.get('name');
+  const aadhaar = form?.get('aadhaar');
+  if (typeof name === 'string' && name) account.user.name = name;
+  if (typeof aadhaar === 'string') account.aadhaar = aadhaar;
+  return ok(createHelper(account));
+});
+
+route('PATCH', '/helpers/:id/availability', (ctx) => {
+  const helper = helperOf(ctx);
+  if (!helper || helper.id !== ctx.params.id) return fail(404, 'Helper not found');
+  helper.isAvailable = !!ctx.body.isAvailable;
+  // Going offline ends a pause
+  helper.pausedUntil = null;
+  ctx.account.user.isAvailable = helper.isAvailable;
+  mockDb.save();
+  simulator.setAvailability(helper.id, helper.isAvailable);
+  return ok(helper);
+});
+
+route('PATCH', '/helpers/:id/pause', (ctx) => {
+  const helper = helperOf(ctx);
+  if (!helper || helper.id !== ctx.params.id) return fail(404, 'Helper not found');
+  if (!helper.isAvailable) return fail(409, 'Go online before pausing');
+  const minutes = Number(ctx.body.minutes);
+  helper.pausedUntil = minutes > 0 ? new Date(Date.now() + minutes * 60_000).toISOString() : null;
+  mockDb.save();
+  simulator.setPause(helper.id, helper.pausedUntil);
+  return ok(helper);
+});
+
+route('PATCH', '/helpers/:id/location', () => ok({ updated: true }));
+
+route('GET', '/helpers/earnings', (ctx) => {
+  const done = completedOf(helperOf(ctx)?.id ?? '');
+  return ok({ totalEarnings: sum(done.map((s) => s.fare ?? 0)), totalServices: done.length });
+});
+
+// Services
+
+route('GET', '/services/active', (ctx) => {
+  const helper = helperOf(ctx);
+  return ok((helper && servicesOf(helper.id).find(isActive)) ?? null);
+});
+
+route('GET', '/services/pending', (ctx) => ok(helperOf(ctx)?.isAvailable ? simulator.openOffers() : []));
+
+route('GET', '/services/history', (ctx) => {
+  const items = servicesOf(helperOf(ctx)?.id ?? '')
+    .filter((s) => s.status === 'COMPLETED' || s.status === 'CANCELLED')
+    .sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)));
+  return ok(paginate(items, ctx.query));
+});
+
+route('GET', '/services/:id', (ctx) => {
+  const service = mockDb.service(ctx.params.id);
+  // Open offers are visible to any helper; assigned jobs only to their helper
+  if (service?.status === 'PENDING') return ok(service);
+  const own = ownService(ctx);
+  return isReply(own) ? own : ok(own);
+});
+
+route('POST', '/services/:id/accept', (ctx) => {
+  const helper = helperOf(ctx);
+  const service = mockDb.service(ctx.params.id);
+  if (!helper || !service) return fail(404, 'Service not found');
+  if (service.status !== 'PENDING') return fail(409, 'Service already accepted by another helper');
+  if (servicesOf(helper.id).some(isActive)) return fail(409, 'You already have an active service');
+
+  const updated = mockDb.updateService(service.id, {
+    status: 'ACCEPTED',
+    helperId: helper.id,
+    helperName: ctx.account.user.name,
+    acceptedAt: new Date().toISOString(),
+    // The real backend shows the patient's code to the helper in development builds too
+    otpCode: String(Math.floor(100000 + Math.random() * 900000)),
+    otpVerified: false,
+  })!;
+  simulator.accepted(updated);
+  realtime('service:updated', { serviceId: updated.id, service: updated });
+  return ok(updated);
+});
+
+route('POST', '/services/:id/decline', (ctx) => {
+  simulator.withdraw(ctx.params.id);
+  return ok({ declined: true });
+});
+
+route('POST', '/services/:id/arrive', (ctx) => {
+  const service = ownService(ctx);
+  if (isReply(service)) return service;
+  if (service.status === 'CANCELLED') return fail(409, 'Service was cancelled by the patient');
+  if (service.status !== 'ACCEPTED') return fail(409, `Cannot mark arrival while ${service.status}`);
+  const updated = mockDb.updateService(service.id, { arrivedAt: service.arrivedAt ?? new Date().toISOString() })!;
+  realtime('service:updated', { serviceId: updated.id, service: updated });
+  return ok(updated);
+});
+
+route('POST', '/services/:id/verify-otp', (ctx) => {
+  const service = ownService(ctx);
+  if (isReply(service)) return service;
+  if (service.status === 'CANCELLED') return fail(409, 'Service was cancelled by the patient');
+  if (service.otpVerified) return ok(service);
+  if (String(ctx.body.otp ?? '') !== service.otpCode) return fail(400, 'Invalid OTP');
+  const updated = mockDb.updateService(service.id, {
+    status: 'IN_PROGRESS',
+    otpVerified: true,
+    startedAt: new Date().toISOString(),
+  })!;
+  realtime('service:updated', { serviceId: updated.id, service: updated });
+  return ok(updated);
+});
+
+route('POST', '/services/:id/complete', (ctx) => {
+  const service = ownService(ctx);
+  if (isReply(service)) return service;
+  if (service.status === 'COMPLETED') return ok(service);
+  if (service.status !== 'IN_PROGRESS' && service.status !== 'STARTED') return fail(409, `Cannot complete a service that is ${service.status}`);
+  const elapsedMinutes = (Date.now() - Date.parse(service.startedAt ?? new Date().toISOString())) / 60_000;
+  const billedMinutes = Math.max(1, Math.ceil(elapsedMinutes * 2));
+  const updated = mockDb.updateService(service.id, {
+    status: 'COMPLETED',
+    completedAt: new Date().toISOString(),
+    billedMinutes,
+    fare: fareFor(billedMinutes),
+    paymentStatus: 'PENDING',
+  })!;
+  const helper = helperOf(ctx)!;
+  helper.completedServices = (helper.completedServices ?? 0) + 1;
+  mockDb.save();
+  simulator.completed(updated);
+  realtime('service:completed', { serviceId: updated.id, service: updated });
+  return ok(updated);
+});
+
+route('PATCH', '/services/:id/status', (ctx) => {
+  const service = ownService(ctx);
+  if (isReply(service)) return service;
+  const updated = mockDb.updateService(service.id, { status: String(ctx.body.status) as Service['status'] })!;
+  realtime('service:updated', { serviceId: updated.id, service: updated });
+  return ok(updated);
+});
+
+route('POST', '/services/:id/rate', (ctx) => {
+  const service = ownService(ctx);
+  if (isReply(service)) return service;
+  const rating = Number(ctx.body.rating);
+  if (!(rating >= 1 && rating <= 5)) return fail(400, 'Rating must be between 1 and 5');
+  mockDb.updateService(service.id, { helperRating: rating, helperComment: ctx.body.comment } as Partial<Service>);
+  return ok({ rating, comment: ctx.body.comment });
+});
+
+route('GET', '/services/:id/rating', (ctx) => {
+  const service = ownService(ctx);
+  if (isReply(service)) return service;
+  const comment = (service as Service & { helperComment?: string }).helperComment;
+  return ok({ rating: service.helperRating, comment });
+});
+
+// Chat. Uploaded files only live for the page session; after a reload the
+// message stays but its attachment answers 404.
+
+const files = new Map<string, Blob>();
+
+const messagesFor = (serviceId: string) => mockDb.state.messages.filter((m) => m.serviceId === serviceId);
+
+route('GET', '/chat/service/:id/messages', (ctx) => {
+  const own = ownService(ctx);
+  return isReply(own) ? own : ok(messagesFor(own.id));
+});
+
+// Shared by POST /chat/message and the chat socket's `send:message`.
+export function postHelperMessage(account: MockAccount, body: Record<string, unknown>): MockReply {
+  const service = mockDb.service(String(body.serviceId ?? ''));
+  if (!service || !account.helper || service.helperId !== account.helper.id) return fail(404, 'Service not found');
+  const message: ChatMessage = {
+    id: id('msg'),
+    serviceId: service.id,
+    senderId: account.user.id,
+    senderType: 'HELPER',
+    messageType: (body.messageType as ChatMessageType) || 'TEXT',
+    message: body.message as string | undefined,
+    fileUrl: body.fileUrl as string | undefined,
+    fileName: body.fileName as string | undefined,
+    isRead: false,
+    createdAt: new Date().toISOString(),
+  };
+  mockDb.state.messages.push(message);
+  mockDb.save();
+  chat('message:received', message);
+  simulator.helperMessaged(message);
+  return ok(message);
+}
+
+export function markPatientMessagesRead(serviceId: string) {
+  messagesFor(serviceId).forEach((m) => {
+    if (m.senderType === 'PATIENT') m.isRead = true;
+  });
+  mockDb.save();
+}
+
+route('POST', '/chat/message', ({ account, body }) => postHelperMessage(account, body));
+
+route('POST', '/chat/service/:id/mark-read', (ctx) => {
+  const own = ownService(ctx);
+  if (isReply(own)) return own;
+  markPatientMessagesRead(own.id);
+  return ok({ updated: true });
+});
+
+route('GET', '/chat/unread-count', (ctx) => {
+  const ids = new Set(servicesOf(helperOf(ctx)?.id ?? '').map((s) => s.id));
+  const count = mockDb.state.messages.filter((m) => ids.has(m.serviceId) && m.senderType === 'PATIENT' && !m.isRead).length;
+  return ok({ count });
+});
+
+route('GET', '/chat/templates', () =>
+  ok([
+    { id: 'tpl_1', text: 'I am on my way.', category: 'status' },
+    { id: 'tpl_2', text: 'I have reached the hospital entrance.', category: 'status' },
+    { id: 'tpl_3', text: 'Please share the OTP when we meet.', category: 'otp' },
+    { id: 'tpl_4', text: 'I will be there in 5 minutes.', category: 'eta' },
+  ])
+);
+
+route('POST', '/chat/upload', ({ form }) => {
+  const file = form?.get('file');
+  if (!(file instanceof Blob)) return fail(400, 'No file uploaded');
+  const fileId = id('file');
+  files.set(fileId, file);
+  return ok({ fileUrl: `mock-file:${fileId}` });
+});
+
+// Notifications
+
+const notificationsOf = (ctx: MockContext) => (mockDb.state.notifications[ctx.account.user.id] ??= []);
+
+route('GET', '/notifications', (ctx) => ok(paginate(notificationsOf(ctx), ctx.query)));
+
+route('GET', '/notifications/unread-count', (ctx) => ok({ count: notificationsOf(ctx).filter((n) => !n.isRead).length }));
+
+route('POST', '/notifications/mark-all-read', (ctx) => {
+  notificationsOf(ctx).forEach((n) => (n.isRead = true));
+  mockDb.save();
+  return ok({ updated: true });
+});
+
+route('POST', '/notifications/:id/mark-read', (ctx) => {
+  const notification = notificationsOf(ctx).find((n) => n.id === ctx.params.id);
+  if (!notification) return fail(404, 'Notification not found');
+  notification.isRead = true;
+  mockDb.save();
+  return ok(notification);
+});
+
+route('GET', '/notifications/preferences', (ctx) =>
+  ok({
+    emailEnabled: true,
+    smsEnabled: true,
+    pushEnabled: true,
+    serviceUpdates: true,
+    chatMessages: true,
+    promotionalMessages: false,
+    ...mockDb.state.preferences[ctx.account.user.id],
+  })
+);
+
+route('PUT', '/notifications/preferences', (ctx) => {
+  const next = { ...mockDb.state.preferences[ctx.account.user.id], ...(ctx.body as NotificationPreferencesPayload) };
+  mockDb.state.preferences[ctx.account.user.id] = next;
+  mockDb.save();
+  return ok(next);
+});
+
+// Web Push (delivery is in ./push)
+
+// One list per user, one entry per endpoint
+function savePushSubscriptions(ctx: MockContext, update: (list: PushSubscriptionJSON[]) => PushSubscriptionJSON[]) {
+  const all = (mockDb.state.pushSubscriptions ??= {});
+  all[ctx.account.user.id] = update(all[ctx.account.user.id] ?? []);
+  mockDb.save();
+}
+
+route('GET', '/notifications/push/public-key', () => ok({ publicKey: MOCK_VAPID_PUBLIC_KEY }));
+
+route('POST', '/notifications/push/subscriptions', (ctx) => {
+  const subscription = ctx.body.subscription as PushSubscriptionJSON | undefined;
+  if (!subscription?.endpoint) return fail(400, 'Push subscription endpoint is required');
+  savePushSubscriptions(ctx, (list) => [...list.filter((s) => s.endpoint !== subscription.endpoint), subscription]);
+  return ok({ registered: true });
+});
+
+route('DELETE', '/notifications/push/subscriptions', (ctx) => {
+  savePushSubscriptions(ctx, (list) => list.filter((s) => s.endpoint !== ctx.body.endpoint));
+  return ok({ deleted: true });
+});
+
+route('DELETE', '/notifications/:id', (ctx) => {
+  mockDb.state.notifications[ctx.account.user.id] = notificationsOf(ctx).filter((n) => n.id !== ctx.params.id);
+  mockDb.save();
+  return ok({ deleted: true });
+});
+
+// Analytics (bare payloads, like the real analytics endpoints)
+
+const bare = (data: unknown): MockReply => ({ status: 200, body: data });
+
+route('GET', '/analytics/helper/hours-online', (ctx) => bare({ hours: mockDb.state.hoursOnline[helperOf(ctx)?.id ?? ''] ?? 0 }));
+
+route('GET', '/analytics/helper/earnings', (ctx) => {
+  const from = Date.parse(ctx.query.get('startDate') ?? '') || 0;
+  const to = Date.parse(ctx.query.get('endDate') ?? '') || Infinity;
+  const done = completedOf(helperOf(ctx)?.id ?? '').filter((s) => {
+    const at = Date.parse(s.completedAt ?? '');
+    return at >= from && at <= to;
+  });
+  return bare({ totalEarnings: sum(done.map((s) => s.fare ?? 0)), totalServices: done.length });
+});
+
+route('GET', '/analytics/helper/service-breakdown', (ctx) => {
+  const counts = new Map<string, number>();
+  servicesOf(helperOf(ctx)?.id ?? '').forEach((s) => counts.set(s.status, (counts.get(s.status) ?? 0) + 1));
+  return bare([...counts.entries()].map(([status, count]) => ({ status, count })));
+});
+
+route('GET', '/analytics/helper/rating-stats', (ctx) => {
+  const ratings = completedOf(helperOf(ctx)?.id ?? '').map((s) => s.patientRating).filter((r): r is number => !!r);
+  const distribution: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  ratings.forEach((r) => (distribution[Math.round(r)] += 1));
+  return bare({
+    averageRating: ratings.length ? Math.round((sum(ratings) / ratings.length) * 10) / 10 : 0,
+    totalRatings: ratings.length,
+    distribution,
+  });
+});
+
+route('GET', '/analytics/helper/earnings-trends', (ctx) => {
+  const period = ctx.query.get('period') || 'weekly';
+  const limit = Number(ctx.query.get('limit')) || 30;
+  const trends = groupByPeriod(completedOf(helperOf(ctx)?.id ?? ''), period).map(([key, items]) => ({
+    period: key,
+    earnings: sum(items.map((s) => s.fare ?? 0)),
+    services: items.length,
+  }));
+  return bare({ trends: trends.slice(-limit) });
+});
+
+route('GET', '/analytics/helper/peak-hours', (ctx) => {
+  const counts = Array.from({ length: 24 }, (_, hour) => ({ hour, count: 0 }));
+  servicesOf(helperOf(ctx)?.id ?? '').forEach((s) => {
+    if (s.createdAt) counts[new Date(s.createdAt).getHours()].count += 1;
+  });
+  return bare({ hourlyBreakdown: counts });
+});
+
+route('GET', '/analytics/helper/service-type-breakdown', (ctx) => {
+  const counts = new Map<string, number>();
+  completedOf(helperOf(ctx)?.id ?? '').forEach((s) =>
+    s.serviceType.forEach((t) => counts.set(t, (counts.get(t) ?? 0) + 1))
+  );
+  return bare({ breakdown: [...counts.entries()].map(([name, count]) => ({ name, count })) });
+});
+
+route('GET', '/analytics/helper/satisfaction-trends', (ctx) => {
+  const period = ctx.query.get('period') || 'weekly';
+  const rated = completedOf(helperOf(ctx)?.id ?? '').filter((s) => !!s.patientRating);
+  const trends = groupByPeriod(rated, period).map(([key, items]) => ({
+    period: key,
+    averageRating: Math.round((sum(items.map((s) => s.patientRating ?? 0)) / items.length) * 10) / 10,
+    count: items.length,
+  }));
+  return bare({ trends });
+});
+
+// Handler
+
+// Replays of the same Idempotency-Key get the first answer back, like the
+// real API does for outbox replays (core/offline).
+const idempotent = new Map<string, MockReply>();
+
+const latency = (signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(resolve, 120 + Math.random() * 250);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(abortError());
+    }, { once: true });
+  });
+
+function parseBody(body: TransportRequest['body']): Record<string, unknown> {
+  if (typeof body !== 'string' || !body) return {};
+  try {
+    const parsed = JSON.parse(body) as unknown;
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function dispatch(req: TransportRequest): MockReply {
+  const [path, search = ''] = req.endpoint.split('?');
+  for (const r of routes) {
+    if (r.method !== req.method) continue;
+    const match = r.pattern.exec(path);
+    if (!match) continue;
+
+    const bearer = req.headers.Authorization?.replace(/^Bearer\s+/i, '');
+    const account = accountForToken(bearer);
+    if (!r.public && !account) return fail(401, 'Unauthenticated');
+
+    const params = Object.fromEntries(r.keys.map((k, i) => [k, decodeURIComponent(match[i + 1])]));
+    return r.handle({
+      params,
+      query: new URLSearchParams(search),
+      body: parseBody(req.body),
+      form: typeof FormData !== 'undefined' && req.body instanceof FormData ? req.body : null,
+      account: account as MockAccount,
+    });
+  }
+  return fail(404, `Mock backend has no route for ${req.method} ${path}`);
+}
+
+const toResponse = (reply: MockReply): TransportResponse => ({
+  status: reply.status,
+  ok: reply.status >= 200 && reply.status < 300,
+  headers: new Headers({ 'Content-Type': 'application/json' }),
+  body: reply.body,
+});
+
+export const mockHandler: Next = async (req) => {
+  await latency(req.signal);
+
+  // Attachments are the one binary endpoint
+  const file = /^\/chat\/file\/([^/?]+)/.exec(req.endpoint);
+  if (file && req.method === 'GET') {
+    const message = mockDb.state.messages.find((m) => m.id === file[1]);
+    const blob = message?.fileUrl?.startsWith('mock-file:') ? files.get(message.fileUrl.slice('mock-file:'.length)) : undefined;
+    if (!blob) return toResponse(fail(404, 'File not found'));
+    return { status: 200, ok: true, headers: new Headers(), body: blob };
+  }
+
+  const key = req.headers['Idempotency-Key'];
+  const replay = key ? idempotent.get(key) : undefined;
+  if (replay) return toResponse(replay);
+
+  const reply = dispatch(req);
+  if (key && reply.status < 500) idempotent.set(key, reply);
+  return toResponse(reply);
+};
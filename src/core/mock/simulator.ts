@@ -0,0 +1,225 @@
+import type { ChatMessage, Helper, Service } from '@/types';
+import type { ChatInbound, EventName, GatewayInbound } from '@/core/socket/events';
+import { HOSPITALS, PATIENTS, SERVICE_MIXES, id, mockDb, pick } from './db';
+import { mockSockets } from './socket';
+import { pushToHelper } from './push';
+
+// Plays the patient's side of the demo: offers jobs while the helper is
+// online, answers chat messages and pays a few seconds after completion.
+// Each of those is also pushed to a subscribed helper (see ./push).
+// Timers live in memory only; `resume()` restarts them after a reload from
+// whatever the saved state says.
+
+const FIRST_OFFER_MS = 8_000;
+const NEXT_OFFER_MS = 45_000;
+const OFFER_WINDOW_MS = 30_000;
+// Open offers at once, so the request queue can be exercised
+const MAX_OPEN_OFFERS = 3;
+const PAYMENT_DELAY_MS = 6_000;
+
+const PATIENT_REPLIES = [
+  'Thank you! I am near the main entrance.',
+  'Okay, see you soon.',
+  'I am wearing a blue shirt, sitting near the pharmacy.',
+  'Great, thanks for the update.',
+];
+
+export const realtime = <K extends EventName<GatewayInbound>>(event: K, payload: GatewayInbound[K]) =>
+  mockSockets.broadcast('/realtime', event, payload);
+export const chat = <K extends EventName<ChatInbound>>(event: K, payload: ChatInbound[K]) =>
+  mockSockets.broadcast('/chat', event, payload);
+
+const ACTIVE_STATUSES = ['ACCEPTED', 'ARRIVED', 'IN_PROGRESS', 'STARTED'];
+
+export const isActive = (s: Service) => ACTIVE_STATUSES.includes(String(s.status));
+
+const isPaused = (helper: Helper) => !!helper.pausedUntil && Date.parse(helper.pausedUntil) > Date.now();
+
+class PatientSimulator {
+  private offerTimers = new Map<string, number>();
+  private expiryTimers = new Map<string, number>();
+
+  // Offer a job now (also bound to `window.__mockBackend.requestService()`).
+  offer(helperId: string) {
+    const helper = mockDb.state.accounts.find((a) => a.helper?.id === helperId)?.helper;
+    if (!helper?.isAvailable || isPaused(helper)) return null;
+    if (mockDb.state.services.some((s) => s.helperId === helperId && isActive(s))) return null;
+    if (this.expiryTimers.size >= MAX_OPEN_OFFERS) return null;
+
+    const patient = pick(PATIENTS);
+    const hospital = pick(HOSPITALS);
+    const service: Service = {
+      id: id('svc'),
+      status: 'PENDING',
+      serviceType: pick(SERVICE_MIXES),
+      description: 'Needs help moving between departments',
+      patientId: `patient_${PATIENTS.indexOf(patient)}`,
+      patientName: patient.name,
+      patientPhone: patient.phone,
+      patientUser: { name: patient.name, phone: patient.phone, avgRating: 4.5, totalRatings: 8 },
+      patientLocation: hospital.location,
+      hospitalName: hospital.name,
+      hospitalLocation: hospital.location,
+      distance: Math.round((0.5 + Math.random() * 4) * 10) / 10,
+      estimatedFare: 150 + Math.round(Math.random() * 10) * 10,
+      urgency: pick(['low', 'medium', 'high'] as const),
+      expiresInMs: OFFER_WINDOW_MS,
+      createdAt: new Date().toISOString(),
+    };
+    mockDb.state.services.push(service);
+    mockDb.save();
+
+    realtime('service:request', { service, expiresInMs: OFFER_WINDOW_MS, responseDeadline: Date.now() + OFFER_WINDOW_MS });
+    void pushToHelper(helperId, {
+      type: 'service:request',
+      serviceId: service.id,
+      body: `${service.serviceType.join(', ')} · ${hospital.name} · ₹${service.estimatedFare}`,
+    });
+    this.expiryTimers.set(
+      service.id,
+      window.setTimeout(() => this.withdraw(service.id), OFFER_WINDOW_MS)
+    );
+    return service;
+  }
+
+  // Offers still open, with the time left to answer them
+  openOffers(): Service[] {
+    return [...this.expiryTimers.keys()].flatMap((serviceId) => {
+      const service = mockDb.service(serviceId);
+      const left = service ? Date.parse(String(service.createdAt)) + OFFER_WINDOW_MS - Date.now() : 0;
+      return service?.status === 'PENDING' && left > 0 ? [{ ...service, expiresInMs: left }] : [];
+    });
+  }
+
+  // An unanswered or declined offer goes to "another helper".
+  withdraw(serviceId: string) {
+    window.clearTimeout(this.expiryTimers.get(serviceId));
+    this.expiryTimers.delete(serviceId);
+    const service = mockDb.service(serviceId);
+    if (service?.status !== 'PENDING') return;
+    mockDb.state.services = mockDb.state.services.filter((s) => s.id !== serviceId);
+    mockDb.save();
+  }
+
+  // Another helper accepts the oldest open offer (bound to
+  // `window.__mockBackend.takeOffer()`).
+  takeByOther() {
+    const [serviceId] = this.expiryTimers.keys();
+    if (!serviceId) return null;
+    this.withdraw(serviceId);
+    realtime('service:taken', { serviceId });
+    return serviceId;
+  }
+
+  setAvailability(helperId: string, isAvailable: boolean) {
+    window.clearTimeout(this.offerTimers.get(helperId));
+    this.offerTimers.delete(helperId);
+    if (isAvailable) this.scheduleOffer(helperId, FIRST_OFFER_MS);
+  }
+
+  // No offers while paused; the first comes shortly after the pause ends
+  setPause(helperId: string, pausedUntil: string | null) {
+    window.clearTimeout(this.offerTimers.get(helperId));
+    this.offerTimers.delete(helperId);
+    const left = pausedUntil ? Math.max(0, Date.parse(pausedUntil) - Date.now()) : 0;
+    this.scheduleOffer(helperId, left + FIRST_OFFER_MS);
+  }
+
+  private scheduleOffer(helperId: string, delayMs: number) {
+    this.offerTimers.set(
+      helperId,
+      window.setTimeout(() => {
+        this.offer(helperId);
+        this.scheduleOffer(helperId, NEXT_OFFER_MS);
+      }, delayMs)
+    );
+  }
+
+  accepted(service: Service) {
+    window.clearTimeout(this.expiryTimers.get(service.id));
+    this.expiryTimers.delete(service.id);
+    window.setTimeout(() => this.patientSays(service.id, 'Hi! I have reached the hospital. Please come to the reception.'), 4_000);
+  }
+
+  completed(service: Service) {
+    window.setTimeout(() => this.pay(service.id), PAYMENT_DELAY_MS);
+  }
+
+  // The patient cancels the active job (bound to `window.__mockBackend.cancelActive()`).
+  cancel(serviceId: string) {
+    const service = mockDb.service(serviceId);
+    if (!service || !isActive(service)) return null;
+    const updated = mockDb.updateService(serviceId, { status: 'CANCELLED', cancelledAt: new Date().toISOString() });
+    realtime('service:cancelled', { serviceId, service: updated });
+    return updated;
+  }
+
+  helperMessaged(message: ChatMessage) {
+    const reply = pick(PATIENT_REPLIES);
+    window.setTimeout(() => chat('user:typing', { userId: 'patient', serviceId: message.serviceId }), 1_000);
+    window.setTimeout(() => {
+      chat('user:stopped-typing', { userId: 'patient', serviceId: message.serviceId });
+      this.patientSays(message.serviceId, reply);
+    }, 3_000);
+  }
+
+  private patientSays(serviceId: string, text: string) {
+    const service = mockDb.service(serviceId);
+    if (!service || !isActive(service)) return;
+    const message: ChatMessage = {
+      id: id('msg'),
+      serviceId,
+      senderId: service.patientId || 'patient',
+      senderType: 'PATIENT',
+      messageType: 'TEXT',
+      message: text,
+      isRead: false,
+      createdAt: new Date().toISOString(),
+    };
+    mockDb.state.messages.push(message);
+    mockDb.save();
+    chat('message:received', message);
+    if (service.helperId) {
+      void pushToHelper(service.helperId, { type: 'chat:message', serviceId, title: service.patientName, body: text });
+    }
+  }
+
+  private pay(serviceId: string) {
+    const service = mockDb.service(serviceId);
+    if (!service || service.status !== 'COMPLETED' || service.paymentStatus === 'COMPLETED') return;
+    const paymentMethod = pick(['UPI', 'Cash']);
+    mockDb.updateService(serviceId, { paymentStatus: 'COMPLETED', paymentMethod, paidAt: new Date().toISOString() });
+    const helper = mockDb.state.accounts.find((a) => a.helper?.id === service.helperId);
+    if (helper) {
+      mockDb.notify(helper.user.id, {
+        title: 'Payment received',
+        body: `₹${service.fare ?? 0} received via ${paymentMethod}`,
+        type: 'PAYMENT',
+        data: { serviceId },
+      });
+    }
+    realtime('payment:completed', { serviceId, paymentMethod, amount: service.fare });
+    if (service.helperId) {
+      void pushToHelper(service.helperId, {
+        type: 'payment:completed',
+        serviceId,
+        body: `₹${service.fare ?? 0} received via ${paymentMethod}`,
+      });
+    }
+  }
+
+  // Restart timers for state saved before a reload.
+  resume() {
+    mockDb.state.services
+      .filter((s) => s.status === 'PENDING')
+      .forEach((s) => this.withdraw(s.id));
+    mockDb.state.accounts.forEach((a) => {
+      if (a.helper?.isAvailable) this.setPause(a.helper.id, a.helper.pausedUntil ?? null);
+    });
+    mockDb.state.services
+      .filter((s) => s.status === 'COMPLETED' && s.paymentStatus === 'PENDING')
+      .forEach((s) => this.completed(s));
+  }
+}
+
+export const simulator = new PatientSimulator();
@@ -0,0 +1,142 @@
+import type { Socket } from 'socket.io-client';
+import type { SocketFactory } from '@/core/socket/factory';
+
+// In-memory stand-in for socket.io sockets. It implements the part of the
+// client API the app uses (on/off/onAny/emit/disconnect, `auth`,
+// `connected`, `active`). Events the app emits go to the namespace's server
+// handler; the mock server pushes events back with `mockSockets.broadcast`.
+
+type Listener = (...args: unknown[]) => void;
+type Ack = (response: unknown) => void;
+
+const LIFECYCLE_EVENTS = new Set(['connect', 'disconnect', 'connect_error']);
+
+export type ServerHandler = (socket: MockSocket, event: string, data: unknown, ack?: Ack) => void;
+
+// Mirrors socket.io's namespace: the path of the URL the client connected to
+const namespaceOf = (url: string) => {
+  try {
+    return new URL(url, window.location.origin).pathname.replace(/\/+$/, '') || '/';
+  } catch {
+    return '/';
+  }
+};
+
+export class MockSocket {
+  id = `mock_${Math.random().toString(36).slice(2, 10)}`;
+  connected = false;
+  active = false;
+  auth: { token?: string };
+  readonly namespace: string;
+  private listeners = new Map<string, Set<Listener>>();
+  private anyListeners = new Set<Listener>();
+
+  constructor(namespace: string, auth: { token?: string }) {
+    this.namespace = namespace;
+    this.auth = auth;
+  }
+
+  on(event: string, listener: Listener) {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)!.add(listener);
+    return this;
+  }
+
+  off(event?: string, listener?: Listener) {
+    if (!event) this.listeners.clear();
+    else if (!listener) this.listeners.delete(event);
+    else this.listeners.get(event)?.delete(listener);
+    return this;
+  }
+
+  onAny(listener: Listener) {
+    this.anyListeners.add(listener);
+    return this;
+  }
+
+  // Client -> server
+  emit(event: string, data?: unknown, ack?: Ack) {
+    if (!this.connected) return this;
+    // Answer asynchronously, like a real round trip
+    setTimeout(() => mockSockets.handle(this, event, data, ack), 0);
+    return this;
+  }
+
+  // Server -> client. Like socket.io, `onAny` does not see lifecycle events.
+  deliver(event: string, ...args: unknown[]) {
+    if (!LIFECYCLE_EVENTS.has(event)) this.anyListeners.forEach((l) => l(event, ...args));
+    this.listeners.get(event)?.forEach((l) => l(...args));
+  }
+
+  connect() {
+    this.active = true;
+    setTimeout(() => {
+      if (this.connected || !this.active) return;
+      this.connected = true;
+      mockSockets.attach(this);
+      this.deliver('connect');
+      // Let the server side see the handshake, like socket.io's 'connection'
+      mockSockets.handle(this, 'connection', undefined);
+    }, 50);
+    return this;
+  }
+
+  disconnect() {
+    this.active = false;
+    if (!this.connected) return this;
+    this.connected = false;
+    mockSockets.detach(this);
+    this.deliver('disconnect', 'io client disconnect');
+    return this;
+  }
+
+  // The connection was lost rather than closed by the app
+  drop() {
+    if (!this.connected) return;
+    this.active = false;
+    this.connected = false;
+    mockSockets.detach(this);
+    this.deliver('disconnect', 'transport close');
+  }
+}
+
+class MockSocketHub {
+  private sockets = new Set<MockSocket>();
+  private handlers = new Map<string, ServerHandler>();
+
+  // Register the server side of a namespace ('/realtime', '/chat').
+  serve(namespace: string, handler: ServerHandler) {
+    this.handlers.set(namespace, handler);
+  }
+
+  attach(socket: MockSocket) {
+    this.sockets.add(socket);
+  }
+
+  detach(socket: MockSocket) {
+    this.sockets.delete(socket);
+  }
+
+  handle(socket: MockSocket, event: string, data: unknown, ack?: Ack) {
+    this.handlers.get(socket.namespace)?.(socket, event, data, ack);
+  }
+
+  broadcast(namespace: string, event: string, payload?: unknown) {
+    this.sockets.forEach((s) => {
+      if (s.namespace === namespace && s.connected) s.deliver(event, payload);
+    });
+  }
+
+  // Drop every connection, e.g. to let QA exercise the reconnect path.
+  dropAll() {
+    [...this.sockets].forEach((s) => s.drop());
+  }
+
+  readonly factory: SocketFactory = (url, options) => {
+    const auth = (typeof options.auth === 'object' ? options.auth : {}) as { token?: string };
+    const socket = new MockSocket(namespaceOf(url), auth);
+    return socket.connect() as unknown as Socket;
+  };
+}
+
+export const mockSockets = new MockSocketHub();
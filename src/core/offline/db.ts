@@ -0,0 +1,58 @@
+// Tiny promise wrapper around the one IndexedDB database the app owns.
+// Keep it dependency-free; callers only need put/delete/getAll.
+
+const DB_NAME = 'helpbuddy-helper';
+const DB_VERSION = 1;
+
+export const OUTBOX_STORE = 'outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  // Allow a later retry if opening failed (e.g. private mode quirks)
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+function run<T>(store: string, mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(store, mode);
+        const req = op(tx.objectStore(store));
+        tx.oncomplete = () => resolve(req.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      })
+  );
+}
+
+export const idb = {
+  getAll<T>(store: string): Promise<T[]> {
+    return run<T[]>(store, 'readonly', (s) => s.getAll());
+  },
+  put<T>(store: string, value: T): Promise<IDBValidKey> {
+    return run(store, 'readwrite', (s) => s.put(value));
+  },
+  delete(store: string, key: IDBValidKey): Promise<undefined> {
+    return run(store, 'readwrite', (s) => s.delete(key));
+  },
+};
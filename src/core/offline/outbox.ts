@@ -0,0 +1,301 @@
+import { apiClient, type ApiResponse, type CallOptions } from '@/core/api/client';
+import { tokenManager } from '@/core/auth/tokenManager';
+import { createLogger } from '@/core/logging/logger';
+import { idb, OUTBOX_STORE } from './db';
+
+const log = createLogger('offline');
+
+// Persistent outbox for job lifecycle mutations. Helpers regularly lose signal
+// inside hospitals, so arrive / verify-OTP / complete / rate calls made while
+// offline are recorded in IndexedDB with an idempotency key and the device
+// time, then replayed in order once connectivity returns. Replays carry the
+// same key, so a request that reached the server before the connection
+// dropped is not applied twice. Each action belongs to the helper who made
+// it: only theirs are shown or replayed, and another helper's wait until
+// that helper signs in again.
+
+export type OutboxKind = 'arrive' | 'verifyOtp' | 'complete' | 'rate';
+
+export interface OutboxPayloads {
+  arrive: Record<string, never>;
+  verifyOtp: { otp: string };
+  complete: Record<string, never>;
+  rate: { rating: number; comment?: string };
+}
+
+export interface OutboxAction<K extends OutboxKind = OutboxKind> {
+  // Doubles as the idempotency key sent to the server
+  id: string;
+  kind: K;
+  serviceId: string;
+  // Helper (user id) whose session it is replayed with
+  userId: string;
+  payload: OutboxPayloads[K];
+  // Device clock when the helper performed the action (ISO)
+  deviceTimestamp: string;
+  // Monotonic sequence to keep replay order stable across reloads
+  seq: number;
+  attempts: number;
+  status: 'pending' | 'conflict';
+  error?: string;
+}
+
+export type SubmitResult =
+  | { state: 'sent'; response: ApiResponse<unknown> }
+  | { state: 'queued'; action: OutboxAction }
+  | { state: 'failed'; response: ApiResponse<unknown> };
+
+type Listener = (actions: OutboxAction[]) => void;
+type SyncListener = (action: OutboxAction, outcome: 'synced' | 'conflict') => void;
+
+const RETRY_INTERVAL_MS = 30_000;
+// The outbox retries on its own, so each send is a single short attempt and
+// a helper on a hanging connection sees the action queued within seconds
+const SEND_TIMEOUT_MS = 8_000;
+
+const newId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+function send(action: OutboxAction): Promise<ApiResponse<unknown>> {
+  const options: CallOptions = {
+    timeoutMs: SEND_TIMEOUT_MS,
+    retry: false,
+    mutation: { idempotencyKey: action.id, deviceTimestamp: action.deviceTimestamp },
+  };
+  switch (action.kind) {
+    case 'arrive':
+      return apiClient.arriveService(action.serviceId, options);
+    case 'verifyOtp':
+      return apiClient.verifyServiceOtp(action.serviceId, (action.payload as OutboxPayloads['verifyOtp']).otp, options);
+    case 'complete':
+      return apiClient.completeService(action.serviceId, options);
+    case 'rate': {
+      const { rating, comment } = action.payload as OutboxPayloads['rate'];
+      return apiClient.rateService(action.serviceId, rating, comment, options);
+    }
+  }
+}
+
+// No status means the request never got an answer (offline, DNS, timeout);
+// 5xx, 408 and 429 are worth another go later. Anything else is the server
+// telling us the action no longer applies.
+const isTransient = (res: ApiResponse<unknown>) =>
+  !res.status || res.status >= 500 || res.status === 408 || res.status === 429;
+
+// The session ran out while offline and could not be refreshed. The action
+// still applies; it waits for the helper to sign in again.
+const needsAuth = (res: ApiResponse<unknown>) => res.status === 401 || res.status === 403;
+
+function describeConflict(res: ApiResponse<unknown>) {
+  const msg = res.error || `Request failed with status ${res.status}`;
+  if (/cancel/i.test(msg) || res.status === 410) {
+    return 'This job was cancelled while you were offline';
+  }
+  return msg;
+}
+
+class Outbox {
+  private actions: OutboxAction[] = [];
+  private listeners = new Set<Listener>();
+  private syncListeners = new Set<SyncListener>();
+  private ready: Promise<void>;
+  private flushing: Promise<void> | null = null;
+  private retryTimer: number | null = null;
+
+  constructor() {
+    this.ready = idb
+      .getAll<OutboxAction>(OUTBOX_STORE)
+      .then((stored) => {
+        // Saved before actions had an owner; nobody can safely replay them
+        const orphans = stored.filter((a) => !a.userId);
+        if (orphans.length) log.warn('Dropping outbox actions without an owner', { count: orphans.length });
+        orphans.forEach((a) => void idb.delete(OUTBOX_STORE, a.id).catch(() => undefined));
+        this.actions = stored.filter((a) => a.userId).sort((a, b) => a.seq - b.seq);
+        this.emit();
+      })
+      .catch((e) => {
+        // Without IndexedDB the outbox still works for this tab, it just
+        // does not survive a reload.
+        log.warn('IndexedDB unavailable, falling back to memory', e);
+      });
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => void this.flush());
+      void this.ready.then(() => this.flush());
+      // A different helper signed in (or out): show and replay theirs
+      tokenManager.subscribe(() => {
+        this.emit();
+        void this.flush();
+      });
+    }
+  }
+
+  // Run the action now if we can; queue it if we are offline, if earlier
+  // actions are still waiting (order matters), or if the call fails in a way
+  // a later replay can get past (no answer, 5xx, 408, 429).
+  async submit<K extends OutboxKind>(kind: K, serviceId: string, payload: OutboxPayloads[K]): Promise<SubmitResult> {
+    await this.ready;
+    const userId = tokenManager.userId();
+    if (!userId) return { state: 'failed', response: { success: false, error: 'Not signed in' } };
+    const action: OutboxAction<K> = {
+      id: newId(),
+      kind,
+      serviceId,
+      userId,
+      payload,
+      deviceTimestamp: new Date().toISOString(),
+      seq: Date.now(),
+      attempts: 0,
+      status: 'pending',
+    };
+
+    const offline = typeof navigator !== 'undefined' && navigator.onLine === false;
+    if (offline || this.pending().length > 0) {
+      await this.enqueue(action);
+      void this.flush();
+      return { state: 'queued', action };
+    }
+
+    const response = await send(action);
+    if (response.success) return { state: 'sent', response };
+    if (isTransient(response)) {
+      await this.enqueue(action);
+      this.scheduleRetry();
+      return { state: 'queued', action };
+    }
+    return { state: 'failed', response };
+  }
+
+  // The signed-in helper's actions only
+  pending(serviceId?: string) {
+    return this.mine().filter((a) => a.status === 'pending' && (!serviceId || a.serviceId === serviceId));
+  }
+
+  conflicts(serviceId?: string) {
+    return this.mine().filter((a) => a.status === 'conflict' && (!serviceId || a.serviceId === serviceId));
+  }
+
+  // Remove a conflicted action once the helper has acknowledged it.
+  async dismiss(id: string) {
+    this.actions = this.actions.filter((a) => a.id !== id);
+    await idb.delete(OUTBOX_STORE, id).catch(() => undefined);
+    this.emit();
+  }
+
+  subscribe(listener: Listener) {
+    this.listeners.add(listener);
+    listener(this.mine());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  onSync(listener: SyncListener) {
+    this.syncListeners.add(listener);
+    return () => {
+      this.syncListeners.delete(listener);
+    };
+  }
+
+  // Replay pending actions in order. Stops at the first transient failure so
+  // later actions never overtake earlier ones, and at an auth failure until
+  // the token changes (the tokenManager subscription flushes again).
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.doFlush().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async doFlush() {
+    await this.ready;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+
+    // Re-read the queue each round: actions may be added or parked mid-flush.
+    let action: OutboxAction | undefined;
+    while ((action = this.pending()[0])) {
+      let response: ApiResponse<unknown>;
+      try {
+        response = await send(action);
+      } catch (e) {
+        response = { success: false, error: e instanceof Error ? e.message : 'Unknown error' };
+      }
+
+      if (response.success) {
+        await this.remove(action);
+        this.notifySync(action, 'synced');
+        continue;
+      }
+
+      if (needsAuth(response)) {
+        await this.save({ ...action, attempts: action.attempts + 1, error: response.error });
+        return;
+      }
+
+      if (isTransient(response)) {
+        await this.save({ ...action, attempts: action.attempts + 1, error: response.error });
+        this.scheduleRetry();
+        return;
+      }
+
+      // The server rejected it; later actions for the same job depend on
+      // this one, so they are parked as conflicts too.
+      const reason = describeConflict(response);
+      const conflicted: OutboxAction = { ...action, status: 'conflict', error: reason };
+      await this.save(conflicted);
+      this.notifySync(conflicted, 'conflict');
+      for (const later of this.pending(action.serviceId)) {
+        await this.save({ ...later, status: 'conflict', error: `Not sent: ${reason}` });
+      }
+    }
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer || typeof window === 'undefined') return;
+    this.retryTimer = window.setTimeout(() => {
+      this.retryTimer = null;
+      void this.flush();
+    }, RETRY_INTERVAL_MS);
+  }
+
+  private async enqueue(action: OutboxAction) {
+    const last = this.actions[this.actions.length - 1];
+    // Keep seq strictly increasing even if the clock goes backwards
+    if (last && action.seq <= last.seq) action.seq = last.seq + 1;
+    await this.save(action);
+  }
+
+  private async save(action: OutboxAction) {
+    const idx = this.actions.findIndex((a) => a.id === action.id);
+    if (idx >= 0) this.actions[idx] = action;
+    else this.actions.push(action);
+    await idb.put(OUTBOX_STORE, action).catch(() => undefined);
+    this.emit();
+  }
+
+  private async remove(action: OutboxAction) {
+    this.actions = this.actions.filter((a) => a.id !== action.id);
+    await idb.delete(OUTBOX_STORE, action.id).catch(() => undefined);
+    this.emit();
+  }
+
+  private mine() {
+    const userId = tokenManager.userId();
+    return userId ? this.actions.filter((a) => a.userId === userId) : [];
+  }
+
+  private emit() {
+    const snapshot = this.mine();
+    this.listeners.forEach((l) => l(snapshot));
+  }
+
+  private notifySync(action: OutboxAction, outcome: 'synced' | 'conflict') {
+    this.syncListeners.forEach((l) => l(action, outcome));
+  }
+}
+
+export const outbox = new Outbox();
@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { outbox, type OutboxAction } from './outbox';
+
+// Live view of the offline outbox, optionally scoped to one job.
+export const useOutbox = (serviceId?: string) => {
+  const [actions, setActions] = useState<OutboxAction[]>([]);
+
+  useEffect(() => outbox.subscribe(setActions), []);
+
+  const scoped = serviceId ? actions.filter((a) => a.serviceId === serviceId) : actions;
+
+  return {
+    pending: scoped.filter((a) => a.status === 'pending'),
+    conflicts: scoped.filter((a) => a.status === 'conflict'),
+    dismiss: (id: string) => outbox.dismiss(id),
+    retry: () => outbox.flush(),
+  };
+};
@@ -1,26 +1,23 @@
 import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
 import { apiClient } from '@/core/api/client';
-import { socketClient } from '@/core/socket/client';
-import type { User } from '@/types';
+import { refreshSession } from '@/core/api/session';
+import { tokenManager } from '@/core/auth/tokenManager';
+import { refreshScheduler } from '@/core/auth/refreshScheduler';
+import { realtime } from '@/core/socket/realtime';
+import { queryClient } from '@/core/query/queryClient';
+import { unsubscribePush } from '@/core/sw/push';
+import { createLogger } from '@/core/logging/logger';
+import type { Helper, User } from '@/types';
 
-interface Helper {
-  id: string;
-  userId: string;
-  isAvailable: boolean;
-  isVerified?: boolean;
-  rating?: number;
-  completedServices?: number;
-  totalEarnings?: number;
-  currentBalance?: number;
-}
+const log = createLogger('auth');
 
 interface AuthContextType {
   user: User | null;
   helper: Helper | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (accessToken: string, refreshToken: string) => Promise<void>;
-  logout: () => void;
+  login: (accessToken: string, refreshToken?: string) => Promise<void>;
+  logout: () => Promise<void>;
   updateHelper: (helper: Helper) => void;
 }
 
@@ -39,7 +36,20 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     authTimerRef.current = window.setTimeout(() => {
       checkAuth();
     }, 300);
+    // Renew the access token before it expires rather than after a 401
+    refreshScheduler.start();
+    // Signing out in another tab (or the session being dropped) ends it here too
+    const unsubscribe = tokenManager.subscribe((token) => {
+      if (token) return;
+      realtime.disconnect();
+      // The previous helper's jobs, earnings and notifications go with them
+      queryClient.clear();
+      setUser(null);
+      setHelper(null);
+    });
     return () => {
+      unsubscribe();
+      refreshScheduler.stop();
       if (authTimerRef.current) {
         window.clearTimeout(authTimerRef.current);
         authTimerRef.current = null;
@@ -52,26 +62,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     if (isCheckingRef.current) return;
     isCheckingRef.current = true;
 
-    let token = localStorage.getItem('accessToken');
-    const logoutBlocked = localStorage.getItem('logoutBlock') === '1';
+    let token = tokenManager.getAccessToken();
+    const logoutBlocked = tokenManager.isRefreshBlocked();
 
     // Verify token is for HELPER before proceeding
-    if (token) {
-      try {
-        const payload = JSON.parse(atob(token.split('.')[1]));
-        if (payload.userType !== 'HELPER') {
-          localStorage.removeItem('accessToken');
-          localStorage.removeItem('refreshToken');
-          localStorage.removeItem('logoutBlock');
-          token = null; // Clear the token variable so we don't use it
-        }
-      } catch (e) {
-        console.error('[AUTH] Failed to decode token:', e);
-        // Invalid token, clear it
-        localStorage.removeItem('accessToken');
-        localStorage.removeItem('refreshToken');
-        token = null;
-      }
+    if (token && !tokenManager.isHelperToken(token)) {
+      log.warn('Stored token is not a HELPER token');
+      tokenManager.clear();
+      queryClient.clear();
+      token = null; // Clear the token variable so we don't use it
     }
 
     const attemptRefresh = async () => {
@@ -81,88 +80,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       // avoid hammering the refresh endpoint: allow at most one attempt per 10s
       if (lastRefreshRef.current && now - lastRefreshRef.current < 10000) return false;
       lastRefreshRef.current = now;
-      try {
-        // Prefer using a stored refresh token (if present) so we avoid
-        // a noisy cookie-only POST that frequently returns 400 when no
-        // httpOnly cookie was set in this session.
-        const stored = localStorage.getItem('refreshToken');
-        if (stored) {
-          const bodyResp = await apiClient.refreshTokens(stored);
-          if (bodyResp && bodyResp.success && bodyResp.data) {
-            const dd: any = bodyResp.data;
-            if (dd.accessToken) {
-              // Verify the refreshed token is for HELPER
-              try {
-                const payload = JSON.parse(atob(dd.accessToken.split('.')[1]));
-                if (payload.userType !== 'HELPER') {
-                  localStorage.removeItem('accessToken');
-                  localStorage.removeItem('refreshToken');
-                  return false;
-                }
-              } catch (e) {
-                console.error('[AUTH] Failed to decode refreshed token:', e);
-                return false;
-              }
-              
-              localStorage.setItem('accessToken', dd.accessToken);
-              if (dd.refreshToken) localStorage.setItem('refreshToken', dd.refreshToken);
-              token = dd.accessToken;
-              return true;
-            }
-          } else {
-            // If refresh failed with 401, tokens are invalid - clear them
-            if ((bodyResp as any)?.status === 401) {
-              localStorage.removeItem('accessToken');
-              localStorage.removeItem('refreshToken');
-              return false;
-            }
-          }
-        }
-
-        // Fall back to cookie-based (httpOnly) refresh. Previously we avoided
-        // calling this when a localStorage flag was missing to prevent noisy
-        // 400s. In practice, failing to attempt cookie refresh here results in
-        // persistent 403s when the browser actually does have a valid cookie.
-        // Try it once as a fallback.
-        try {
-          const refreshResp = await apiClient.refreshTokens();
-          if (refreshResp && refreshResp.success && refreshResp.data) {
-            const dd: any = refreshResp.data;
-            if (dd.accessToken) {
-              // Verify the cookie-refreshed token is for HELPER
-              try {
-                const payload = JSON.parse(atob(dd.accessToken.split('.')[1]));
-                if (payload.userType !== 'HELPER') {
-                  localStorage.removeItem('accessToken');
-                  localStorage.removeItem('refreshToken');
-                  return false;
-                }
-              } catch (e) {
-                console.error('[AUTH] Failed to decode cookie-refreshed token:', e);
-                return false;
-              }
-              
-              localStorage.setItem('accessToken', dd.accessToken);
-              if (dd.refreshToken) localStorage.setItem('refreshToken', dd.refreshToken);
-              token = dd.accessToken;
-              return true;
-            }
-          } else if ((refreshResp as any)?.status === 401) {
-            // Cookie-based refresh also failed with 401
-            localStorage.removeItem('accessToken');
-            localStorage.removeItem('refreshToken');
-          }
-        } catch (e) {
-          // ignore cookie-refresh failures
-        }
-      } catch (e) {
-        // If error is 401, clear tokens
-        if ((e as any)?.status === 401) {
-          localStorage.removeItem('accessToken');
-          localStorage.removeItem('refreshToken');
-        }
-      }
-      return false;
+      // Body-token then cookie refresh, the HELPER check and socket re-auth
+      // all live in the shared session module.
+      const refreshed = await refreshSession();
+      if (!refreshed) return false;
+      token = refreshed;
+      return true;
     };
 
     if (!token) {
@@ -172,42 +95,19 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         isCheckingRef.current = false;
         return;
       }
+      // refreshSession only keeps HELPER tokens
       const ok = await attemptRefresh();
       if (!ok) {
         setIsLoading(false);
         isCheckingRef.current = false;
         return;
       }
-      
-      // After refresh, verify the new token is for HELPER
-      token = localStorage.getItem('accessToken');
-      if (token) {
-        try {
-          const payload = JSON.parse(atob(token.split('.')[1]));
-          if (payload.userType !== 'HELPER') {
-            localStorage.removeItem('accessToken');
-            localStorage.removeItem('refreshToken');
-            setIsLoading(false);
-            isCheckingRef.current = false;
-            return;
-          }
-        } catch (e) {
-          console.error('[AUTH] Failed to decode refreshed token:', e);
-          localStorage.removeItem('accessToken');
-          localStorage.removeItem('refreshToken');
-          setIsLoading(false);
-          isCheckingRef.current = false;
-          return;
-        }
-      }
     }
 
     try {
       const response = await apiClient.getMe();
       if (response.success && response.data) {
-        const raw = response.data as any;
-        const resolvedUser: User = raw.user ? raw.user : raw;
-        setUser(resolvedUser);
+        setUser(response.data);
 
         // Try to fetch helper profile. A 404 indicates the user has not
         // registered as a helper yet — treat that as "no helper" rather
@@ -216,8 +116,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           const helperResponse = await apiClient.getHelperProfile();
           
           if (helperResponse && helperResponse.success && helperResponse.data) {
-            const helperData = helperResponse.data as Helper;
-            setHelper(helperData);
+            setHelper(helperResponse.data);
           } else {
             // Keep helper as null so the onboarding page can handle
             // registration explicitly (do not auto-create).
@@ -231,82 +130,50 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         }
 
         // Ensure socket is connected when auth succeeds (e.g., on page reload)
-        try {
-          const tk = localStorage.getItem('accessToken');
-          if (tk) {
-            const { socketClient } = await import('@/core/socket/client');
-            socketClient.connect(tk);
-          }
-        } catch (e) {
-          // ignore
-        }
+        realtime.connect();
 
       } else { 
         const ok = await attemptRefresh();
-        if (!ok) {
-          localStorage.removeItem('accessToken');
-          localStorage.removeItem('refreshToken');
-        }
+        if (!ok) tokenManager.clear();
       }
     } catch (error) {
-      console.error('Auth check failed:', error);
+      log.error('Auth check failed', error);
       const ok = await attemptRefresh();
-      if (!ok) {
-        localStorage.removeItem('accessToken');
-        localStorage.removeItem('refreshToken');
-      }
+      if (!ok) tokenManager.clear();
     } finally {
       setIsLoading(false);
       isCheckingRef.current = false;
     }
   };
 
-  const login = async (accessToken: string, refreshToken: string) => {
+  const login = async (accessToken: string, refreshToken?: string) => {
     // Verify that the token is for a HELPER user
-    try {
-      const payload = JSON.parse(atob(accessToken.split('.')[1]));
-      if (payload.userType !== 'HELPER') {
-        console.error('[AUTH] Invalid user type:', payload.userType);
-        throw new Error('This account is not registered as a helper');
-      }
-    } catch (e) {
-      console.error('[AUTH] Token validation failed:', e);
-      throw e;
-    }
-    
-    localStorage.setItem('accessToken', accessToken);
-    localStorage.setItem('refreshToken', refreshToken);
-    // Mark that a refresh token / cookie was issued so subsequent reloads
-    // can decide whether to attempt cookie-based refreshs. This avoids
-    // noisy failed refresh POSTs when no cookie exists.
-    try {
-      localStorage.setItem('hasRefreshCookie', '1');
-      localStorage.removeItem('logoutBlock');
-    } catch (e) {
-      // ignore
+    if (!tokenManager.isHelperToken(accessToken)) {
+      log.error('Invalid user type', { userType: tokenManager.decode(accessToken)?.userType });
+      throw new Error('This account is not registered as a helper');
     }
 
+    // Also lifts the logout block on cookie refresh
+    tokenManager.setTokens(accessToken, refreshToken);
+
     // Ensure socket connects immediately after login so realtime status is accurate
-    try {
-      // dynamic import of socket client to avoid circular deps
-      const { socketClient } = await import('@/core/socket/client');
-      socketClient.connect(accessToken);
-    } catch (e) {
-      // ignore
-    }
+    realtime.connect(accessToken);
 
     await checkAuth();
   };
 
-  const logout = () => {
+  const logout = async () => {
+    // The next person on this device must not get this helper's pushes; the
+    // backend call still needs the session
+    await unsubscribePush();
     // Attempt to clear server-side httpOnly cookie if supported
     try { void apiClient.logout(); } catch {}
-    localStorage.removeItem('accessToken');
-    localStorage.removeItem('refreshToken');
-    localStorage.removeItem('hasRefreshCookie');
+    // Nothing cached for this session may leak into the next one
+    apiClient.invalidate();
+    queryClient.clear();
     // Block future automatic cookie refresh until explicit login
-    try { localStorage.setItem('logoutBlock', '1'); } catch {}
-    socketClient.disconnect();
+    tokenManager.clear({ blockRefresh: true });
+    realtime.disconnect();
     setUser(null);
     setHelper(null);
   };
@@ -1,44 +1,49 @@
-import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
-import { socketClient } from '@/core/socket/client';
-
-const SocketContext = createContext<{ socket: typeof socketClient | null; isConnected: boolean }>({ socket: null, isConnected: false });
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { realtime, type ConnectionStatus } from '@/core/socket/realtime';
+import { tokenManager } from '@/core/auth/tokenManager';
+import { tabLeader } from '@/core/tabs/leader';
+import { connectionQuality } from '@/core/socket/quality';
+
+interface SocketContextValue {
+  socket: typeof realtime;
+  status: ConnectionStatus;
+  isConnected: boolean;
+}
+
+const SocketContext = createContext<SocketContextValue>({
+  socket: realtime,
+  status: realtime.status,
+  isConnected: false,
+});
 
 export const SocketProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [isConnected, setIsConnected] = useState<boolean>(socketClient.isConnected());
-  const socketRef = useRef(socketClient);
+  const [status, setStatus] = useState<ConnectionStatus>(realtime.status);
 
   useEffect(() => {
-    const tryConnect = () => {
-      const token = (typeof window !== 'undefined') ? (localStorage.getItem('accessToken') || localStorage.getItem('token')) : null;
-      if (token) socketRef.current.connect(token);
-    };
+    // One tab holds the sockets for all of them (see core/socket/relay)
+    tabLeader.start();
+    connectionQuality.start();
 
-    // Attempt initial connect
-    tryConnect();
-
-    // Listen for localStorage changes (other tabs or post-login updates)
-    const onStorage = (e: StorageEvent) => {
-      if (e.key === 'accessToken' || e.key === 'token') {
-        tryConnect();
-      }
+    const tryConnect = (token: string | null) => {
+      if (token) realtime.connect(token);
     };
-    window.addEventListener('storage', onStorage);
 
-    const onConnect = () => setIsConnected(true);
-    const onDisconnect = () => setIsConnected(false);
+    // Attempt initial connect
+    tryConnect(tokenManager.getAccessToken());
 
-    socketRef.current.on('connect', onConnect);
-    socketRef.current.on('disconnect', onDisconnect);
+    // Connect once a token shows up (login here or in another tab)
+    const unsubscribe = tokenManager.subscribe(tryConnect);
+    const unsubscribeStatus = realtime.onStatusChange(setStatus);
+    setStatus(realtime.status);
 
     return () => {
-      window.removeEventListener('storage', onStorage);
-      socketRef.current.off('connect', onConnect);
-      socketRef.current.off('disconnect', onDisconnect);
+      unsubscribe();
+      unsubscribeStatus();
     };
   }, []);
 
   return (
-    <SocketContext.Provider value={{ socket: socketRef.current, isConnected }}>
+    <SocketContext.Provider value={{ socket: realtime, status, isConnected: status === 'online' }}>
       {children}
     </SocketContext.Provider>
   );
@@ -0,0 +1,161 @@
+import { queryOptions, useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { apiClient, type ApiResponse } from '@/core/api/client';
+import type { Page } from '@/types';
+import { queryKeys, type Period } from './keys';
+
+// react-query wrappers around ApiClient. Pages read server state through
+// these hooks; socket events keep them fresh (see useSocketQuerySync).
+// react-query's signal is passed through, so a query whose last observer
+// unmounts cancels its request (and any pending retry backoff).
+
+// ApiClient reports failures as `{ success: false }`; react-query needs a
+// thrown error to put the query in its error state.
+export class ApiQueryError extends Error {
+  status?: number;
+  errorCode?: string;
+
+  constructor(response: ApiResponse<unknown>) {
+    super(response.error || 'Request failed');
+    this.name = 'ApiQueryError';
+    this.status = response.status;
+    this.errorCode = response.errorCode;
+  }
+}
+
+async function unwrap<T>(request: Promise<ApiResponse<T>>): Promise<T> {
+  const response = await request;
+  if (!response.success) throw new ApiQueryError(response);
+  return response.data as T;
+}
+
+// Infinite lists page with the server's cursor. A legacy backend that
+// ignores the offset would hand back the first page again; stop there.
+function nextCursor<T extends { id: string }>(last: Page<T>, pages: Page<T>[]) {
+  if (!last.nextCursor) return null;
+  const seen = new Set(pages.slice(0, -1).flatMap((p) => p.items.map((i) => i.id)));
+  return pages.length > 1 && last.items.every((i) => seen.has(i.id)) ? null : last.nextCursor;
+}
+
+// Flatten the loaded pages, dropping repeats from overlapping pages.
+export function pageItems<T extends { id: string }>(pages: Page<T>[] | undefined): T[] {
+  const seen = new Set<string>();
+  return (pages ?? []).flatMap((p) => p.items).filter((item) => !seen.has(item.id) && !!seen.add(item.id));
+}
+
+// Services. The option builders are shared with the reconnect resync
+// (useSocketQuerySync), which fetches outside any component.
+
+export const activeServiceQuery = () =>
+  queryOptions({
+    queryKey: queryKeys.services.active(),
+    queryFn: ({ signal }) => unwrap(apiClient.getActiveService({ signal })),
+  });
+
+export const pendingRequestsQuery = () =>
+  queryOptions({
+    queryKey: queryKeys.services.pending(),
+    queryFn: ({ signal }) => unwrap(apiClient.getPendingRequests({ signal })),
+    staleTime: 0,
+  });
+
+export const serviceQuery = (serviceId: string) =>
+  queryOptions({
+    queryKey: queryKeys.services.detail(serviceId),
+    queryFn: ({ signal }) => unwrap(apiClient.getService(serviceId, { signal })),
+    staleTime: 5_000,
+  });
+
+export const useActiveService = (enabled = true) => useQuery({ ...activeServiceQuery(), enabled });
+
+export const usePendingRequests = (enabled = true) => useQuery({ ...pendingRequestsQuery(), enabled });
+
+export const useService = (serviceId: string | undefined) =>
+  useQuery({ ...serviceQuery(serviceId ?? ''), enabled: !!serviceId });
+
+export const useServiceHistory = () =>
+  useInfiniteQuery({
+    queryKey: queryKeys.services.history(),
+    queryFn: ({ pageParam, signal }) => unwrap(apiClient.getServiceHistory({ cursor: pageParam }, { signal })),
+    initialPageParam: null as string | null,
+    getNextPageParam: nextCursor,
+  });
+
+// Earnings
+
+export const useEarningsSummary = (enabled = true) =>
+  useQuery({
+    queryKey: queryKeys.earnings.summary(),
+    queryFn: ({ signal }) => unwrap(apiClient.getEarnings({ signal })),
+    enabled,
+  });
+
+export const useHelperEarnings = (startDate?: string, endDate?: string) =>
+  useQuery({
+    queryKey: queryKeys.earnings.range(startDate, endDate),
+    queryFn: ({ signal }) => unwrap(apiClient.getHelperEarnings(startDate, endDate, { signal })),
+  });
+
+// Analytics
+
+export const useHoursOnline = (enabled = true) =>
+  useQuery({
+    queryKey: queryKeys.analytics.hoursOnline(),
+    queryFn: ({ signal }) => unwrap(apiClient.getHelperHoursOnline({ signal })),
+    enabled,
+  });
+
+export const useServiceBreakdown = (enabled = true) =>
+  useQuery({
+    queryKey: queryKeys.analytics.serviceBreakdown(),
+    queryFn: ({ signal }) => unwrap(apiClient.getHelperServiceBreakdown({ signal })),
+    enabled,
+  });
+
+export const useRatingStats = () =>
+  useQuery({
+    queryKey: queryKeys.analytics.ratingStats(),
+    queryFn: ({ signal }) => unwrap(apiClient.getHelperRatingStats({ signal })),
+  });
+
+export const useEarningsTrends = (period: Period, limit = 30) =>
+  useQuery({
+    queryKey: queryKeys.analytics.earningsTrends(period, limit),
+    queryFn: ({ signal }) => unwrap(apiClient.getEarningsTrends(period, limit, { signal })),
+  });
+
+export const usePeakHours = () =>
+  useQuery({
+    queryKey: queryKeys.analytics.peakHours(),
+    queryFn: ({ signal }) => unwrap(apiClient.getHelperPeakHours({ signal })),
+  });
+
+export const useServiceTypeBreakdown = () =>
+  useQuery({
+    queryKey: queryKeys.analytics.serviceTypes(),
+    queryFn: ({ signal }) => unwrap(apiClient.getHelperServiceTypeBreakdown({ signal })),
+  });
+
+export const useSatisfactionTrends = (period: Period) =>
+  useQuery({
+    queryKey: queryKeys.analytics.satisfaction(period),
+    queryFn: ({ signal }) => unwrap(apiClient.getHelperSatisfactionTrends(period, { signal })),
+  });
+
+// Notifications
+
+export const useNotifications = (enabled = true) =>
+  useInfiniteQuery({
+    queryKey: queryKeys.notifications.list(),
+    queryFn: ({ pageParam, signal }) => unwrap(apiClient.getNotifications({ cursor: pageParam }, { signal })),
+    initialPageParam: null as string | null,
+    getNextPageParam: nextCursor,
+    enabled,
+  });
+
+export const useUnreadNotificationCount = () =>
+  useQuery({
+    queryKey: queryKeys.notifications.unreadCount(),
+    queryFn: ({ signal }) => unwrap(apiClient.getUnreadNotificationCount({ signal })),
+    // The gateway does not push notification events yet
+    refetchInterval: 30_000,
+  });
@@ -0,0 +1,37 @@
+// Query-key scheme for react-query. Keys are hierarchical so a whole family
+// can be invalidated at once (e.g. `queryKeys.services.all`).
+
+export type Period = 'daily' | 'weekly' | 'monthly';
+
+export const queryKeys = {
+  services: {
+    all: ['services'] as const,
+    active: () => ['services', 'active'] as const,
+    pending: () => ['services', 'pending'] as const,
+    details: () => ['services', 'detail'] as const,
+    detail: (serviceId: string) => ['services', 'detail', serviceId] as const,
+    history: () => ['services', 'history'] as const,
+    rating: (serviceId: string) => ['services', 'rating', serviceId] as const,
+  },
+  earnings: {
+    all: ['earnings'] as const,
+    summary: () => ['earnings', 'summary'] as const,
+    range: (startDate?: string, endDate?: string) => ['earnings', 'range', startDate ?? null, endDate ?? null] as const,
+  },
+  analytics: {
+    all: ['analytics'] as const,
+    hoursOnline: () => ['analytics', 'hours-online'] as const,
+    serviceBreakdown: () => ['analytics', 'service-breakdown'] as const,
+    ratingStats: () => ['analytics', 'rating-stats'] as const,
+    earningsTrends: (period: Period, limit: number) => ['analytics', 'earnings-trends', period, limit] as const,
+    peakHours: () => ['analytics', 'peak-hours'] as const,
+    serviceTypes: () => ['analytics', 'service-types'] as const,
+    satisfaction: (period: Period) => ['analytics', 'satisfaction', period] as const,
+  },
+  notifications: {
+    all: ['notifications'] as const,
+    list: () => ['notifications', 'list'] as const,
+    unreadCount: () => ['notifications', 'unread-count'] as const,
+    preferences: () => ['notifications', 'preferences'] as const,
+  },
+} as const;
@@ -0,0 +1,17 @@
+import { QueryClient } from '@tanstack/react-query';
+
+// Shared QueryClient. The HTTP transport already retries and caches per
+// endpoint (see core/api/policies), so react-query does not retry on top
+// of it; freshness is driven by socket events (see useSocketQuerySync).
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+      staleTime: 30_000,
+      refetchOnWindowFocus: false,
+    },
+    mutations: {
+      retry: false,
+    },
+  },
+});
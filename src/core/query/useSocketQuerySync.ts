@@ -0,0 +1,172 @@
+import { useEffect } from 'react';
+import { useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/core/api/client';
+import { realtime } from '@/core/socket/realtime';
+import type { ServiceEvent } from '@/core/socket/events';
+import { createLogger } from '@/core/logging/logger';
+import { useToast } from '@/hooks/use-toast';
+import type { Service } from '@/types';
+import { activeServiceQuery, pendingRequestsQuery, serviceQuery } from './hooks';
+import { queryKeys } from './keys';
+
+const log = createLogger('ws');
+
+// Keeps react-query in step with the realtime gateway: socket events patch or
+// invalidate the matching queries instead of pages polling or refetching by
+// hand. The transport has its own short-lived cache (core/api/policies), so
+// it is dropped for the same endpoints first; otherwise a refetch could be
+// answered from it.
+
+const serviceIdOf = (data: ServiceEvent | undefined) => data?.serviceId || data?.service?.id;
+
+function refreshService(queryClient: QueryClient, serviceId?: string) {
+  apiClient.invalidate('/services/active');
+  void queryClient.invalidateQueries({ queryKey: queryKeys.services.active() });
+  if (serviceId) {
+    apiClient.invalidate(`/services/${serviceId}`);
+    void queryClient.invalidateQueries({ queryKey: queryKeys.services.detail(serviceId) });
+  }
+}
+
+function refreshEarnings(queryClient: QueryClient) {
+  apiClient.invalidate('/services/history');
+  apiClient.invalidate('/helpers/earnings');
+  apiClient.invalidate(/^\/analytics\//);
+  void queryClient.invalidateQueries({ queryKey: queryKeys.services.history() });
+  void queryClient.invalidateQueries({ queryKey: queryKeys.earnings.all });
+  void queryClient.invalidateQueries({ queryKey: queryKeys.analytics.all });
+}
+
+// Events emitted while the socket was down are lost, so after a reconnect
+// the state they would have changed is fetched again: the active job (and
+// its room), open offers (shown by the dashboard from the pending query) and
+// jobs still waiting for payment. Returns what changed, for the user.
+async function resync(queryClient: QueryClient): Promise<string[]> {
+  const before = queryClient.getQueryData<Service | null>(queryKeys.services.active()) ?? null;
+  const unpaid = queryClient
+    .getQueriesData<Service>({ queryKey: queryKeys.services.details() })
+    .map(([, service]) => service)
+    .filter((s): s is Service => !!s && s.status === 'COMPLETED' && s.paymentStatus !== 'COMPLETED');
+
+  apiClient.invalidate('/services/active');
+  apiClient.invalidate('/services/pending');
+  const [active, pending] = await Promise.all([
+    queryClient.fetchQuery({ ...activeServiceQuery(), staleTime: 0 }),
+    queryClient.fetchQuery(pendingRequestsQuery()),
+  ]);
+  realtime.gateway.watchService(active?.id ?? null);
+
+  // The job we had may have ended, and a finished one may have been paid
+  const toCheck = new Map(unpaid.map((s) => [s.id, s]));
+  if (before && before.id !== active?.id) toCheck.set(before.id, before);
+  const checked = await Promise.all(
+    [...toCheck.keys()].map((serviceId) => {
+      apiClient.invalidate(`/services/${serviceId}`);
+      return queryClient.fetchQuery({ ...serviceQuery(serviceId), staleTime: 0 }).catch(() => null);
+    })
+  );
+
+  const changes: string[] = [];
+  checked.forEach((service) => {
+    const previous = service && toCheck.get(service.id);
+    if (!service || !previous) return;
+    if (service.status === 'CANCELLED' && previous.status !== 'CANCELLED') changes.push('your job was cancelled');
+    else if (service.status === 'COMPLETED' && previous.status !== 'COMPLETED') changes.push('your job was completed');
+    else if (service.paymentStatus === 'COMPLETED' && previous.paymentStatus !== 'COMPLETED') changes.push('payment received');
+  });
+  if (active && active.id !== before?.id) changes.push('you have an active job');
+  if (changes.length) refreshEarnings(queryClient);
+  if (pending.length) changes.push(pending.length === 1 ? '1 request is waiting' : `${pending.length} requests are waiting`);
+  return changes;
+}
+
+export const useSocketQuerySync = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    // The first connect of a session has nothing to catch up on. A
+    // disconnect we asked for (logout) starts a new session.
+    let connectedBefore = realtime.gateway.isConnected();
+    const offDisconnect = realtime.gateway.on('disconnect', (reason) => {
+      if (reason === 'io client disconnect') connectedBefore = false;
+    });
+    const offConnect = realtime.gateway.on('connect', () => {
+      if (!connectedBefore) {
+        connectedBefore = true;
+        return;
+      }
+      resync(queryClient).then(
+        (changes) => {
+          const summary = changes.join(', ');
+          toast({
+            title: 'Reconnected, state refreshed',
+            description: summary ? summary[0].toUpperCase() + summary.slice(1) + '.' : 'Nothing changed while you were offline.',
+          });
+        },
+        (error) => log.warn('Resync after reconnect failed', error)
+      );
+    });
+    return () => {
+      offDisconnect();
+      offConnect();
+    };
+  }, [queryClient, toast]);
+
+  useEffect(() => {
+    const handleUpdated = (data?: ServiceEvent) => {
+      const serviceId = serviceIdOf(data);
+      // Patch what we already know so the UI reacts before the refetch lands
+      if (serviceId && data?.service) {
+        queryClient.setQueryData<Service>(queryKeys.services.detail(serviceId), (prev) =>
+          prev ? { ...prev, ...data.service } : prev
+        );
+      }
+      refreshService(queryClient, serviceId);
+    };
+
+    // A job that has ended has no room worth following
+    const leaveRoom = (serviceId?: string) => {
+      if (!serviceId || serviceId === realtime.gateway.watchedService) realtime.gateway.watchService(null);
+    };
+
+    const handleCancelled = (data?: ServiceEvent) => {
+      const serviceId = serviceIdOf(data);
+      leaveRoom(serviceId);
+      queryClient.setQueryData<Service | null>(queryKeys.services.active(), (prev) =>
+        prev && (!serviceId || prev.id === serviceId) ? null : prev
+      );
+      refreshService(queryClient, serviceId);
+      refreshEarnings(queryClient);
+    };
+
+    const handleCompleted = (data?: ServiceEvent) => {
+      leaveRoom(serviceIdOf(data));
+      refreshService(queryClient, serviceIdOf(data));
+      refreshEarnings(queryClient);
+    };
+
+    const handlePaymentCompleted = (data?: ServiceEvent) => {
+      const serviceId = serviceIdOf(data);
+      if (serviceId) {
+        queryClient.setQueryData<Service>(queryKeys.services.detail(serviceId), (prev) =>
+          prev ? { ...prev, paymentStatus: 'COMPLETED', paymentMethod: data?.paymentMethod ?? prev.paymentMethod } : prev
+        );
+      }
+      refreshService(queryClient, serviceId);
+      refreshEarnings(queryClient);
+    };
+
+    realtime.gateway.on('service:updated', handleUpdated);
+    realtime.gateway.on('service:cancelled', handleCancelled);
+    realtime.gateway.on('service:completed', handleCompleted);
+    realtime.gateway.on('payment:completed', handlePaymentCompleted);
+
+    return () => {
+      realtime.gateway.off('service:updated', handleUpdated);
+      realtime.gateway.off('service:cancelled', handleCancelled);
+      realtime.gateway.off('service:completed', handleCompleted);
+      realtime.gateway.off('payment:completed', handlePaymentCompleted);
+    };
+  }, [queryClient]);
+};
@@ -0,0 +1,142 @@
+import type { ChatMessage, ChatMessageType, Service } from '@/types';
+
+// Every socket event the app and the server exchange, per namespace and
+// direction, with its payload. `on`, `off` and `emit` on the realtime manager
+// (./realtime) only accept names listed here, and the mock backend's
+// broadcasts (core/mock) are checked against them too. An event the server
+// sends that is not listed is logged in development.
+//
+// Adding an event: add it to the interface and, for inbound events, to the
+// matching name list at the bottom.
+
+// Fired by the manager itself rather than by the server
+export interface LifecycleEvents {
+  connect: undefined;
+  disconnect: string;
+}
+
+export interface ServiceEvent {
+  serviceId?: string;
+  service?: Partial<Service> & { id?: string };
+  paymentStatus?: Service['paymentStatus'];
+  paymentMethod?: string;
+  amount?: number;
+}
+
+export interface AuthInvalidEvent {
+  reason?: string;
+  message?: string;
+}
+
+export interface AuthUpdateAck {
+  success?: boolean;
+  userId?: string;
+}
+
+// /realtime
+
+export interface GatewayInbound extends LifecycleEvents {
+  'service:request': { service?: Service; responseDeadline?: number; expiresInMs?: number };
+  'service:updated': ServiceEvent;
+  'service:cancelled': ServiceEvent;
+  // An offer we were sent went to another helper
+  'service:taken': ServiceEvent;
+  'service:completed': ServiceEvent;
+  'payment:completed': ServiceEvent;
+  'patient:location': { serviceId: string; lat: number; lng: number };
+  'auth:rotated': { accessToken?: string };
+  'auth:invalid': AuthInvalidEvent;
+  whoami: { userId?: string };
+}
+
+export interface LocationUpdate {
+  lat: number;
+  lng: number;
+  accuracy?: number | null;
+  timestamp?: number;
+  serviceId?: string;
+}
+
+export interface GatewayOutbound {
+  'join:user': { userId: string };
+  'join:service': { serviceId: string };
+  'leave:service': { serviceId: string };
+  'auth:update': { token: string };
+  'helper:location:update': LocationUpdate;
+  'helper:availability:update': { helperId: string; isAvailable: boolean };
+  'helper:pause:update': { helperId: string; pausedUntil: string | null };
+  // Answered through the ack; see ./quality
+  'latency:ping': { sentAt: number };
+}
+
+// /chat
+
+export interface TypingEvent {
+  userId: string;
+  serviceId?: string;
+}
+
+export interface ChatInbound extends LifecycleEvents {
+  // Broadcast to the service room
+  'message:received': ChatMessage;
+  // Sent to the recipient directly; older servers send the bare message
+  'message:new': ChatMessage | { serviceId: string; message: ChatMessage };
+  'message:read': { serviceId?: string; messageId?: string };
+  'messages:read': { serviceId?: string; userId?: string };
+  'user:typing': TypingEvent;
+  'user:stopped-typing': TypingEvent;
+  'auth:invalid': AuthInvalidEvent;
+}
+
+export interface ChatSendPayload {
+  serviceId: string;
+  senderId?: string;
+  senderType?: 'PATIENT' | 'HELPER';
+  messageType: ChatMessageType;
+  message?: string;
+  fileUrl?: string;
+  fileName?: string;
+}
+
+export interface ChatOutbound {
+  'join:service': { serviceId: string };
+  'leave:service': { serviceId: string };
+  'send:message': ChatSendPayload;
+  'messages:mark-read': { serviceId: string; userId: string };
+  'typing:start': { serviceId: string; userId: string; userType: 'HELPER' };
+  'typing:stop': { serviceId: string; userId: string };
+  'auth:update': { token: string };
+}
+
+export type EventName<Map> = keyof Map & string;
+
+// Runtime copies of the inbound names, so unknown events can be spotted.
+// `Record` makes the compiler flag any event missing here.
+const names = <Map>(events: Record<EventName<Map>, true>): ReadonlySet<string> => new Set(Object.keys(events));
+
+export const GATEWAY_INBOUND_EVENTS = names<GatewayInbound>({
+  connect: true,
+  disconnect: true,
+  'service:request': true,
+  'service:updated': true,
+  'service:cancelled': true,
+  'service:taken': true,
+  'service:completed': true,
+  'payment:completed': true,
+  'patient:location': true,
+  'auth:rotated': true,
+  'auth:invalid': true,
+  whoami: true,
+});
+
+export const CHAT_INBOUND_EVENTS = names<ChatInbound>({
+  connect: true,
+  disconnect: true,
+  'message:received': true,
+  'message:new': true,
+  'message:read': true,
+  'messages:read': true,
+  'user:typing': true,
+  'user:stopped-typing': true,
+  'auth:invalid': true,
+});
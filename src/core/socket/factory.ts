@@ -0,0 +1,15 @@
+import { io, type ManagerOptions, type Socket, type SocketOptions } from 'socket.io-client';
+
+// The realtime manager (./realtime) opens its connections through here
+// rather than calling `io` directly, so the mock backend (core/mock) can
+// hand it in-memory sockets instead.
+
+export type SocketFactory = (url: string, options: Partial<ManagerOptions & SocketOptions>) => Socket;
+
+let factory: SocketFactory = io;
+
+export const openSocket: SocketFactory = (url, options) => factory(url, options);
+
+export function setSocketFactory(next: SocketFactory) {
+  factory = next;
+}
@@ -0,0 +1,198 @@
+import { createLogger } from '@/core/logging/logger';
+import { realtime, type ConnectionStatus } from './realtime';
+
+// How healthy the /realtime connection has been lately. While online we
+// ping the gateway (`latency:ping`, answered through the ack) and combine
+// the round trips with how often the socket dropped and how long it stayed
+// down into a 0-100 score. The Navbar shows it as signal bars, the
+// diagnostics bundle carries it, and the connection banner asks a helper on
+// a poor connection to move or switch networks.
+
+export type QualityLevel = 'unknown' | 'offline' | 'poor' | 'fair' | 'good';
+
+export interface ConnectionQuality {
+  level: QualityLevel;
+  // Null until we have been online
+  score: number | null;
+  // Median of the recent round trips
+  latencyMs: number | null;
+  // Within the scoring window
+  reconnects: number;
+  offlineMs: number;
+}
+
+type Listener = (quality: ConnectionQuality) => void;
+
+const PING_INTERVAL_MS = 15_000;
+// An unanswered ping counts as a round trip this long
+const PING_TIMEOUT_MS = 5_000;
+const LATENCY_SAMPLES = 8;
+// Drops and downtime older than this no longer count
+const WINDOW_MS = 10 * 60_000;
+
+const GOOD_SCORE = 75;
+const FAIR_SCORE = 45;
+
+const OUTAGE_STATUSES: ReadonlySet<ConnectionStatus> = new Set(['degraded', 'offline', 'auth-failed']);
+
+const log = createLogger('ws');
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+class QualityMonitor {
+  private status: ConnectionStatus = 'idle';
+  private latencies: number[] = [];
+  private reconnects: number[] = [];
+  private outages: { from: number; to: number | null }[] = [];
+  private beenOnline = false;
+  // Servers without `latency:ping` never answer; their silence is not a
+  // slow connection.
+  private pongSeen = false;
+  private pingTimer: number | null = null;
+  private listeners = new Set<Listener>();
+  private current: ConnectionQuality = { level: 'unknown', score: null, latencyMs: null, reconnects: 0, offlineMs: 0 };
+  private started = false;
+
+  start() {
+    if (this.started) return;
+    this.started = true;
+    realtime.onStatusChange((status) => this.onStatus(status));
+    this.onStatus(realtime.status);
+  }
+
+  get snapshot() {
+    return this.current;
+  }
+
+  // Up to date as of now; downtime keeps growing between status changes
+  report() {
+    this.update();
+    return this.current;
+  }
+
+  subscribe(listener: Listener) {
+    this.listeners.add(listener);
+    listener(this.current);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private onStatus(status: ConnectionStatus) {
+    const previous = this.status;
+    this.status = status;
+    const now = Date.now();
+
+    const openOutage = this.outages[this.outages.length - 1];
+    if (OUTAGE_STATUSES.has(status)) {
+      if (this.beenOnline && (!openOutage || openOutage.to !== null)) this.outages.push({ from: now, to: null });
+    } else if (openOutage && openOutage.to === null) {
+      openOutage.to = now;
+    }
+
+    if (status === 'online') {
+      if (this.beenOnline && previous !== 'idle') this.reconnects.push(now);
+      this.beenOnline = true;
+      this.startPinging();
+    } else {
+      this.stopPinging();
+    }
+    if (status === 'idle') this.reset();
+    this.update();
+  }
+
+  private startPinging() {
+    if (this.pingTimer !== null) return;
+    this.ping();
+    this.pingTimer = window.setInterval(() => this.ping(), PING_INTERVAL_MS);
+  }
+
+  private stopPinging() {
+    if (this.pingTimer === null) return;
+    window.clearInterval(this.pingTimer);
+    this.pingTimer = null;
+  }
+
+  private ping() {
+    const sentAt = Date.now();
+    let settled = false;
+    const timeout = window.setTimeout(() => {
+      settled = true;
+      if (this.pongSeen && this.status === 'online') this.record(PING_TIMEOUT_MS);
+      else this.update();
+    }, PING_TIMEOUT_MS);
+
+    const sent = realtime.gateway.emit('latency:ping', { sentAt }, () => {
+      if (settled) return;
+      settled = true;
+      window.clearTimeout(timeout);
+      this.pongSeen = true;
+      this.record(Date.now() - sentAt);
+    });
+    if (!sent) {
+      settled = true;
+      window.clearTimeout(timeout);
+    }
+  }
+
+  private record(latencyMs: number) {
+    this.latencies.push(latencyMs);
+    if (this.latencies.length > LATENCY_SAMPLES) this.latencies.shift();
+    this.update();
+  }
+
+  private reset() {
+    this.latencies = [];
+    this.reconnects = [];
+    this.outages = [];
+    this.beenOnline = false;
+  }
+
+  private update() {
+    const now = Date.now();
+    const since = now - WINDOW_MS;
+    this.reconnects = this.reconnects.filter((at) => at >= since);
+    this.outages = this.outages.filter((o) => o.to === null || o.to >= since);
+
+    const offlineMs = this.outages.reduce((sum, o) => sum + ((o.to ?? now) - Math.max(o.from, since)), 0);
+    const latencyMs = this.latencies.length ? median(this.latencies) : null;
+
+    let score: number | null = null;
+    if (this.beenOnline) {
+      // Up to 40 points for latency (nothing under 200ms, all of it by
+      // 1.4s), 30 for drops and 30 for the share of the window spent down.
+      const latencyPenalty = latencyMs === null ? 0 : clamp((latencyMs - 200) / 30, 0, 40);
+      const reconnectPenalty = Math.min(30, this.reconnects.length * 10);
+      const offlinePenalty = Math.min(30, (offlineMs / WINDOW_MS) * 300);
+      score = Math.round(100 - latencyPenalty - reconnectPenalty - offlinePenalty);
+    }
+
+    let level: QualityLevel;
+    if (this.status === 'idle' || score === null) level = 'unknown';
+    else if (this.status !== 'online') level = 'offline';
+    else level = score >= GOOD_SCORE ? 'good' : score >= FAIR_SCORE ? 'fair' : 'poor';
+
+    const next: ConnectionQuality = { level, score, latencyMs, reconnects: this.reconnects.length, offlineMs };
+    const prev = this.current;
+    if (
+      prev.level === next.level &&
+      prev.score === next.score &&
+      prev.latencyMs === next.latencyMs &&
+      prev.reconnects === next.reconnects &&
+      prev.offlineMs === next.offlineMs
+    ) {
+      return;
+    }
+    if (prev.level !== next.level) log.info(`Connection quality ${next.level}`, next);
+    this.current = next;
+    this.listeners.forEach((l) => l(next));
+  }
+}
+
+export const connectionQuality = new QualityMonitor();
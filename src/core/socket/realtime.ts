@@ -0,0 +1,541 @@
+import type { ManagerOptions, Socket, SocketOptions } from 'socket.io-client';
+import type { ChatMessage } from '@/types';
+import { env } from '@/core/config/env';
+import { tokenManager } from '@/core/auth/tokenManager';
+import { refreshSession } from '@/core/api/session';
+import { createLogger, logger, type NamespacedLogger } from '@/core/logging/logger';
+import { openSocket } from './factory';
+import { SocketRelay } from './relay';
+import {
+  CHAT_INBOUND_EVENTS,
+  GATEWAY_INBOUND_EVENTS,
+  type AuthInvalidEvent,
+  type AuthUpdateAck,
+  type ChatInbound,
+  type ChatOutbound,
+  type ChatSendPayload,
+  type EventName,
+  type GatewayInbound,
+  type GatewayOutbound,
+} from './events';
+
+// The app's one socket layer. `realtime` owns a connection per server
+// namespace — `gateway` (/realtime: requests, service and payment updates)
+// and `chat` (/chat) — and gives both the same things: URL, token and
+// re-auth from the token manager, listener bookkeeping that survives
+// reconnects, the cross-tab relay (./relay), `auth:invalid` handling and a
+// connection status. Event names and payloads are typed by ./events.
+//
+//   const off = realtime.gateway.on('service:request', ({ service }) => ...);
+//   realtime.gateway.emit('helper:availability:update', { helperId, isAvailable });
+
+// idle: not asked to connect. degraded: dropped or refused, retrying with
+// backoff. offline: the browser has no network; retried once it does.
+// auth-failed: the server rejected the token; retried once it is refreshed.
+export type ConnectionStatus = 'idle' | 'connecting' | 'online' | 'degraded' | 'offline' | 'auth-failed';
+type NamespaceName = 'realtime' | 'chat';
+type SocketConfig = Partial<ManagerOptions & SocketOptions>;
+type Listener = (...args: unknown[]) => void;
+type StatusListener = (status: ConnectionStatus) => void;
+type Ack = (response: unknown) => void;
+type AuthInvalidHandler = () => void;
+
+// The job room the gateway should be in, kept across reloads
+const ACTIVE_SERVICE_KEY = 'activeServiceId';
+
+// Reconnect delays: exponential from 1s, capped at 30s, with jitter so a
+// server restart is not met by every helper at the same instant. There is
+// no attempt limit; a helper on shift should never have to reload.
+const RETRY_BASE_MS = 1_000;
+const RETRY_MAX_MS = 30_000;
+
+const retryDelay = (attempt: number) => {
+  const ceiling = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
+// A rejected handshake (expired or revoked token) is not worth retrying as is
+const isAuthError = (error: Error) => /auth|token|jwt|unauthori[sz]ed|forbidden/i.test(error.message);
+
+const browserOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+class NamespaceSocket<In, Out> {
+  readonly name: NamespaceName;
+  protected readonly log: NamespacedLogger;
+  protected socket: Socket | null = null;
+  private config: SocketConfig;
+  private knownEvents: ReadonlySet<string>;
+  private onAuthInvalid: AuthInvalidHandler;
+  private listeners = new Map<string, Set<Listener>>();
+  private statusListeners = new Set<StatusListener>();
+  private currentStatus: ConnectionStatus = 'idle';
+  private attempts = 0;
+  private retryTimer: number | null = null;
+  // Whether the app asked for a connection; a tab that takes over as leader
+  // reopens the socket only if so.
+  private wanted = false;
+  // Only the leader tab holds the socket; other tabs go through the relay
+  private relay: SocketRelay;
+
+  constructor(
+    name: NamespaceName,
+    config: SocketConfig,
+    knownEvents: ReadonlySet<string>,
+    onAuthInvalid: AuthInvalidHandler
+  ) {
+    this.name = name;
+    this.config = config;
+    this.knownEvents = knownEvents;
+    this.onAuthInvalid = onAuthInvalid;
+    this.log = createLogger(name === 'chat' ? 'chat' : 'ws');
+    this.relay = new SocketRelay(name, {
+      becameLeader: () => {
+        this.setStatus('idle');
+        if (this.wanted) this.connect();
+      },
+      connectLocal: () => this.connect(),
+      emitLocal: (event, data, ack) => this.emitLocal(event, data, ack),
+      statusLocal: () => this.currentStatus,
+      leaderStatus: (status) => this.setStatus(status as ConnectionStatus),
+      dispatch: (event, args) => this.dispatch(event, args),
+    });
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.resume());
+      window.addEventListener('offline', () => {
+        if (this.wanted && !this.isConnected() && this.relay.isLeader) {
+          this.clearRetry();
+          this.setStatus('offline');
+        }
+      });
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible') this.resume();
+      });
+    }
+  }
+
+  get status() {
+    return this.currentStatus;
+  }
+
+  isConnected(): boolean {
+    if (!this.relay.isLeader) return this.relay.connected;
+    return this.socket?.connected ?? false;
+  }
+
+  // Defaults to the token manager's access token
+  connect(token?: string) {
+    const tokenToUse = token || tokenManager.getAccessToken();
+    if (!tokenToUse) {
+      this.log.warn('connect() called without an access token — skipping authenticated socket connection');
+      return;
+    }
+    // Connecting with an expired JWT only gets us rejected; the refresh
+    // scheduler renews it and SocketProvider connects with the new one
+    if (tokenManager.isExpired(tokenToUse)) {
+      this.log.warn('connect() token appears expired — not connecting');
+      return;
+    }
+
+    this.wanted = true;
+    if (!this.relay.isLeader) {
+      if (!this.relay.connected) this.setStatus('connecting');
+      this.relay.requestConnect();
+      return;
+    }
+
+    // `active` covers a socket that is still handshaking; token changes
+    // reach it through updateAuth instead.
+    if (this.socket && (this.socket.connected || this.socket.active)) return;
+
+    // A socket left over from a drop is reopened rather than replaced
+    if (this.socket) {
+      this.socket.auth = { token: tokenToUse };
+      this.retry();
+      return;
+    }
+
+    // The logger redacts the token itself
+    const url = `${env.socketUrl}/${this.name}`;
+    this.log.debug('Connecting', { url });
+    this.setStatus(browserOffline() ? 'offline' : 'connecting');
+    this.attempts = 0;
+
+    // Reconnection is ours (see `scheduleRetry`), not socket.io's
+    const socket = openSocket(url, { ...this.config, reconnection: false, auth: { token: tokenToUse } });
+    this.socket = socket;
+
+    // Listeners live here rather than on the socket, so they stay attached
+    // across reconnects, a new socket or a change of leader tab.
+    socket.onAny((event: string, ...args: unknown[]) => {
+      this.log.debug(`event recv ${event}`, args);
+      // The server and ./events disagree; worth knowing while developing
+      if (env.isDev && !this.knownEvents.has(event)) {
+        this.log.warn(`Unknown event ${event} on /${this.name}; add it to core/socket/events`, args);
+      }
+      this.relay.publish(event, args);
+      this.dispatch(event, args);
+    });
+
+    socket.on('connect', () => {
+      this.attempts = 0;
+      this.clearRetry();
+      logger.connection(this.name, 'connect', { socketId: socket.id });
+      this.onConnected?.(socket);
+      this.dispatch('connect', []);
+    });
+
+    socket.on('disconnect', (reason) => {
+      logger.connection(this.name, 'disconnect', { reason });
+      this.dispatch('disconnect', [reason]);
+      // Ours to decide: `disconnect()` was called
+      if (reason === 'io client disconnect') return;
+      this.scheduleRetry();
+    });
+
+    socket.on('connect_error', (error) => {
+      this.attempts += 1;
+      logger.connection(this.name, 'connect_error', { message: error.message, attempt: this.attempts });
+      if (isAuthError(error)) {
+        this.setStatus('auth-failed');
+        // A refreshed token reconnects through updateAuth
+        void refreshSession();
+        return;
+      }
+      this.scheduleRetry();
+    });
+
+    socket.on('auth:invalid', (data?: AuthInvalidEvent) => {
+      logger.connection(this.name, 'auth:invalid', { reason: data?.message || data?.reason });
+      this.onAuthInvalid();
+      this.setStatus('auth-failed');
+    });
+
+    this.attach?.(socket);
+  }
+
+  disconnect() {
+    this.wanted = false;
+    this.clearRetry();
+    const socket = this.socket;
+    this.socket = null;
+    socket?.disconnect();
+    this.setStatus('idle');
+  }
+
+  // Reconnect now instead of waiting out the backoff (the banner's "Retry")
+  retryNow() {
+    if (!this.wanted) return;
+    if (!this.relay.isLeader) {
+      this.relay.requestConnect();
+      return;
+    }
+    if (this.socket?.connected) return;
+    this.attempts = 0;
+    this.retry();
+  }
+
+  // Push a new access token to the live socket without reconnecting.
+  // Future reconnects use it as well.
+  updateAuth(token: string) {
+    if (!this.socket) return;
+    this.socket.auth = { token };
+    if (this.socket.connected) this.socket.emit('auth:update', { token });
+    else if (this.currentStatus === 'auth-failed') this.retryNow();
+  }
+
+  // Returns a function that removes the listener
+  on<K extends EventName<In>>(event: K, listener: (payload: In[K]) => void) {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener as Listener);
+    return () => this.off(event, listener);
+  }
+
+  // Without a listener, removes every listener for the event
+  off<K extends EventName<In>>(event: K, listener?: (payload: In[K]) => void) {
+    if (listener) this.listeners.get(event)?.delete(listener as Listener);
+    else this.listeners.delete(event);
+  }
+
+  // Emit on our socket, or through the leader tab's. False if it was dropped.
+  emit<K extends EventName<Out>>(event: K, data: Out[K], ack?: Ack) {
+    if (!this.relay.isLeader) {
+      this.relay.forwardEmit(event, data, ack);
+      return true;
+    }
+    return this.emitLocal(event, data, ack);
+  }
+
+  onStatusChange(listener: StatusListener) {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  // Leader only: the socket (re)connected
+  protected onConnected?(socket: Socket): void;
+
+  // Leader only: namespace-specific handlers on a new socket
+  protected attach?(socket: Socket): void;
+
+  // Back off and try again; while the browser is offline, wait for `online`
+  private scheduleRetry() {
+    this.clearRetry();
+    if (!this.wanted || !this.socket) return;
+    if (browserOffline()) {
+      this.setStatus('offline');
+      return;
+    }
+    this.setStatus('degraded');
+    const delay = retryDelay(this.attempts);
+    this.log.debug('Reconnecting', { inSeconds: Math.round(delay / 1000), attempt: this.attempts + 1 });
+    this.retryTimer = window.setTimeout(() => {
+      this.retryTimer = null;
+      this.retry();
+    }, delay);
+  }
+
+  private retry() {
+    this.clearRetry();
+    if (!this.socket || this.socket.connected || this.socket.active) return;
+    const token = tokenManager.getAccessToken();
+    if (token) this.socket.auth = { token };
+    this.socket.connect();
+  }
+
+  // Back online or back in view: skip the rest of the backoff
+  private resume() {
+    if (!this.wanted || this.isConnected()) return;
+    if (this.currentStatus === 'offline' || this.currentStatus === 'degraded') this.retryNow();
+  }
+
+  private clearRetry() {
+    if (this.retryTimer !== null) {
+      window.clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private emitLocal(event: string, data?: unknown, ack?: Ack) {
+    if (!this.socket?.connected) {
+      this.log.warn('Socket not connected. Event not sent', { event });
+      return false;
+    }
+    if (ack) this.socket.emit(event, data, ack);
+    else this.socket.emit(event, data);
+    return true;
+  }
+
+  // Events from our socket, or relayed from the leader's
+  private dispatch(event: string, args: unknown[]) {
+    if (event === 'connect') this.setStatus('online');
+    this.listeners.get(event)?.forEach((listener) => {
+      try {
+        listener(...args);
+      } catch (error) {
+        this.log.error(`Listener for ${event} failed`, error);
+      }
+    });
+  }
+
+  private setStatus(status: ConnectionStatus) {
+    if (status === this.currentStatus) return;
+    this.currentStatus = status;
+    this.relay.publishStatus(status);
+    this.statusListeners.forEach((l) => l(status));
+  }
+}
+
+class GatewaySocket extends NamespaceSocket<GatewayInbound, GatewayOutbound> {
+  // Follow a job's room (patient location, updates for that job), or leave
+  // it with null. Every (re)connect joins it again.
+  get watchedService() {
+    return localStorage.getItem(ACTIVE_SERVICE_KEY);
+  }
+
+  watchService(serviceId: string | null) {
+    const current = this.watchedService;
+    if (serviceId === current) return;
+    if (serviceId) localStorage.setItem(ACTIVE_SERVICE_KEY, serviceId);
+    else localStorage.removeItem(ACTIVE_SERVICE_KEY);
+    if (!this.isConnected()) return;
+    if (current) this.emit('leave:service', { serviceId: current });
+    if (serviceId) this.emit('join:service', { serviceId });
+  }
+
+  protected onConnected(socket: Socket) {
+    // Join user room for receiving service requests
+    const userId = tokenManager.userId();
+    if (userId) {
+      socket.emit('join:user', { userId });
+      this.log.debug('Joined user room', { userId });
+    }
+    const serviceId = this.watchedService;
+    if (serviceId) socket.emit('join:service', { serviceId });
+  }
+
+  protected attach(socket: Socket) {
+    // The token manager stores a rotated token and hands it back to every
+    // namespace through its subscription.
+    socket.on('auth:rotated', (data?: GatewayInbound['auth:rotated']) => {
+      if (data?.accessToken) {
+        this.log.info('Received rotated token from gateway');
+        tokenManager.setTokens(data.accessToken);
+      }
+    });
+
+    // An anonymous socket means handshake-time verification failed (e.g. an
+    // expired token); if a valid token turned up since (cookie refresh or
+    // rotation), re-auth in place once.
+    socket.on('whoami', (data?: GatewayInbound['whoami']) => {
+      this.log.debug('whoami response', data);
+      const token = tokenManager.getAccessToken();
+      if (!data?.userId?.startsWith('anon:') || !token) return;
+      socket.emit('auth:update', { token }, (ack?: AuthUpdateAck) => {
+        if (ack?.success) this.log.info('auth:update succeeded', { userId: ack.userId });
+        else this.log.warn('auth:update failed or token invalid', ack);
+      });
+    });
+  }
+}
+
+class ChatChannel extends NamespaceSocket<ChatInbound, ChatOutbound> {
+  private serviceId: string | null = null;
+
+  constructor(name: NamespaceName, config: SocketConfig, onAuthInvalid: AuthInvalidHandler) {
+    super(name, config, CHAT_INBOUND_EVENTS, onAuthInvalid);
+    // The room is joined again on every (re)connect, in this tab or the leader's
+    this.on('connect', () => {
+      if (this.serviceId) this.emit('join:service', { serviceId: this.serviceId });
+    });
+  }
+
+  joinService(serviceId: string) {
+    this.serviceId = serviceId;
+    if (this.isConnected()) this.emit('join:service', { serviceId });
+    this.log.debug('Joined service', { serviceId });
+  }
+
+  leaveService() {
+    if (!this.serviceId) return;
+    if (this.isConnected()) this.emit('leave:service', { serviceId: this.serviceId });
+    this.log.debug('Left service', { serviceId: this.serviceId });
+    this.serviceId = null;
+  }
+
+  sendMessage(data: ChatSendPayload) {
+    this.emit('send:message', {
+      ...data,
+      senderId: data.senderId || tokenManager.userId() || undefined,
+      senderType: data.senderType || 'HELPER',
+    });
+  }
+
+  onNewMessage(callback: (message: ChatInbound['message:received']) => void) {
+    const offRoom = this.on('message:received', callback);
+    // The direct event may wrap the message as { serviceId, message }
+    const offDirect = this.on('message:new', (payload) =>
+      callback(typeof payload.message === 'object' ? payload.message : (payload as ChatMessage))
+    );
+    return () => {
+      offRoom();
+      offDirect();
+    };
+  }
+
+  onMessagesRead(callback: (data: ChatInbound['messages:read']) => void) {
+    return this.on('messages:read', callback);
+  }
+
+  onTypingStart(callback: (data: { senderId: string }) => void) {
+    return this.on('user:typing', (data) => callback({ senderId: data.userId }));
+  }
+
+  onTypingStop(callback: (data: { senderId: string }) => void) {
+    return this.on('user:stopped-typing', (data) => callback({ senderId: data.userId }));
+  }
+
+  emitMarkAsRead(serviceId: string, userId: string) {
+    this.emit('messages:mark-read', { serviceId, userId });
+  }
+
+  emitTypingStart(serviceId: string) {
+    this.emit('typing:start', { serviceId, userId: tokenManager.userId() || '', userType: 'HELPER' });
+  }
+
+  emitTypingStop(serviceId: string) {
+    this.emit('typing:stop', { serviceId, userId: tokenManager.userId() || '' });
+  }
+
+  disconnect() {
+    this.leaveService();
+    super.disconnect();
+  }
+}
+
+class RealtimeManager {
+  readonly gateway: GatewaySocket;
+  readonly chat: ChatChannel;
+
+  constructor() {
+    const onAuthInvalid = () => this.handleAuthInvalid();
+    this.gateway = new GatewaySocket(
+      'realtime',
+      { transports: ['websocket'] },
+      GATEWAY_INBOUND_EVENTS,
+      onAuthInvalid
+    );
+    this.chat = new ChatChannel('chat', { transports: ['websocket', 'polling'] }, onAuthInvalid);
+
+    // Re-auth in place whenever the token manager gets a new access token
+    tokenManager.subscribe((token) => {
+      if (!token) return;
+      this.gateway.updateAuth(token);
+      this.chat.updateAuth(token);
+    });
+  }
+
+  // The app's connection status is the gateway's; chat is only open while a
+  // chat window is.
+  get status() {
+    return this.gateway.status;
+  }
+
+  onStatusChange(listener: (status: ConnectionStatus) => void) {
+    return this.gateway.onStatusChange(listener);
+  }
+
+  connect(token?: string) {
+    this.gateway.connect(token);
+  }
+
+  disconnect() {
+    this.gateway.disconnect();
+    this.chat.disconnect();
+  }
+
+  retryNow() {
+    this.gateway.retryNow();
+    this.chat.retryNow();
+  }
+
+  // Either namespace rejecting our token ends the session
+  private handleAuthInvalid() {
+    tokenManager.clear();
+    this.disconnect();
+    try {
+      if (window.location.pathname !== '/auth' && window.location.pathname !== '/login') {
+        window.location.href = '/auth';
+      }
+    } catch {
+      // ignore
+    }
+  }
+}
+
+export const realtime = new RealtimeManager();
@@ -0,0 +1,134 @@
+import { tabChannel, tabId } from '@/core/tabs/channel';
+import { tabLeader } from '@/core/tabs/leader';
+import type { ConnectionStatus } from './realtime';
+
+// Lets a socket client work in every tab while only the leader tab holds a
+// real connection (core/tabs/leader). The leader publishes what its socket
+// receives and runs emits forwarded by the other tabs; followers dispatch
+// the relayed events to their own listeners as if they had a socket.
+
+type Ack = (response: unknown) => void;
+
+export interface RelayHost {
+  // This tab just won the election; reopen the socket if the app wants one
+  becameLeader(): void;
+  // Leader: a follower wants the socket open
+  connectLocal(): void;
+  // Leader: emit on the real socket on a follower's behalf
+  emitLocal(event: string, data: unknown, ack?: Ack): void;
+  statusLocal(): ConnectionStatus;
+  // Follower: the leader's connection status changed
+  leaderStatus(status: ConnectionStatus): void;
+  // Follower: hand a relayed event to local listeners
+  dispatch(event: string, args: unknown[]): void;
+}
+
+interface RelayedEmit {
+  event: string;
+  data?: unknown;
+  ackId?: string;
+}
+
+const ACK_TIMEOUT_MS = 30_000;
+
+export class SocketRelay {
+  private name: string;
+  private host: RelayHost;
+  private leaderConnected = false;
+  private pendingAcks = new Map<string, Ack>();
+  private ackSeq = 0;
+
+  constructor(name: 'realtime' | 'chat', host: RelayHost) {
+    this.name = name;
+    this.host = host;
+
+    tabChannel.on(this.type('event'), (payload) => {
+      if (this.isLeader) return;
+      const { event, args } = payload as { event: string; args: unknown[] };
+      this.host.dispatch(event, args);
+    });
+    tabChannel.on(this.type('status'), (payload) => {
+      if (this.isLeader) return;
+      const { status } = payload as { status: ConnectionStatus };
+      this.setLeaderConnected(status === 'online');
+      this.host.leaderStatus(status);
+    });
+    tabChannel.on(this.type('emit'), (payload) => {
+      if (!this.isLeader) return;
+      const { event, data, ackId } = payload as RelayedEmit;
+      const ack = ackId ? (response: unknown) => tabChannel.post(this.type('ack'), { ackId, response }) : undefined;
+      this.host.emitLocal(event, data, ack);
+    });
+    tabChannel.on(this.type('ack'), (payload) => {
+      const { ackId, response } = payload as { ackId: string; response: unknown };
+      const ack = this.pendingAcks.get(ackId);
+      this.pendingAcks.delete(ackId);
+      ack?.(response);
+    });
+    tabChannel.on(this.type('connect'), () => {
+      if (this.isLeader) this.host.connectLocal();
+    });
+    tabChannel.on(this.type('sync'), () => {
+      if (this.isLeader) this.publishStatus(this.host.statusLocal());
+    });
+
+    tabLeader.onBecomeLeader(() => {
+      this.leaderConnected = false;
+      this.host.becameLeader();
+    });
+    // Ask whoever leads for its connection state
+    tabChannel.post(this.type('sync'));
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', () => {
+        // Another tab takes over and reconnects
+        if (this.isLeader) this.publishStatus('connecting');
+      });
+    }
+  }
+
+  get isLeader() {
+    return tabLeader.isLeader;
+  }
+
+  // Follower view of the leader's socket
+  get connected() {
+    return this.leaderConnected;
+  }
+
+  // Leader side
+
+  publish(event: string, args: unknown[]) {
+    if (this.isLeader) tabChannel.post(this.type('event'), { event, args });
+  }
+
+  publishStatus(status: ConnectionStatus) {
+    if (this.isLeader) tabChannel.post(this.type('status'), { status });
+  }
+
+  // Follower side
+
+  requestConnect() {
+    tabChannel.post(this.type('connect'));
+  }
+
+  forwardEmit(event: string, data?: unknown, ack?: Ack) {
+    const message: RelayedEmit = { event, data };
+    if (ack) {
+      const ackId = `${tabId}:${++this.ackSeq}`;
+      this.pendingAcks.set(ackId, ack);
+      setTimeout(() => this.pendingAcks.delete(ackId), ACK_TIMEOUT_MS);
+      message.ackId = ackId;
+    }
+    tabChannel.post(this.type('emit'), message);
+  }
+
+  private setLeaderConnected(connected: boolean) {
+    if (connected === this.leaderConnected) return;
+    this.leaderConnected = connected;
+    this.host.dispatch(connected ? 'connect' : 'disconnect', connected ? [] : ['leader tab disconnected']);
+  }
+
+  private type(kind: string) {
+    return `${this.name}:${kind}`;
+  }
+}
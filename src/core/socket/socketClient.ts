@@ -1,46 +0,0 @@
-import { io, Socket } from 'socket.io-client';
-import { WS_URL } from '../config/constants';
-
-let socket: Socket | null = null;
-
-export const connectSocket = (token: string): Socket => {
-  if (socket?.connected) {
-    return socket;
-  }
-
-  socket = io(WS_URL, {
-    auth: { token },
-    reconnection: true,
-    reconnectionDelay: 1000,
-    reconnectionAttempts: 5,
-  });
-
-  socket.on('connect', () => {
-  });
-
-  socket.on('disconnect', () => {
-  });
-
-  socket.on('connect_error', (error) => {
-    console.error('Socket connection error:', error);
-  });
-
-  return socket;
-};
-
-export const disconnectSocket = () => {
-  if (socket) {
-    socket.disconnect();
-    socket = null;
-  }
-};
-
-export const getSocket = (): Socket | null => socket;
-
-export const emitEvent = (event: string, data: any) => {
-  if (socket?.connected) {
-    socket.emit(event, data);
-  } else {
-    console.warn('Socket not connected. Event not sent:', event);
-  }
-};
@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+import { connectionQuality, type ConnectionQuality } from './quality';
+
+// Live view of the /realtime connection quality (./quality).
+export const useConnectionQuality = () => {
+  const [quality, setQuality] = useState<ConnectionQuality>(connectionQuality.snapshot);
+
+  useEffect(() => connectionQuality.subscribe(setQuality), []);
+
+  return quality;
+};
@@ -0,0 +1,110 @@
+import { apiClient } from '@/core/api/client';
+import { createLogger } from '@/core/logging/logger';
+import { registerServiceWorker, serviceWorkerSupported } from './registration';
+
+// Web Push for this device: the browser's push subscription, registered with
+// the backend so service requests, chat messages and payment confirmations
+// reach the helper even when the app is closed. The service worker turns
+// each push into a notification that links back into the app.
+
+export interface PushPayload {
+  type: 'service:request' | 'chat:message' | 'payment:completed';
+  serviceId: string;
+  title?: string;
+  body?: string;
+}
+
+export interface PushResult {
+  success: boolean;
+  error?: string;
+}
+
+const log = createLogger('app');
+
+export const pushSupported = () =>
+  serviceWorkerSupported() && typeof PushManager !== 'undefined' && typeof Notification !== 'undefined';
+
+// VAPID keys come base64url-encoded; the push manager wants the raw bytes
+function keyBytes(base64url: string) {
+  const base64 = (base64url + '='.repeat((4 - (base64url.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+// Subscribing needs an active worker, not just a registered one
+async function activeRegistration() {
+  if (!(await registerServiceWorker())) return null;
+  return navigator.serviceWorker.ready;
+}
+
+export async function currentPushSubscription() {
+  if (!pushSupported()) return null;
+  const registration = await activeRegistration();
+  return (await registration?.pushManager.getSubscription()) ?? null;
+}
+
+// Asks for notification permission first, so call it from a tap
+export async function subscribePush(): Promise<PushResult> {
+  if (!pushSupported()) return { success: false, error: 'Push notifications are not supported in this browser' };
+  const permission =
+    Notification.permission === 'default' ? await Notification.requestPermission() : Notification.permission;
+  if (permission !== 'granted') return { success: false, error: 'Notifications are blocked for this site' };
+
+  try {
+    const registration = await activeRegistration();
+    if (!registration) return { success: false, error: 'Service worker unavailable' };
+    let subscription = await registration.pushManager.getSubscription();
+    if (!subscription) {
+      const key = await apiClient.getPushPublicKey();
+      if (!key.success || !key.data) return { success: false, error: key.error ?? 'Push is not available right now' };
+      subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: keyBytes(key.data.publicKey),
+      });
+    }
+    const response = await apiClient.registerPushSubscription(subscription.toJSON());
+    return response.success ? { success: true } : { success: false, error: response.error ?? 'Could not register for push' };
+  } catch (error) {
+    log.warn('Push subscription failed', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Push subscription failed' };
+  }
+}
+
+export async function unsubscribePush(): Promise<PushResult> {
+  try {
+    const subscription = await currentPushSubscription();
+    if (!subscription) return { success: true };
+    const response = await apiClient.unregisterPushSubscription(subscription.endpoint);
+    // The backend drops endpoints that stop answering, so a failed
+    // unregister is not worth keeping the subscription for
+    if (!response.success) log.warn('Push unregister failed', response.error);
+    await subscription.unsubscribe();
+    return { success: true };
+  } catch (error) {
+    log.warn('Push unsubscribe failed', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Push unsubscribe failed' };
+  }
+}
+
+// Re-registers this device once permission is already granted; never
+// prompts. Browsers rotate push endpoints now and then, so this also keeps
+// the backend's copy fresh.
+export async function syncPushSubscription() {
+  if (!pushSupported() || Notification.permission !== 'granted') return;
+  const result = await subscribePush();
+  if (!result.success) log.warn('Push sync failed', result.error);
+}
+
+// Tells the backend about the subscription this device already has, if any;
+// never subscribes or prompts. Runs when a signed-in app starts and when the
+// service worker reports a new endpoint, which it may have been given while
+// the app was closed.
+export async function registerCurrentPushSubscription() {
+  try {
+    const subscription = await currentPushSubscription();
+    if (!subscription) return;
+    const response = await apiClient.registerPushSubscription(subscription.toJSON());
+    if (!response.success) log.warn('Push registration failed', response.error);
+  } catch (error) {
+    log.warn('Push registration failed', error);
+  }
+}
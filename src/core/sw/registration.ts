@@ -0,0 +1,59 @@
+import { createLogger } from '@/core/logging/logger';
+
+// The app's service worker (public/sw.js). It shows system notifications,
+// including Web Push ones (see ./push), and passes notification clicks back
+// to the page; nothing is cached.
+
+const log = createLogger('app');
+
+export interface NotificationAction {
+  type: 'notification:action';
+  action: 'accept' | 'decline' | 'open';
+  serviceId: string;
+}
+
+// A click on a notification that deep-links into the app (chat, payment)
+export interface NotificationOpen {
+  type: 'notification:open';
+  url: string;
+}
+
+// The push service replaced this device's endpoint
+export interface PushSubscriptionChange {
+  type: 'push:subscription-change';
+}
+
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+export const serviceWorkerSupported = () => typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+export function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!serviceWorkerSupported()) return Promise.resolve(null);
+  registration ??= navigator.serviceWorker.register('/sw.js').catch((error) => {
+    log.warn('Service worker registration failed', error);
+    return null;
+  });
+  return registration;
+}
+
+function onWorkerMessage<T extends { type: string }>(type: T['type'], handler: (message: T) => void) {
+  if (!serviceWorkerSupported()) return () => {};
+  const listener = (event: MessageEvent) => {
+    const message = event.data as T | undefined;
+    if (message?.type === type) handler(message);
+  };
+  navigator.serviceWorker.addEventListener('message', listener);
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+}
+
+// Clicks on notification actions, in every open tab
+export const onNotificationAction = (handler: (message: NotificationAction) => void) =>
+  onWorkerMessage<NotificationAction>('notification:action', handler);
+
+// Only the tab the worker picked hears these
+export const onNotificationOpen = (handler: (message: NotificationOpen) => void) =>
+  onWorkerMessage<NotificationOpen>('notification:open', handler);
+
+// Every open tab hears these
+export const onPushSubscriptionChange = (handler: (message: PushSubscriptionChange) => void) =>
+  onWorkerMessage<PushSubscriptionChange>('push:subscription-change', handler);
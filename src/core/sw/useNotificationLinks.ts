@@ -0,0 +1,10 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { onNotificationOpen } from './registration';
+
+// Follows notification deep links (chat, payment) inside the running app
+// instead of opening a new window
+export function useNotificationLinks() {
+  const navigate = useNavigate();
+  useEffect(() => onNotificationOpen(({ url }) => navigate(url)), [navigate]);
+}
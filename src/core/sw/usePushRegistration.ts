@@ -0,0 +1,12 @@
+import { useEffect } from 'react';
+import { registerCurrentPushSubscription } from './push';
+import { onPushSubscriptionChange } from './registration';
+
+// Keeps the backend's copy of this device's push endpoint current while
+// signed in, including after the browser rotates it
+export function usePushRegistration() {
+  useEffect(() => {
+    void registerCurrentPushSubscription();
+    return onPushSubscriptionChange(() => void registerCurrentPushSubscription());
+  }, []);
+}
@@ -0,0 +1,58 @@
+import { createLogger } from '@/core/logging/logger';
+
+const log = createLogger('app');
+
+// Messages between the app's open tabs on this device, over a single
+// BroadcastChannel. Browsers without it get a channel that never delivers,
+// which leaves every tab working on its own as before.
+
+export interface TabMessage {
+  type: string;
+  from: string;
+  payload?: unknown;
+}
+
+type Handler = (payload: unknown, message: TabMessage) => void;
+
+const CHANNEL_NAME = 'helpbuddy-tabs';
+
+export const tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+class TabChannel {
+  private channel: BroadcastChannel | null =
+    typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+  private handlers = new Map<string, Set<Handler>>();
+
+  constructor() {
+    this.channel?.addEventListener('message', (e: MessageEvent<TabMessage>) => this.receive(e.data));
+  }
+
+  get available() {
+    return !!this.channel;
+  }
+
+  // Payloads must survive structured cloning (no functions)
+  post(type: string, payload?: unknown) {
+    if (!this.channel) return;
+    try {
+      this.channel.postMessage({ type, from: tabId, payload } satisfies TabMessage);
+    } catch (error) {
+      log.warn('Could not post to other tabs', { type, error });
+    }
+  }
+
+  on(type: string, handler: Handler) {
+    if (!this.handlers.has(type)) this.handlers.set(type, new Set());
+    this.handlers.get(type)!.add(handler);
+    return () => {
+      this.handlers.get(type)?.delete(handler);
+    };
+  }
+
+  private receive(message: TabMessage) {
+    if (!message || typeof message.type !== 'string') return;
+    this.handlers.get(message.type)?.forEach((h) => h(message.payload, message));
+  }
+}
+
+export const tabChannel = new TabChannel();
@@ -0,0 +1,16 @@
+// Lets exactly one tab act on something every tab sees, such as chiming for
+// a new request or auto-declining it when the countdown runs out. The first
+// tab to ask wins and holds the claim for `holdMs`, so slower tabs lose too.
+// Without Web Locks every tab wins, as before.
+export function claimOnce(key: string, holdMs = 60_000): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.locks) return Promise.resolve(true);
+  return new Promise<boolean>((resolve) => {
+    navigator.locks
+      .request(`helpbuddy-claim:${key}`, { ifAvailable: true }, (lock) => {
+        resolve(!!lock);
+        if (!lock) return undefined;
+        return new Promise<void>((release) => setTimeout(release, holdMs));
+      })
+      .catch(() => resolve(true));
+  });
+}
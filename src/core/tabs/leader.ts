@@ -0,0 +1,62 @@
+import { createLogger } from '@/core/logging/logger';
+import { tabChannel } from './channel';
+
+const log = createLogger('app');
+
+// Leader election across tabs. The tab holding the Web Lock owns the
+// realtime and chat sockets and relays their events to the others (see
+// core/socket/relay); when it closes, the browser hands the lock to the
+// next tab waiting for it. Without Web Locks or BroadcastChannel every tab
+// leads itself, as it did before.
+
+type Listener = () => void;
+
+const LOCK_NAME = 'helpbuddy-socket-leader';
+
+class TabLeader {
+  private leader = false;
+  private started = false;
+  private listeners = new Set<Listener>();
+
+  get isLeader() {
+    return this.leader;
+  }
+
+  start() {
+    if (this.started) return;
+    this.started = true;
+
+    if (!tabChannel.available || typeof navigator === 'undefined' || !navigator.locks) {
+      this.becomeLeader();
+      return;
+    }
+
+    // The callback holds the lock for the lifetime of the tab
+    navigator.locks
+      .request(LOCK_NAME, () => {
+        this.becomeLeader();
+        return new Promise<never>(() => undefined);
+      })
+      .catch((error) => {
+        log.warn('Tab leader election unavailable; leading this tab', error);
+        this.becomeLeader();
+      });
+  }
+
+  onBecomeLeader(listener: Listener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Leadership is only ever gained; it ends when the tab does
+  private becomeLeader() {
+    if (this.leader) return;
+    this.leader = true;
+    log.info('This tab now owns the sockets');
+    this.listeners.forEach((l) => l());
+  }
+}
+
+export const tabLeader = new TabLeader();
@@ -24,70 +24,43 @@ import {
   Legend,
   ResponsiveContainer,
 } from 'recharts';
-import { apiClient } from '@/core/api/client';
+import {
+  useEarningsTrends,
+  usePeakHours,
+  useRatingStats,
+  useSatisfactionTrends,
+  useServiceTypeBreakdown,
+} from '@/core/query/hooks';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 import PremiumPage from '@/components/layout/PremiumPage';
+import type { EarningsTrendPoint, PeakHour, RatingStats, SatisfactionTrendPoint, ServiceTypeShare } from '@/types';
 
 const COLORS = ['#10b981', '#3b82f6', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'];
 
 export default function AnalyticsDashboard() {
-  const [loading, setLoading] = useState(true);
   const [timeRange, setTimeRange] = useState<'daily' | 'weekly' | 'monthly'>('weekly');
   
   // Analytics Data
-  const [earningsTrends, setEarningsTrends] = useState<any[]>([]);
-  const [peakHours, setPeakHours] = useState<any[]>([]);
-  const [serviceBreakdown, setServiceBreakdown] = useState<any[]>([]);
-  const [satisfactionTrends, setSatisfactionTrends] = useState<any[]>([]);
-  const [ratingStats, setRatingStats] = useState<any>(null);
-
-  useEffect(() => {
-    fetchAllAnalytics();
-  }, [timeRange]);
-
-  const fetchAllAnalytics = async () => {
-    setLoading(true);
-    try {
-      const [earnings, peak, breakdown, satisfaction, ratings] = await Promise.all([
-        apiClient.getEarningsTrends(timeRange, 30),
-        apiClient.getHelperPeakHours(),
-        apiClient.getHelperServiceTypeBreakdown(),
-        apiClient.getHelperSatisfactionTrends(timeRange),
-        apiClient.getHelperRatingStats(),
-      ]);
+  const earnings = useEarningsTrends(timeRange, 30);
+  const peak = usePeakHours();
+  const breakdown = useServiceTypeBreakdown();
+  const satisfaction = useSatisfactionTrends(timeRange);
+  const ratings = useRatingStats();
+  const queries = [earnings, peak, breakdown, satisfaction, ratings];
+  const loading = queries.some((q) => q.isLoading);
+  const hasError = queries.some((q) => q.isError);
 
-      if (earnings.success && earnings.data) {
-        const data = earnings.data as any;
-        setEarningsTrends(data.trends || []);
-      }
-
-      if (peak.success && peak.data) {
-        const data = peak.data as any;
-        setPeakHours(data.hourlyBreakdown || []);
-      }
+  const earningsTrends: EarningsTrendPoint[] = earnings.data?.trends ?? [];
+  const peakHours: PeakHour[] = peak.data?.hourlyBreakdown ?? [];
+  const serviceBreakdown: ServiceTypeShare[] = breakdown.data?.breakdown ?? [];
+  const satisfactionTrends: SatisfactionTrendPoint[] = satisfaction.data?.trends ?? [];
+  const ratingStats: RatingStats | null = ratings.data ?? null;
 
-      if (breakdown.success && breakdown.data) {
-        const data = breakdown.data as any;
-        setServiceBreakdown(data.breakdown || []);
-      }
-
-      if (satisfaction.success && satisfaction.data) {
-        const data = satisfaction.data as any;
-        setSatisfactionTrends(data.trends || []);
-      }
-
-      if (ratings.success && ratings.data) {
-        setRatingStats(ratings.data);
-      }
-    } catch (error) {
-      console.error('Failed to fetch analytics:', error);
-      toast.error('Failed to load analytics data');
-    } finally {
-      setLoading(false);
-    }
-  };
+  useEffect(() => {
+    if (hasError) toast.error('Failed to load analytics data');
+  }, [hasError]);
 
   // Summary Stats
   const totalEarnings = earningsTrends.reduce((sum, item) => sum + (item.earnings || 0), 0);
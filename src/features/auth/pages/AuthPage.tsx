@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth } from '@/features/auth';
 import { apiClient } from '@/core/api/client';
+import { createLogger } from '@/core/logging/logger';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
@@ -20,6 +21,8 @@ import {
 import logo from '@/assets/logo.png';
 import OTPPopup from '@/shared/components/OTPPopup';
 
+const log = createLogger('auth');
+
 type Step = 'phone' | 'otp';
 
 export default function AuthPage() {
@@ -88,7 +91,7 @@ export default function AuthPage() {
       // Store whether helper needs onboarding for later (after OTP)
       let needsOnboarding = false;
       if (existsResp?.success) {
-        const exists = (existsResp as any)?.data?.exists;
+        const exists = existsResp.data?.exists;
         if (!exists) {
           needsOnboarding = true;
           toast({ title: 'New helper registration', description: 'Please verify your phone number, then complete your profile.' });
@@ -96,7 +99,7 @@ export default function AuthPage() {
       } else {
         // If check failed, log error but allow OTP request to proceed (for development)
         // In production, you might want to block OTP if check fails
-        console.warn('[Auth] Helper existence check failed:', existsResp?.error);
+        log.warn('Helper existence check failed', { error: existsResp?.error });
         // Allow OTP request to proceed even if check fails (for development/testing)
         // toast({ variant: 'destructive', title: 'Unable to verify helper status', description: existsResp?.error || 'Please try again later.' });
         // return;
@@ -163,11 +166,11 @@ export default function AuthPage() {
       if (data?.success && data?.data) {
         // clear any invalid otp marker
         if (invalidOtp) setInvalidOtp(false);
-        const tokens = data.data as { accessToken: string; refreshToken: string };
+        const tokens = data.data;
         await login(tokens.accessToken, tokens.refreshToken);
         const me = await apiClient.getHelperProfile();
         if (me?.success && me?.data) {
-          try { updateHelper(me.data as any); } catch {}
+          updateHelper(me.data);
           toast({ title: 'Welcome back!', description: 'Logged in successfully.' });
         } else {
           toast({ title: 'Logged in', description: 'Proceeding to complete your profile.' });
@@ -3,6 +3,7 @@ import { useLocation, useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth } from '@/features/auth';
 import { apiClient } from '@/core/api/client';
+import { tokenManager } from '@/core/auth/tokenManager';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
@@ -62,21 +63,9 @@ export default function HelperOnboardingPage() {
 
   // Clear any PATIENT tokens on mount to prevent conflicts
   useEffect(() => {
-    const token = localStorage.getItem('accessToken');
-    if (token) {
-      try {
-        const payload = JSON.parse(atob(token.split('.')[1]));
-        if (payload.userType === 'PATIENT') {
-          localStorage.removeItem('accessToken');
-          localStorage.removeItem('refreshToken');
-          localStorage.removeItem('logoutBlock');
-          localStorage.removeItem('hasRefreshCookie');
-        }
-      } catch (e) {
-        // Invalid token, clear it anyway
-        localStorage.removeItem('accessToken');
-        localStorage.removeItem('refreshToken');
-      }
+    const token = tokenManager.getAccessToken();
+    if (token && !tokenManager.isHelperToken(token)) {
+      tokenManager.clear();
     }
     
     // Also clear any refresh token cookies by calling logout
@@ -196,8 +185,8 @@ export default function HelperOnboardingPage() {
       const existCheck = await apiClient.checkHelperExists(phoneDigits, aadhaarDigits);
       
       if (existCheck?.success) {
-        const exists = (existCheck as any)?.data?.exists;
-        const field = (existCheck as any)?.data?.field;
+        const exists = existCheck.data?.exists;
+        const field = existCheck.data?.field;
         
         if (exists) {
           setIsLoading(false);
@@ -331,30 +320,23 @@ export default function HelperOnboardingPage() {
       }
       
       // Clear any existing tokens before verification to prevent conflicts
-      localStorage.removeItem('accessToken');
-      localStorage.removeItem('refreshToken');
-      localStorage.removeItem('logoutBlock');
+      tokenManager.clear();
       
       // First verify OTP and get tokens
       const data = await apiClient.verifyOtp('phone', phoneDigits, code, name.trim(), 'HELPER');
       
       if (data?.success && data?.data) {
-        const tokens = data.data as { accessToken: string; refreshToken: string };
+        const tokens = data.data;
         
         // Verify the token is for HELPER before proceeding
-        try {
-          const payload = JSON.parse(atob(tokens.accessToken.split('.')[1]));
-          if (payload.userType !== 'HELPER') {
-            toast({ 
-              variant: 'destructive', 
-              title: 'Account type mismatch', 
-              description: 'This account is registered as a patient. Please use the patient app instead.' 
-            });
-            setIsLoading(false);
-            return;
-          }
-        } catch (e) {
-          // Token decode error, ignore
+        if (!tokenManager.isHelperToken(tokens.accessToken)) {
+          toast({ 
+            variant: 'destructive', 
+            title: 'Account type mismatch', 
+            description: 'This account is registered as a patient. Please use the patient app instead.' 
+          });
+          setIsLoading(false);
+          return;
         }
         
         await login(tokens.accessToken, tokens.refreshToken);
@@ -390,7 +372,7 @@ export default function HelperOnboardingPage() {
       const res = await apiClient.registerHelperWithDocuments(form);
       
       if (res?.success && res?.data) {
-        try { updateHelper(res.data as any); } catch {}
+        updateHelper(res.data);
         toast({ title: 'Registration complete', description: 'You are now a verified helper.' });
         setStep('complete');
         setTimeout(() => navigate('/dashboard'), 1000);
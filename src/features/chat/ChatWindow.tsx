@@ -2,22 +2,13 @@ import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { Send, Paperclip, X, MessageSquare, Check, CheckCheck } from 'lucide-react';
 import { apiClient } from '../../core/api/client';
-import { chatSocket } from '../../core/socket/chatSocket';
+import { realtime } from '../../core/socket/realtime';
+import type { ChatTemplate } from '../../core/api/schemas';
+import type { ChatMessage as Message } from '@/types';
+import { tokenManager } from '@/core/auth/tokenManager';
+import { createLogger } from '@/core/logging/logger';
 
-interface Message {
-  id: string;
-  serviceId: string;
-  senderId: string;
-  senderType: 'PATIENT' | 'HELPER';
-  messageType: 'TEXT' | 'IMAGE' | 'FILE' | 'VOICE' | 'TEMPLATE';
-  message?: string;
-  fileName?: string;
-  fileUrl?: string;
-  fileSize?: number;
-  mimeType?: string;
-  isRead: boolean;
-  createdAt: string;
-}
+const log = createLogger('chat');
 
 interface ChatWindowProps {
   serviceId: string;
@@ -30,26 +21,26 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ serviceId, patientName,
   const [newMessage, setNewMessage] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [templates, setTemplates] = useState<any[]>([]);
+  const [templates, setTemplates] = useState<ChatTemplate[]>([]);
   const [showTemplates, setShowTemplates] = useState(false);
   const [attachments, setAttachments] = useState<Record<string, string>>({});
   const [uploading, setUploading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<number>();
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const currentUserId = localStorage.getItem('userId') || '';
+  const currentUserId = tokenManager.userId() || '';
 
   useEffect(() => {
-    loadMessages();
-    loadTemplates();
+    // Cancel the initial loads if the chat is closed before they finish
+    const controller = new AbortController();
+    loadMessages(controller.signal);
+    loadTemplates(controller.signal);
     
-    const token = localStorage.getItem('accessToken');
-    if (token) {
-      chatSocket.connect(token);
-      chatSocket.joinService(serviceId);
-    }
+    const chat = realtime.chat;
+    chat.connect();
+    chat.joinService(serviceId);
 
-    chatSocket.onNewMessage((message: Message) => {
+    const offMessage = chat.onNewMessage((message: Message) => {
       setMessages(prev => {
         // Check if message already exists (from optimistic update)
         const exists = prev.find(m => m.id === message.id);
@@ -64,49 +55,55 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ serviceId, patientName,
       // Mark as read if not sent by us
       if (message.senderId !== currentUserId) {
         apiClient.markChatAsRead(serviceId);
-        chatSocket.emitMarkAsRead(serviceId, currentUserId);
+        chat.emitMarkAsRead(serviceId, currentUserId);
       }
     });
 
-    chatSocket.onMessagesRead(() => {
+    const offRead = chat.onMessagesRead(() => {
       // Update all our sent messages to read status
       setMessages(prev => prev.map(msg => 
         msg.senderId === currentUserId ? { ...msg, isRead: true } : msg
       ));
     });
 
-    chatSocket.onTypingStart(({ senderId }) => {
+    const offTypingStart = chat.onTypingStart(({ senderId }) => {
       if (senderId !== currentUserId) {
         setIsTyping(true);
       }
     });
 
-    chatSocket.onTypingStop(({ senderId }) => {
+    const offTypingStop = chat.onTypingStop(({ senderId }) => {
       if (senderId !== currentUserId) {
         setIsTyping(false);
       }
     });
 
     return () => {
-      chatSocket.leaveService();
+      controller.abort();
+      offMessage();
+      offRead();
+      offTypingStart();
+      offTypingStop();
+      chat.leaveService();
     };
   }, [serviceId]);
 
-  const loadMessages = async () => {
+  const loadMessages = async (signal?: AbortSignal) => {
     setLoading(true);
-    const response = await apiClient.getChatMessages(serviceId);
+    const response = await apiClient.getChatMessages(serviceId, { signal });
+    if (signal?.aborted) return;
     if (response.success && response.data) {
-      setMessages(Array.isArray(response.data) ? response.data : []);
+      setMessages(response.data);
       scrollToBottom();
       apiClient.markChatAsRead(serviceId);
     }
     setLoading(false);
   };
 
-  const loadTemplates = async () => {
-    const response = await apiClient.getChatTemplates();
+  const loadTemplates = async (signal?: AbortSignal) => {
+    const response = await apiClient.getChatTemplates({ signal });
     if (response.success && response.data) {
-      setTemplates(Array.isArray(response.data) ? response.data : []);
+      setTemplates(response.data);
     }
   };
 
@@ -120,22 +117,20 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ serviceId, patientName,
   useEffect(() => {
     const toFetch = messages.filter(m => (m.messageType === 'IMAGE' || m.messageType === 'FILE' || m.messageType === 'VOICE') && !attachments[m.id]);
     if (toFetch.length === 0) return;
+    const controller = new AbortController();
 
     toFetch.forEach(async (m) => {
       try {
-        const token = localStorage.getItem('accessToken');
-        const headers: Record<string, string> = {};
-        if (token) headers['Authorization'] = `Bearer ${token}`;
-        const resp = await fetch(`/api/chat/file/${m.id}`, { headers });
-        if (!resp.ok) {
+        const resp = await apiClient.getChatFile(m.id, { signal: controller.signal });
+        if (controller.signal.aborted) return;
+        if (!resp.success || !resp.data) {
           // fallback to public fileUrl if available
           if (m.fileUrl) {
             setAttachments(prev => ({ ...prev, [m.id]: m.fileUrl! }));
           }
           return;
         }
-        const blob = await resp.blob();
-        const url = URL.createObjectURL(blob);
+        const url = URL.createObjectURL(resp.data);
         setAttachments(prev => ({ ...prev, [m.id]: url }));
       } catch (e) {
         if (m.fileUrl) {
@@ -144,8 +139,9 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ serviceId, patientName,
       }
     });
 
-    // cleanup to revoke object URLs when messages change/unmount
+    // cleanup to cancel downloads and revoke object URLs when messages change/unmount
     return () => {
+      controller.abort();
       Object.values(attachments).forEach((u) => {
         try { URL.revokeObjectURL(u); } catch (e) { /* ignore */ }
       });
@@ -153,14 +149,14 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ serviceId, patientName,
   }, [messages, attachments]);
 
   const handleTyping = () => {
-    chatSocket.emitTypingStart(serviceId);
+    realtime.chat.emitTypingStart(serviceId);
     
     if (typingTimeoutRef.current) {
       clearTimeout(typingTimeoutRef.current);
     }
 
-    typingTimeoutRef.current = setTimeout(() => {
-      chatSocket.emitTypingStop(serviceId);
+    typingTimeoutRef.current = window.setTimeout(() => {
+      realtime.chat.emitTypingStop(serviceId);
     }, 2000);
   };
 
@@ -174,8 +170,6 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ serviceId, patientName,
       message: messageText,
     };
 
-    console.log('[HELPER] Sending message:', messageData);
-
     // Optimistic update
     const tempMessage: Message = {
       id: Date.now().toString(),
@@ -188,8 +182,6 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ serviceId, patientName,
       createdAt: new Date().toISOString(),
     };
 
-    console.log('[HELPER] Temp message:', tempMessage);
-
     setMessages(prev => [...prev, tempMessage]);
     setNewMessage('');
     setShowTemplates(false);
@@ -198,14 +190,14 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ serviceId, patientName,
     // Send via HTTP API (will also broadcast via WebSocket)
     try {
       const result = await apiClient.sendChatMessage(messageData);
-      console.log('[HELPER] Send result:', result);
+      if (!result.success) log.warn('Send failed', { serviceId, error: result.error });
     } catch (error) {
-      console.error('Failed to send message:', error);
+      log.error('Failed to send message', error);
       // Remove optimistic message on error
       setMessages(prev => prev.filter(m => m.id !== tempMessage.id));
     }
     
-    chatSocket.emitTypingStop(serviceId);
+    realtime.chat.emitTypingStop(serviceId);
   };
 
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -257,12 +249,12 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ serviceId, patientName,
         try {
           await apiClient.sendChatMessage(messageData);
         } catch (error) {
-          console.error('Failed to send file message:', error);
+          log.error('Failed to send file message', error);
           setMessages(prev => prev.filter(m => m.id !== tempMessage.id));
         }
       }
     } catch (error) {
-      console.error('Failed to upload file:', error);
+      log.error('Failed to upload file', error);
     } finally {
       setUploading(false);
       // Reset file input
@@ -280,15 +272,6 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ serviceId, patientName,
   const renderMessage = (message: Message) => {
     // Helper sends messages with senderType 'HELPER' and matching senderId
     const isSentByMe = message.senderType === 'HELPER' && message.senderId === currentUserId;
-    
-    console.log('[HELPER] Rendering message:', {
-      id: message.id,
-      senderType: message.senderType,
-      isSentByMe,
-      messageType: message.messageType,
-      hasMessage: !!message.message,
-      message: message.message
-    });
 
     return (
       <motion.div
@@ -328,19 +311,15 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ serviceId, patientName,
                     try {
                       let url = attachments[message.id];
                       if (!url) {
-                        const token = localStorage.getItem('accessToken');
-                        const headers: Record<string, string> = {};
-                        if (token) headers['Authorization'] = `Bearer ${token}`;
-                        const resp = await fetch(`/api/chat/file/${message.id}`, { headers });
-                        if (!resp.ok) {
+                        const resp = await apiClient.getChatFile(message.id);
+                        if (!resp.success || !resp.data) {
                           if (message.fileUrl) {
                             window.open(message.fileUrl, '_blank');
                             return;
                           }
                           return;
                         }
-                        const blob = await resp.blob();
-                        url = URL.createObjectURL(blob);
+                        url = URL.createObjectURL(resp.data);
                         setAttachments(prev => ({ ...prev, [message.id]: url }));
                       }
 
@@ -447,7 +426,7 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ serviceId, patientName,
             <div className="flex flex-wrap gap-2">
               {templates.map((template) => (
                 <button
-                  key={template.id}
+                  key={template.id ?? template.text}
                   onClick={() => sendMessage(template.text, true)}
                   className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded-full text-sm transition"
                 >
@@ -5,7 +5,12 @@ import { useAuth } from '@/features/auth';
 import { Card, CardContent } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { apiClient } from '@/core/api/client';
-import { socketClient } from '@/core/socket/client';
+import { useActiveService } from '@/core/query/hooks';
+import { setAvailability } from '@/features/shifts';
+import { requestNotificationPermission } from '@/features/notifications/requestAlerts';
+import { createLogger } from '@/core/logging/logger';
+
+const log = createLogger('app');
 import { useToast } from '@/hooks/use-toast';
 import { Power, MapPin } from 'lucide-react';
 
@@ -16,6 +21,7 @@ export default function AvailabilityToggle({ className = '' }: { className?: str
   const navigate = useNavigate();
 
   const isAvailable = !!helper?.isAvailable;
+  const { data: activeService } = useActiveService(isAvailable);
 
   const handleToggle = async () => {
     // If user hasn't completed helper onboarding, try to re-fetch helper profile first
@@ -24,7 +30,7 @@ export default function AvailabilityToggle({ className = '' }: { className?: str
       try {
         const helperResponse = await apiClient.getHelperProfile();
         if (helperResponse?.success && helperResponse.data) {
-          updateHelper(helperResponse.data as any);
+          updateHelper(helperResponse.data);
           
           // Retry the toggle with the newly loaded helper
           toast({ 
@@ -34,7 +40,7 @@ export default function AvailabilityToggle({ className = '' }: { className?: str
           return;
         }
       } catch (e) {
-        console.error('[AvailabilityToggle] Failed to fetch helper profile:', e);
+        log.error('Failed to fetch helper profile', e);
       }
       
       // If still no helper, send to onboarding
@@ -45,7 +51,7 @@ export default function AvailabilityToggle({ className = '' }: { className?: str
 
     // Check if helper.id exists
     if (!helper.id) {
-      console.error('[AvailabilityToggle] helper.id is missing:', helper);
+      log.error('helper.id is missing', helper);
       toast({ 
         title: 'Error', 
         description: 'Helper profile incomplete. Please re-login.',
@@ -56,47 +62,27 @@ export default function AvailabilityToggle({ className = '' }: { className?: str
 
     setIsLoading(true);
     const newStatus = !isAvailable;
+    // Going online is the moment lock-screen alerts start to matter; asked
+    // here, inside the tap, as browsers require
+    if (newStatus) void requestNotificationPermission();
 
     try {
-      const response = await apiClient.updateAvailability(helper.id, newStatus);
-
-      if (response?.success && response.data) {
-        updateHelper(response.data as any);
+      const response = await setAvailability(helper.id, newStatus, 'manual');
 
-        // Notify realtime server that availability changed so helper receives requests immediately
-        try {
-          if (response.data?.id) {
-            // If socket is not connected and we just turned on availability, try to connect first
-            if (newStatus && !socketClient.isConnected()) {
-              socketClient.connect();
-              let attempts = 0;
-              const emitWhenReady = () => {
-                attempts += 1;
-                if (socketClient.isConnected()) {
-                  socketClient.emit('helper:availability:update', { helperId: response.data.id, isAvailable: newStatus });
-                  console.debug('[AvailabilityToggle] Emitted helper:availability:update after connect');
-                } else if (attempts < 10) {
-                  setTimeout(emitWhenReady, 300);
-                } else {
-                  console.warn('[AvailabilityToggle] Could not emit availability:update, socket failed to connect');
-                }
-              };
-              emitWhenReady();
-            } else {
-              socketClient.emit('helper:availability:update', { helperId: response.data.id, isAvailable: newStatus });
-              console.debug('[AvailabilityToggle] Emitted helper:availability:update');
-            }
-          }
-        } catch (e) {
-          // ignore
-        }
+      const updated = response?.success ? response.data : undefined;
+      if (updated) {
+        updateHelper(updated);
 
         toast({
           title: newStatus ? "You're Online!" : "You're Offline",
-          description: newStatus ? 'You will now receive service requests.' : "You won't receive new requests.",
+          description: newStatus
+            ? 'You will now receive service requests.'
+            : activeService
+              ? "You won't receive new requests. Your current job is still active — finish it as usual."
+              : "You won't receive new requests.",
         });
       } else {
-        console.error('[AvailabilityToggle] Update failed:', response);
+        log.error('Availability update failed', { status: response?.status, error: response?.error });
         toast({
           variant: 'destructive',
           title: 'Error',
@@ -104,7 +90,7 @@ export default function AvailabilityToggle({ className = '' }: { className?: str
         });
       }
     } catch (error) {
-      console.error('[AvailabilityToggle] Exception:', error);
+      log.error('Availability update threw', error);
       toast({
         variant: 'destructive',
         title: 'Error',
@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { ArrowLeft, Bell, Check, Clock, IndianRupee, MapPin, Navigation, Zap } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DECLINE_REASONS } from '@/core/config/constants';
+import { cn } from '@/lib/utils';
+import {
+  fareOf,
+  type IncomingRequest,
+  type RequestOutcome,
+  type RequestSort,
+} from '@/features/dashboard/hooks/useRequestQueue';
+import type { DeclineReason } from '@/types';
+
+interface IncomingRequestsProps {
+  requests: IncomingRequest[];
+  open: number;
+  now: number;
+  sort: RequestSort;
+  onSortChange: (sort: RequestSort) => void;
+  acceptingId: string | null;
+  onAccept: (serviceId: string) => void;
+  onDecline: (serviceId: string, reason: DeclineReason) => void;
+}
+
+const SORTS: { value: RequestSort; label: string }[] = [
+  { value: 'urgency', label: 'Urgency' },
+  { value: 'distance', label: 'Distance' },
+  { value: 'fare', label: 'Fare' },
+];
+
+const OUTCOME_LABELS: Record<RequestOutcome, string> = {
+  accepted: 'Accepted',
+  declined: 'Declined',
+  expired: 'Timed out — sent to the next helper',
+  taken: 'Taken by another helper',
+  cancelled: 'Cancelled by the patient',
+};
+
+const URGENCY_STYLES: Record<NonNullable<IncomingRequest['service']['urgency']>, string> = {
+  high: 'bg-red-100 text-red-700',
+  medium: 'bg-amber-100 text-amber-700',
+  low: 'bg-emerald-100 text-emerald-700',
+};
+
+const serviceTypes = (types: string[] | string) => (Array.isArray(types) ? types.join(', ') : types);
+
+function RequestCard({
+  request,
+  now,
+  accepting,
+  busy,
+  onAccept,
+  onDecline,
+}: {
+  request: IncomingRequest;
+  now: number;
+  accepting: boolean;
+  busy: boolean;
+  onAccept: () => void;
+  onDecline: (reason: DeclineReason) => void;
+}) {
+  const { service, outcome, autoRule } = request;
+  // Declining asks why first
+  const [pickingReason, setPickingReason] = useState(false);
+  const secondsLeft = Math.max(0, Math.ceil((request.deadline - now) / 1000));
+  const fare = fareOf(service);
+  const location = service.patientLocation;
+
+  return (
+    <motion.li
+      layout
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: outcome ? 0.55 : 1, y: 0 }}
+      exit={{ opacity: 0, height: 0 }}
+      className="rounded-xl border border-border p-4 space-y-3"
+    >
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="font-semibold truncate">{serviceTypes(service.serviceType)}</p>
+          {service.description && <p className="text-sm text-muted-foreground truncate">{service.description}</p>}
+        </div>
+        {service.urgency && (
+          <span className={cn('shrink-0 rounded-full px-2 py-0.5 text-xs font-medium capitalize', URGENCY_STYLES[service.urgency])}>
+            {service.urgency}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+        <span className="inline-flex items-center gap-1 min-w-0">
+          <MapPin className="w-4 h-4 text-emerald-500 shrink-0" />
+          <span className="truncate">
+            {location?.landmark || service.hospitalName || (location ? `${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}` : '—')}
+          </span>
+        </span>
+        {service.distance !== undefined && (
+          <span className="inline-flex items-center gap-1">
+            <Navigation className="w-4 h-4" />
+            {service.distance} km
+          </span>
+        )}
+        {fare !== undefined && (
+          <span className="inline-flex items-center gap-1">
+            <IndianRupee className="w-4 h-4" />
+            {fare}
+          </span>
+        )}
+      </div>
+
+      {autoRule && !outcome && (
+        <p className="inline-flex items-center gap-1 text-sm font-medium text-emerald-700">
+          <Zap className="w-4 h-4" />
+          Auto-accepting — rule “{autoRule}”
+        </p>
+      )}
+
+      {outcome ? (
+        <p className="text-sm font-medium text-muted-foreground">
+          {OUTCOME_LABELS[outcome]}
+          {autoRule && ` by rule “${autoRule}”`}
+        </p>
+      ) : pickingReason ? (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              aria-label="Back"
+              onClick={() => setPickingReason(false)}
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <span className="text-sm font-medium">Why are you declining?</span>
+            <span className="ml-auto text-sm font-medium tabular-nums text-amber-600">{secondsLeft}s</span>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.entries(DECLINE_REASONS) as [DeclineReason, string][]).map(([reason, label]) => (
+              <Button key={reason} variant="outline" size="sm" onClick={() => onDecline(reason)} disabled={busy}>
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center gap-3">
+          <span
+            className={cn(
+              'inline-flex items-center gap-1 text-sm font-medium tabular-nums',
+              secondsLeft <= 10 ? 'text-red-600' : 'text-amber-600'
+            )}
+          >
+            <Clock className="w-4 h-4" />
+            {secondsLeft}s
+          </span>
+          <div className="flex flex-1 gap-2 justify-end">
+            <Button variant="outline" size="sm" onClick={() => setPickingReason(true)} disabled={busy}>
+              Decline
+            </Button>
+            <Button
+              size="sm"
+              onClick={onAccept}
+              className="bg-gradient-to-r from-emerald-500 to-green-500"
+              disabled={busy || secondsLeft <= 0}
+            >
+              {accepting ? (
+                <>
+                  <Clock className="w-4 h-4 mr-2 animate-spin" />
+                  Accepting...
+                </>
+              ) : (
+                <>
+                  <Check className="w-4 h-4 mr-2" />
+                  Accept
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      )}
+    </motion.li>
+  );
+}
+
+// The incoming-request prompt: every open offer with its own countdown,
+// ranked by the helper's choice of urgency, distance or fare.
+export default function IncomingRequests({
+  requests,
+  open,
+  now,
+  sort,
+  onSortChange,
+  acceptingId,
+  onAccept,
+  onDecline,
+}: IncomingRequestsProps) {
+  return (
+    <AnimatePresence>
+      {requests.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm z-60 flex items-center justify-center p-2 sm:p-4 overflow-hidden"
+        >
+          <motion.div
+            initial={{ scale: 0.9, y: 20 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.9, y: 20 }}
+            className="w-full max-w-md rounded-2xl bg-white shadow-2xl overflow-hidden max-h-[calc(100vh-32px)] sm:max-h-[calc(100vh-48px)] flex flex-col"
+          >
+            <div className="bg-gradient-to-r from-emerald-500 to-green-500 p-6 text-white">
+              <div className="flex items-center gap-2 mb-2">
+                <Bell className="w-6 h-6" />
+                <h3 className="text-xl font-bold">
+                  {open > 1 ? `${open} Service Requests` : 'New Service Request'}
+                </h3>
+              </div>
+              <p className="text-white/90 text-sm">
+                {open > 1 ? 'Accept one; the others go to the next helper' : 'A patient needs your help nearby'}
+              </p>
+            </div>
+
+            {requests.length > 1 && (
+              <div className="flex items-center gap-2 px-6 pt-4">
+                <span className="text-xs text-muted-foreground">Sort by</span>
+                {SORTS.map((option) => (
+                  <Button
+                    key={option.value}
+                    size="sm"
+                    variant={sort === option.value ? 'default' : 'outline'}
+                    className="h-7 px-3 text-xs"
+                    onClick={() => onSortChange(option.value)}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            <ul className="p-6 space-y-3 overflow-y-auto">
+              <AnimatePresence initial={false}>
+                {requests.map((request) => (
+                  <RequestCard
+                    key={request.service.id}
+                    request={request}
+                    now={now}
+                    accepting={acceptingId === request.service.id}
+                    busy={acceptingId !== null}
+                    onAccept={() => onAccept(request.service.id)}
+                    onDecline={(reason) => onDecline(request.service.id, reason)}
+                  />
+                ))}
+              </AnimatePresence>
+            </ul>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
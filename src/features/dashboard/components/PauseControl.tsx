@@ -0,0 +1,55 @@
+import { Coffee, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { PAUSE_OPTIONS } from '@/features/dashboard/hooks/usePause';
+
+interface PauseControlProps {
+  isPaused: boolean;
+  remainingMs: number;
+  busy: boolean;
+  onPause: (minutes: number) => void;
+  onResume: () => void;
+}
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Short break while online: pick a pause length, or see the countdown to
+// requests resuming
+export default function PauseControl({ isPaused, remainingMs, busy, onPause, onResume }: PauseControlProps) {
+  if (isPaused) {
+    return (
+      <div className="rounded-xl border border-amber-300/60 bg-amber-50 p-4 flex items-center gap-3">
+        <Coffee className="w-5 h-5 text-amber-600 shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-semibold text-amber-800">Requests paused</p>
+          <p className="text-xs text-amber-700">
+            Resuming in <span className="font-medium tabular-nums">{formatRemaining(remainingMs)}</span>
+          </p>
+        </div>
+        <Button size="sm" variant="outline" onClick={onResume} disabled={busy}>
+          <Play className="w-4 h-4 mr-1" />
+          Resume now
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-xl border border-border/60 p-4 space-y-2">
+      <p className="text-sm font-medium flex items-center gap-2">
+        <Coffee className="w-4 h-4 text-muted-foreground" />
+        Taking a break?
+      </p>
+      <p className="text-xs text-muted-foreground">Pause new requests and stay online.</p>
+      <div className="flex gap-2">
+        {PAUSE_OPTIONS.map((minutes) => (
+          <Button key={minutes} size="sm" variant="outline" className="flex-1" onClick={() => onPause(minutes)} disabled={busy}>
+            {minutes} min
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
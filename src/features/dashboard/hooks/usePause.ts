@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useState } from 'react';
+import { apiClient } from '@/core/api/client';
+import { realtime } from '@/core/socket/realtime';
+import { claimOnce } from '@/core/tabs/claim';
+import { createLogger } from '@/core/logging/logger';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/features/auth';
+
+// Pause mode: the helper stays online and keeps sharing location, but the
+// server stops routing requests to them until `pausedUntil`. The pause ends
+// by itself; the server is told then as well, in case it does not expire
+// pauses on its own.
+
+export const PAUSE_OPTIONS = [15, 30, 60];
+
+const log = createLogger('app');
+
+export const usePause = () => {
+  const { helper, updateHelper } = useAuth();
+  const { toast } = useToast();
+  const [now, setNow] = useState(() => Date.now());
+  const [busy, setBusy] = useState(false);
+
+  const pausedUntil = helper?.isAvailable && helper.pausedUntil ? Date.parse(helper.pausedUntil) : null;
+  const isPaused = pausedUntil !== null && pausedUntil > now;
+
+  const send = useCallback(
+    async (minutes: number | null) => {
+      if (!helper?.id) return false;
+      setBusy(true);
+      try {
+        const response = await apiClient.pauseRequests(helper.id, minutes);
+        if (!response.success || !response.data) {
+          log.warn('Pause update failed', { minutes, error: response.error });
+          return false;
+        }
+        updateHelper(response.data);
+        setNow(Date.now());
+        realtime.gateway.emit('helper:pause:update', {
+          helperId: helper.id,
+          pausedUntil: response.data.pausedUntil ?? null,
+        });
+        return true;
+      } finally {
+        setBusy(false);
+      }
+    },
+    [helper?.id, updateHelper]
+  );
+
+  const pause = useCallback(
+    async (minutes: number) => {
+      if (await send(minutes)) {
+        toast({ title: `Paused for ${minutes} min`, description: "You're still online; new requests will wait." });
+      } else {
+        toast({ title: 'Could not pause', description: 'Please try again.', variant: 'destructive' });
+      }
+    },
+    [send, toast]
+  );
+
+  const resume = useCallback(async () => {
+    if (await send(null)) toast({ title: 'Requests resumed', description: 'You will now receive service requests.' });
+  }, [send, toast]);
+
+  // Countdown, then resume automatically; one tab tells the server
+  useEffect(() => {
+    if (pausedUntil === null) return;
+    const end = (announce: boolean) =>
+      void claimOnce(`pause-end:${pausedUntil}`).then(async (won) => {
+        if (won && (await send(null)) && announce) {
+          toast({ title: 'Pause over', description: 'You will now receive service requests.' });
+        }
+      });
+    // Ended while the app was closed
+    if (Date.now() >= pausedUntil) {
+      end(false);
+      return;
+    }
+    const timer = setInterval(() => {
+      const time = Date.now();
+      setNow(time);
+      if (time < pausedUntil) return;
+      clearInterval(timer);
+      end(true);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [pausedUntil, send, toast]);
+
+  return {
+    isPaused,
+    pausedUntil: isPaused ? pausedUntil : null,
+    remainingMs: isPaused ? pausedUntil - now : 0,
+    busy,
+    pause,
+    resume,
+  };
+};
@@ -0,0 +1,400 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/core/api/client';
+import { usePendingRequests } from '@/core/query/hooks';
+import { queryKeys } from '@/core/query/keys';
+import { realtime } from '@/core/socket/realtime';
+import { tabChannel } from '@/core/tabs/channel';
+import { claimOnce } from '@/core/tabs/claim';
+import { createLogger } from '@/core/logging/logger';
+import { useToast } from '@/hooks/use-toast';
+import { ruleStore } from '@/features/rules';
+import { requestLog, type OfferOutcome } from '@/features/history/requestLog';
+import { requestAlerts } from '@/features/notifications/requestAlerts';
+import { onNotificationAction } from '@/core/sw/registration';
+import type { GatewayInbound } from '@/core/socket/events';
+import type { DeclineDetails, DeclineReason, Service } from '@/types';
+
+// Incoming service requests, one entry per offer with its own deadline.
+// Several can be open at once; accepting one declines the rest. Every entry
+// ends with an outcome, kept on screen briefly so the helper sees what
+// happened to it. The helper's rules (features/rules) may answer a request
+// as soon as it arrives. Offers and outcomes also go to the request log
+// behind the "Missed requests" view (features/history).
+
+export type RequestOutcome = OfferOutcome;
+export type RequestSort = 'urgency' | 'distance' | 'fare';
+
+export interface IncomingRequest {
+  service: Service;
+  deadline: number;
+  receivedAt: number;
+  outcome: RequestOutcome | null;
+  resolvedAt?: number;
+  // Name of the rule that answered it
+  autoRule?: string;
+}
+
+// Without a deadline from the server
+const DEFAULT_WINDOW_MS = 30_000;
+// How long a resolved request stays listed with its outcome
+const RESOLVED_LINGER_MS = 4_000;
+const TICK_MS = 500;
+
+// Every open tab sees the same requests; decisions made in one are shared
+// with the others so the entry closes everywhere.
+const REQUEST_RESOLVED = 'dashboard:request-resolved';
+
+interface RequestResolved {
+  serviceId: string;
+  outcome: RequestOutcome;
+}
+
+const announceResolved = (serviceId: string, outcome: RequestOutcome) =>
+  tabChannel.post(REQUEST_RESOLVED, { serviceId, outcome } satisfies RequestResolved);
+
+const log = createLogger('app');
+
+const URGENCY_RANK: Record<NonNullable<Service['urgency']>, number> = { high: 0, medium: 1, low: 2 };
+
+export const fareOf = (service: Service) => service.estimatedFare ?? service.estimatedPay;
+
+// Missing values sort last; ties go to the request that expires first
+export function rankRequests(requests: IncomingRequest[], sort: RequestSort): IncomingRequest[] {
+  const key = (r: IncomingRequest): number => {
+    switch (sort) {
+      case 'distance':
+        return r.service.distance ?? Infinity;
+      case 'fare':
+        return -(fareOf(r.service) ?? -Infinity);
+      case 'urgency':
+        return r.service.urgency ? URGENCY_RANK[r.service.urgency] : 3;
+    }
+  };
+  return [...requests].sort((a, b) => key(a) - key(b) || a.deadline - b.deadline);
+}
+
+const acceptErrorMessage = (error?: string) => {
+  const err = error?.toLowerCase() ?? '';
+  if (!error) return 'Request may have been taken by another helper';
+  if (err.includes('already') || err.includes('accepted')) return 'This request was already accepted by another helper';
+  if (err.includes('permission') || err.includes('authorized')) return 'You do not have permission to accept this request';
+  if (err.includes('active')) return 'You already have an active service. Complete it before accepting new requests.';
+  return error;
+};
+
+interface UseRequestQueueOptions {
+  // New requests are only taken while the helper is available
+  available: boolean;
+  // Open offers missed while offline are fetched only without a current job
+  hasActiveJob: boolean;
+}
+
+export const useRequestQueue = ({ available, hasActiveJob }: UseRequestQueueOptions) => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const queryClient = useQueryClient();
+  const [requests, setRequests] = useState<IncomingRequest[]>([]);
+  const [sort, setSort] = useState<RequestSort>('urgency');
+  const [now, setNow] = useState(() => Date.now());
+  const [acceptingId, setAcceptingId] = useState<string | null>(null);
+  // Requests already shown, so a refetch of the open offers does not bring
+  // back one that was answered or timed out
+  const seenRef = useRef(new Set<string>());
+  const requestsRef = useRef(requests);
+  requestsRef.current = requests;
+  const hasActiveJobRef = useRef(hasActiveJob);
+  hasActiveJobRef.current = hasActiveJob;
+  // The request a rule is accepting right now
+  const autoAcceptingRef = useRef<string | null>(null);
+
+  const resolve = useCallback(
+    (serviceId: string, outcome: RequestOutcome, details?: { decline?: DeclineDetails; ruleName?: string }) => {
+      setRequests((current) =>
+        current.map((r) =>
+          r.service.id === serviceId && !r.outcome ? { ...r, outcome, resolvedAt: Date.now() } : r
+        )
+      );
+      requestAlerts.stop(serviceId);
+      requestLog.resolved(serviceId, outcome, details);
+      log.info(`Request ${outcome}`, { serviceId, ...details?.decline });
+    },
+    []
+  );
+
+  // Back to open after an answer that did not go through
+  const reopen = useCallback((serviceId: string) => {
+    setRequests((current) =>
+      current.map((r) => (r.service.id === serviceId && r.outcome ? { ...r, outcome: null, resolvedAt: undefined } : r))
+    );
+    requestLog.reopened(serviceId);
+  }, []);
+
+  // Accepted, declined or expired in another tab
+  useEffect(
+    () =>
+      tabChannel.on(REQUEST_RESOLVED, (payload) => {
+        const { serviceId, outcome } = payload as RequestResolved;
+        resolve(serviceId, outcome);
+        if (outcome === 'accepted') {
+          void queryClient.invalidateQueries({ queryKey: queryKeys.services.active() });
+        }
+      }),
+    [queryClient, resolve]
+  );
+
+  const decline = useCallback(
+    // True if this tab sent the decline
+    async (serviceId: string, details: DeclineDetails = { source: 'manual' }) => {
+      const auto = details.source !== 'manual';
+      const outcome = details.source === 'timeout' ? 'expired' : 'declined';
+      resolve(serviceId, outcome, { decline: details });
+      // Only one tab declines on the helper's behalf
+      if (auto && !(await claimOnce(`decline:${serviceId}`))) return false;
+      let declined = false;
+      try {
+        declined = (await apiClient.declineService(serviceId, details)).success;
+      } catch (error) {
+        log.warn('Decline failed', { serviceId, error: error instanceof Error ? error.message : String(error) });
+      }
+      // Other tabs close it once the server has it
+      if (declined) announceResolved(serviceId, outcome);
+
+      if (auto) {
+        // Nobody is waiting on an automatic decline; if it did not go
+        // through, the offer lapses on the server by itself
+        if (!declined) log.warn('Automatic decline not sent', { serviceId, source: details.source });
+        return true;
+      }
+      if (declined) {
+        toast({
+          title: 'Request Declined',
+          description: 'Waiting for new requests...',
+        });
+      } else {
+        // Still the helper's to answer
+        reopen(serviceId);
+        toast({
+          title: 'Could not decline request',
+          description: 'The request is still open. Please try again.',
+          variant: 'destructive',
+        });
+      }
+      return true;
+    },
+    [reopen, resolve, toast]
+  );
+
+  const accept = useCallback(
+    async (serviceId: string) => {
+      setAcceptingId(serviceId);
+      try {
+        // Ensure realtime socket is connected when accepting so we receive updates immediately
+        if (!realtime.gateway.isConnected()) {
+          realtime.connect();
+        }
+
+        const response = await apiClient.acceptService(serviceId);
+        if (response.success) {
+          toast({
+            title: 'Request Accepted!',
+            description: 'Navigating to job details...',
+          });
+          resolve(serviceId, 'accepted', {
+            ruleName: requestsRef.current.find((r) => r.service.id === serviceId)?.autoRule,
+          });
+          announceResolved(serviceId, 'accepted');
+          // One job at a time: the other open offers go back to dispatch
+          requestsRef.current
+            .filter((r) => !r.outcome && r.service.id !== serviceId)
+            .forEach((r) => void decline(r.service.id, { source: 'superseded' }));
+          void queryClient.invalidateQueries({ queryKey: queryKeys.services.active() });
+          navigate(`/jobs/${serviceId}`);
+          return;
+        }
+
+        const message = acceptErrorMessage(response.error);
+        toast({
+          title: 'Failed to Accept',
+          description: message,
+          variant: 'destructive',
+        });
+        // With a job already running the offers stay; anything else means
+        // this one is gone
+        if (!response.error?.toLowerCase().includes('active')) {
+          resolve(serviceId, 'taken');
+          announceResolved(serviceId, 'taken');
+        }
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Failed to accept request';
+        toast({
+          title: 'Error',
+          description: errorMsg,
+          variant: 'destructive',
+        });
+      } finally {
+        setAcceptingId(null);
+      }
+    },
+    [decline, navigate, queryClient, resolve, toast]
+  );
+
+  const present = useCallback(
+    (service: Service, deadline: number) => {
+      if (seenRef.current.has(service.id)) return;
+      seenRef.current.add(service.id);
+      requestLog.offered(service);
+
+      // Every tab evaluates the same rules; the one that wins the claim acts
+      // and logs the decision
+      const decision = ruleStore.evaluate(service);
+      // One job at a time, and never while another accept is on its way
+      const autoAccept = decision?.action === 'accept' && !hasActiveJobRef.current && !autoAcceptingRef.current;
+
+      // Declined without interrupting the helper; the toast and the decision
+      // log say why
+      if (decision?.action === 'decline') {
+        void decline(service.id, { source: 'rule', ruleName: decision.ruleName }).then((sent) => {
+          if (!sent) return;
+          ruleStore.record(service, decision);
+          toast({ title: 'Request auto-declined', description: `Rule “${decision.ruleName}”` });
+        });
+        return;
+      }
+
+      const autoRule = autoAccept ? decision.ruleName : undefined;
+      setRequests((current) => [...current, { service, deadline, receivedAt: Date.now(), outcome: null, autoRule }]);
+      requestAlerts.start(service, deadline);
+      if (decision && autoAccept) {
+        autoAcceptingRef.current = service.id;
+        toast({ title: 'Auto-accepting request', description: `Rule “${decision.ruleName}”` });
+        void claimOnce(`accept:${service.id}`)
+          .then((won) => {
+            if (!won) return;
+            ruleStore.record(service, decision);
+            return accept(service.id);
+          })
+          .finally(() => {
+            autoAcceptingRef.current = null;
+          });
+        return;
+      }
+      toast({
+        title: 'New Service Request!',
+        description: `Patient needs ${Array.isArray(service.serviceType) ? service.serviceType.join(', ') : service.serviceType}`,
+      });
+    },
+    [accept, decline, toast]
+  );
+
+  // Offers pushed by the gateway, and what happened to them elsewhere
+  useEffect(() => {
+    const offRequest = realtime.gateway.on('service:request', (data: GatewayInbound['service:request']) => {
+      if (!available || !data?.service) return;
+      const deadline =
+        typeof data.responseDeadline === 'number'
+          ? data.responseDeadline
+          : Date.now() + (data.expiresInMs ?? DEFAULT_WINDOW_MS);
+      present(data.service, deadline);
+    });
+    const offTaken = realtime.gateway.on('service:taken', (data) => {
+      if (data?.serviceId) resolve(data.serviceId, 'taken');
+    });
+    const offCancelled = realtime.gateway.on('service:cancelled', (data) => {
+      const serviceId = data?.serviceId ?? data?.service?.id;
+      if (serviceId) resolve(serviceId, 'cancelled');
+    });
+    return () => {
+      offRequest();
+      offTaken();
+      offCancelled();
+    };
+  }, [available, present, resolve]);
+
+  // Accept / Decline on the system notification (see core/sw); every tab
+  // hears it, one acts
+  useEffect(
+    () =>
+      onNotificationAction(({ action, serviceId }) => {
+        if (action === 'open') return;
+        const open = requestsRef.current.some((r) => r.service.id === serviceId && !r.outcome);
+        if (!open) return;
+        void claimOnce(`notification:${serviceId}`).then((won) => {
+          if (!won) return;
+          if (action === 'accept') void accept(serviceId);
+          else void decline(serviceId);
+        });
+      }),
+    [accept, decline]
+  );
+
+  // The same answer given while the app was closed: the service worker opens
+  // the dashboard with it in the URL
+  useEffect(() => {
+    const action = searchParams.get('notificationAction');
+    const serviceId = searchParams.get('serviceId');
+    if (!action || !serviceId) return;
+    setSearchParams(
+      (params) => {
+        params.delete('notificationAction');
+        params.delete('serviceId');
+        return params;
+      },
+      { replace: true }
+    );
+    // Answered already; not offered again when the open offers are fetched
+    seenRef.current.add(serviceId);
+    void claimOnce(`notification:${serviceId}`).then((won) => {
+      if (!won) return;
+      if (action === 'accept') void accept(serviceId);
+      else if (action === 'decline') void decline(serviceId);
+    });
+  }, [accept, decline, searchParams, setSearchParams]);
+
+  // Offers made while the socket was down; refetched on reconnect (see
+  // core/query/useSocketQuerySync)
+  const { data: openRequests } = usePendingRequests(available && !hasActiveJob);
+  useEffect(() => {
+    openRequests?.forEach((s) => present(s, Date.now() + (s.expiresInMs ?? DEFAULT_WINDOW_MS)));
+  }, [openRequests, present]);
+
+  // One clock for every countdown; expires requests and clears out the
+  // resolved ones once they have been shown long enough
+  const hasRequests = requests.length > 0;
+  useEffect(() => {
+    if (!hasRequests) return;
+    const tick = () => {
+      const time = Date.now();
+      setNow(time);
+      const expired = requestsRef.current.filter((r) => !r.outcome && r.deadline <= time);
+      if (expired.length) {
+        toast({
+          title: expired.length > 1 ? `${expired.length} requests timed out` : 'Request timed out',
+          description: 'We are notifying the next nearest helper.',
+        });
+        expired.forEach((r) => void decline(r.service.id, { source: 'timeout' }));
+      }
+      if (requestsRef.current.some((r) => r.resolvedAt && time - r.resolvedAt >= RESOLVED_LINGER_MS)) {
+        setRequests((current) => current.filter((r) => !r.resolvedAt || time - r.resolvedAt < RESOLVED_LINGER_MS));
+      }
+    };
+    tick();
+    const interval = window.setInterval(tick, TICK_MS);
+    return () => window.clearInterval(interval);
+  }, [hasRequests, decline, toast]);
+
+  const ranked = useMemo(() => rankRequests(requests, sort), [requests, sort]);
+
+  return {
+    requests: ranked,
+    open: ranked.filter((r) => !r.outcome).length,
+    now,
+    sort,
+    setSort,
+    acceptingId,
+    accept,
+    decline: (serviceId: string, reason?: DeclineReason) => void decline(serviceId, { source: 'manual', reason }),
+  };
+};
@@ -8,3 +8,5 @@ export { default as DashboardPage } from './pages/DashboardPage';
 // Components
 export { default as AvailabilityToggle } from './components/AvailabilityToggle';
 export { default as EarningsSummary } from './components/EarningsSummary';
+export { default as IncomingRequests } from './components/IncomingRequests';
+export { default as PauseControl } from './components/PauseControl';
@@ -1,66 +1,43 @@
-import { useEffect, useState } from 'react';
+import { useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/features/auth';
 import { DollarSign, TrendingUp, Wallet, Calendar, Download } from 'lucide-react';
 import PremiumPage from '@/components/layout/PremiumPage';
-import { apiClient } from '@/core/api/client';
+import { useHelperEarnings } from '@/core/query/hooks';
 
 export default function EarningsPage() {
   const { helper } = useAuth();
-  const [monthlyEarnings, setMonthlyEarnings] = useState<number>(0);
-  const [growth, setGrowth] = useState<string>('0%');
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    const fetchEarningsData = async () => {
-      try {
-        setLoading(true);
-        const now = new Date();
-        const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-        const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-        
-        const response = await apiClient.getHelperEarnings(
-          startOfMonth.toISOString(),
-          endOfMonth.toISOString()
-        );
-        
-        if (response.success && response.data) {
-          const data = response.data as any;
-          setMonthlyEarnings(data.totalEarnings || 0);
-          
-          // Calculate growth (compare with previous month)
-          const startOfLastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-          const endOfLastMonth = new Date(now.getFullYear(), now.getMonth(), 0);
-          
-          const lastMonthResponse = await apiClient.getHelperEarnings(
-            startOfLastMonth.toISOString(),
-            endOfLastMonth.toISOString()
-          );
-          
-          if (lastMonthResponse.success && lastMonthResponse.data) {
-            const lastMonthData = lastMonthResponse.data as any;
-            const lastMonthEarnings = lastMonthData.totalEarnings || 0;
-            const currentMonthEarnings = data.totalEarnings || 0;
-            
-            if (lastMonthEarnings > 0) {
-              const growthPercent = ((currentMonthEarnings - lastMonthEarnings) / lastMonthEarnings) * 100;
-              setGrowth(`${growthPercent >= 0 ? '+' : ''}${growthPercent.toFixed(1)}%`);
-            } else {
-              setGrowth(currentMonthEarnings > 0 ? '+100%' : '0%');
-            }
-          }
-        }
-      } catch (error) {
-        console.error('Failed to fetch earnings data:', error);
-      } finally {
-        setLoading(false);
-      }
+  const { current, previous } = useMemo(() => {
+    const now = new Date();
+    return {
+      current: [
+        new Date(now.getFullYear(), now.getMonth(), 1).toISOString(),
+        new Date(now.getFullYear(), now.getMonth() + 1, 0).toISOString(),
+      ] as const,
+      previous: [
+        new Date(now.getFullYear(), now.getMonth() - 1, 1).toISOString(),
+        new Date(now.getFullYear(), now.getMonth(), 0).toISOString(),
+      ] as const,
     };
-
-    fetchEarningsData();
   }, []);
+  const thisMonth = useHelperEarnings(...current);
+  const lastMonth = useHelperEarnings(...previous);
+  const loading = thisMonth.isLoading || lastMonth.isLoading;
+  const monthlyEarnings = thisMonth.data?.totalEarnings ?? 0;
+
+  // Calculate growth (compare with previous month)
+  let growth = '0%';
+  if (thisMonth.data && lastMonth.data) {
+    const lastMonthEarnings = lastMonth.data.totalEarnings;
+    if (lastMonthEarnings > 0) {
+      const growthPercent = ((monthlyEarnings - lastMonthEarnings) / lastMonthEarnings) * 100;
+      growth = `${growthPercent >= 0 ? '+' : ''}${growthPercent.toFixed(1)}%`;
+    } else {
+      growth = monthlyEarnings > 0 ? '+100%' : '0%';
+    }
+  }
 
   const stats = [
     { label: 'Total Earned', value: `₹${helper?.totalEarnings?.toFixed(2) || '0.00'}`, icon: DollarSign, color: 'text-primary' },
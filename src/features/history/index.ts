@@ -4,3 +4,9 @@
 
 // Pages
 export { default as HistoryPage } from './pages/HistoryPage';
+export { default as MissedRequestsPage } from './pages/MissedRequestsPage';
+
+// Request log
+export { requestLog } from './requestLog';
+export type { OfferOutcome, OfferRecord } from './requestLog';
+export { useRequestLog } from './useRequestLog';
@@ -1,67 +1,46 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Clock, Calendar, Star, Loader2 } from 'lucide-react';
-import { apiClient } from '@/core/api/client';
+import { pageItems, useServiceHistory } from '@/core/query/hooks';
+import { useVirtualList } from '@/hooks/useVirtualList';
 import { useToast } from '@/hooks/use-toast';
+import type { HistoryItem } from '@/types';
+import { createLogger } from '@/core/logging/logger';
 
-interface HistoryItem {
-  id: string;
-  patientUser?: { name?: string };
-  patient?: { name?: string };
-  serviceType: string | string[];
-  fare?: number;
-  finalFare?: number; // Keep for backward compatibility
-  patientRating?: number;
-  rating?: number | { patientRating?: number; helperRating?: number };
-  createdAt: string;
-  requestedAt?: string;
-  status: string;
-}
+const log = createLogger('app');
 
 export default function HistoryPage() {
-  const [history, setHistory] = useState<HistoryItem[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data, isLoading: loading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useServiceHistory();
+  const history: HistoryItem[] = pageItems(data?.pages);
+  const total = data?.pages[0]?.total;
   const { toast } = useToast();
+  const navigate = useNavigate();
 
-  useEffect(() => {
-    const fetchHistory = async () => {
-      try {
-        const response = await apiClient.getServiceHistory();
-        if (response.success && response.data) {
-          // Handle both array format and object with services array
-          const data = response.data as any;
-          if (Array.isArray(data)) {
-            setHistory(data as HistoryItem[]);
-          } else if (data.services && Array.isArray(data.services)) {
-            setHistory(data.services as HistoryItem[]);
-          } else {
-            setHistory([]);
-          }
-        } else {
-          toast({
-            title: 'Error',
-            description: response.error || 'Failed to load service history',
-            variant: 'destructive',
-          });
-          setHistory([]);
-        }
-      } catch (error: any) {
-        console.error('History fetch error:', error);
-        toast({
-          title: 'Error',
-          description: error?.message || 'Failed to load service history',
-          variant: 'destructive',
-        });
-        setHistory([]);
-      } finally {
-        setLoading(false);
-      }
-    };
+  // Pages load as the helper scrolls; only rows near the viewport are mounted
+  const loadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) void fetchNextPage();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+  const { listRef, rows, totalSize, measure } = useVirtualList({
+    count: history.length,
+    getKey: (index) => history[index].id,
+    estimateSize: 150,
+    gap: 16,
+    onEndReached: loadMore,
+  });
 
-    fetchHistory();
-  }, [toast]);
+  useEffect(() => {
+    if (!error) return;
+    log.error('History fetch error', error);
+    toast({
+      title: 'Error',
+      description: error.message || 'Failed to load service history',
+      variant: 'destructive',
+    });
+  }, [error, toast]);
 
   if (loading) {
     return (
@@ -78,9 +57,16 @@ export default function HistoryPage() {
           initial={{ opacity: 0, y: -20 }}
           animate={{ opacity: 1, y: 0 }}
         >
-          <h1 className="text-3xl font-bold mb-2">Service History</h1>
+          <div className="flex items-start justify-between gap-4">
+            <h1 className="text-3xl font-bold mb-2">Service History</h1>
+            <Button variant="outline" size="sm" onClick={() => navigate('/history/missed')}>
+              Missed requests
+            </Button>
+          </div>
           <p className="text-muted-foreground">
-            {history.length > 0 ? `${history.length} completed services` : 'No services yet'}
+            {history.length > 0
+              ? `${total ?? history.length}${total === undefined && hasNextPage ? '+' : ''} completed services`
+              : 'No services yet'}
           </p>
         </motion.div>
 
@@ -95,82 +81,92 @@ export default function HistoryPage() {
             </CardContent>
           </Card>
         ) : (
-          <div className="space-y-4">
-            {history.map((item, index) => (
-              <motion.div
-                key={item.id}
-                initial={{ opacity: 0, x: -20 }}
-                animate={{ opacity: 1, x: 0 }}
-                transition={{ delay: index * 0.1 }}
-              >
-                <Card className="border-none shadow-lg hover:shadow-xl transition-shadow">
-                  <CardContent className="p-5">
-                    <div className="flex items-start justify-between mb-4">
-                      <div className="flex items-center gap-3">
-                        <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-primary/20 to-primary/5 flex items-center justify-center">
-                          <Calendar className="w-6 h-6 text-primary" />
-                        </div>
-                        <div>
-                          <p className="font-semibold text-base">
-                            {item.patientUser?.name || item.patient?.name || 'Patient'}
-                          </p>
-                          <p className="text-sm text-muted-foreground">
-                            {Array.isArray(item.serviceType) 
-                              ? item.serviceType.join(', ') 
-                              : item.serviceType}
-                          </p>
+          <div ref={listRef} className="relative" style={{ height: totalSize }}>
+            {rows.map(({ index, key, start }) => {
+              const item = history[index];
+              return (
+                <div
+                  key={key}
+                  ref={measure}
+                  data-virtual-key={key}
+                  className="absolute inset-x-0 top-0"
+                  style={{ transform: `translateY(${start}px)` }}
+                >
+                  <Card className="border-none shadow-lg hover:shadow-xl transition-shadow">
+                    <CardContent className="p-5">
+                      <div className="flex items-start justify-between mb-4">
+                        <div className="flex items-center gap-3">
+                          <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-primary/20 to-primary/5 flex items-center justify-center">
+                            <Calendar className="w-6 h-6 text-primary" />
+                          </div>
+                          <div>
+                            <p className="font-semibold text-base">
+                              {item.patientUser?.name || item.patient?.name || 'Patient'}
+                            </p>
+                            <p className="text-sm text-muted-foreground">
+                              {Array.isArray(item.serviceType) 
+                                ? item.serviceType.join(', ') 
+                                : item.serviceType}
+                            </p>
+                          </div>
                         </div>
+                        <Badge 
+                          className={
+                            item.status === 'COMPLETED' 
+                              ? 'bg-success text-success-foreground' 
+                              : 'bg-muted text-muted-foreground'
+                          }
+                        >
+                          {item.status}
+                        </Badge>
                       </div>
-                      <Badge 
-                        className={
-                          item.status === 'COMPLETED' 
-                            ? 'bg-success text-success-foreground' 
-                            : 'bg-muted text-muted-foreground'
-                        }
-                      >
-                        {item.status}
-                      </Badge>
-                    </div>
 
-                    <div className="flex items-center justify-between pt-3 border-t border-border">
-                      <div className="flex items-center gap-4">
-                        {(() => {
-                          // Get patient rating (helper sees what patient rated them)
-                          let ratingValue: number | null = null;
-                          if (item.patientRating) {
-                            ratingValue = typeof item.patientRating === 'number' ? item.patientRating : parseFloat(String(item.patientRating));
-                          } else if (item.rating) {
-                            if (typeof item.rating === 'number') {
-                              ratingValue = item.rating;
-                            } else if (typeof item.rating === 'object' && item.rating.patientRating) {
-                              ratingValue = typeof item.rating.patientRating === 'number' ? item.rating.patientRating : parseFloat(String(item.rating.patientRating));
+                      <div className="flex items-center justify-between pt-3 border-t border-border">
+                        <div className="flex items-center gap-4">
+                          {(() => {
+                            // Get patient rating (helper sees what patient rated them)
+                            let ratingValue: number | null = null;
+                            if (item.patientRating) {
+                              ratingValue = typeof item.patientRating === 'number' ? item.patientRating : parseFloat(String(item.patientRating));
+                            } else if (item.rating) {
+                              if (typeof item.rating === 'number') {
+                                ratingValue = item.rating;
+                              } else if (typeof item.rating === 'object' && item.rating.patientRating) {
+                                ratingValue = typeof item.rating.patientRating === 'number' ? item.rating.patientRating : parseFloat(String(item.rating.patientRating));
+                              }
                             }
-                          }
-                          return ratingValue && ratingValue > 0 ? (
-                            <div className="flex items-center gap-1">
-                              <Star className="w-4 h-4 fill-warning text-warning" />
-                              <span className="text-sm font-medium">{ratingValue.toFixed(1)}</span>
-                            </div>
-                          ) : null;
-                        })()}
-                        <div className="flex items-center gap-1 text-muted-foreground">
-                          <Clock className="w-4 h-4" />
-                          <span className="text-sm">
-                            {new Date(item.requestedAt || item.createdAt).toLocaleDateString()}
+                            return ratingValue && ratingValue > 0 ? (
+                              <div className="flex items-center gap-1">
+                                <Star className="w-4 h-4 fill-warning text-warning" />
+                                <span className="text-sm font-medium">{ratingValue.toFixed(1)}</span>
+                              </div>
+                            ) : null;
+                          })()}
+                          <div className="flex items-center gap-1 text-muted-foreground">
+                            <Clock className="w-4 h-4" />
+                            <span className="text-sm">
+                              {new Date(item.requestedAt || item.createdAt).toLocaleDateString()}
+                            </span>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <span className="text-sm text-muted-foreground">₹</span>
+                          <span className="text-lg font-bold text-success">
+                            {(item.fare || item.finalFare)?.toFixed(2) || '0.00'}
                           </span>
                         </div>
                       </div>
-                      <div className="flex items-center gap-1">
-                        <span className="text-sm text-muted-foreground">₹</span>
-                        <span className="text-lg font-bold text-success">
-                          {(item.fare || item.finalFare)?.toFixed(2) || '0.00'}
-                        </span>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              </motion.div>
-            ))}
+                    </CardContent>
+                  </Card>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {isFetchingNextPage && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
           </div>
         )}
       </div>
@@ -0,0 +1,190 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Check, Clock, IndianRupee, Inbox, Navigation, X } from 'lucide-react';
+import PremiumPage from '@/components/layout/PremiumPage';
+import { Button } from '@/components/ui/button';
+import { DECLINE_REASONS } from '@/core/config/constants';
+import { cn } from '@/lib/utils';
+import type { OfferRecord } from '../requestLog';
+import { useRequestLog } from '../useRequestLog';
+
+type Filter = 'missed' | 'accepted' | 'all';
+
+const FILTERS: { value: Filter; label: string }[] = [
+  { value: 'missed', label: 'Missed' },
+  { value: 'accepted', label: 'Accepted' },
+  { value: 'all', label: 'All' },
+];
+
+// Offers that went to someone else because of the helper; a patient
+// cancelling is not a miss
+const isMissed = (r: OfferRecord) => r.outcome === 'declined' || r.outcome === 'expired' || r.outcome === 'taken';
+
+// What happened, in words; rule names only in the per-request list
+function describeOutcome(r: OfferRecord, withRule = true): string {
+  const rule = (name?: string) => (withRule && name ? ` “${name}”` : '');
+  switch (r.outcome) {
+    case 'accepted':
+      return r.ruleName ? `Accepted by rule${rule(r.ruleName)}` : 'Accepted';
+    case 'expired':
+      return 'Timed out';
+    case 'taken':
+      return 'Taken by another helper';
+    case 'cancelled':
+      return 'Cancelled by the patient';
+    case 'declined': {
+      const d = r.decline;
+      if (d?.source === 'rule') return `Declined by rule${rule(d.ruleName)}`;
+      if (d?.source === 'superseded') return 'Declined — took another request';
+      return d?.reason ? `Declined — ${DECLINE_REASONS[d.reason].toLowerCase()}` : 'Declined';
+    }
+    default:
+      return 'Open';
+  }
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString([], { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Every request the helper was offered and what became of it, so they can
+// see what they are leaving on the table and why
+export default function MissedRequestsPage() {
+  const { records, clear } = useRequestLog();
+  const [filter, setFilter] = useState<Filter>('missed');
+
+  const summary = useMemo(() => {
+    const missed = records.filter(isMissed);
+    const causes = new Map<string, number>();
+    missed.forEach((r) => {
+      const cause = describeOutcome(r, false);
+      causes.set(cause, (causes.get(cause) ?? 0) + 1);
+    });
+    const resolved = records.filter((r) => r.outcome && r.outcome !== 'cancelled').length;
+    const accepted = records.filter((r) => r.outcome === 'accepted').length;
+    return {
+      offered: records.length,
+      accepted,
+      acceptance: resolved ? Math.round((accepted / resolved) * 100) : null,
+      missed: missed.length,
+      missedFare: missed.reduce((sum, r) => sum + (r.fare ?? 0), 0),
+      causes: [...causes.entries()].sort((a, b) => b[1] - a[1]),
+    };
+  }, [records]);
+
+  const shown = records.filter((r) =>
+    filter === 'all' ? true : filter === 'missed' ? isMissed(r) : r.outcome === 'accepted'
+  );
+
+  const stats = [
+    { label: 'Offered', value: summary.offered },
+    { label: 'Accepted', value: summary.acceptance === null ? summary.accepted : `${summary.accepted} (${summary.acceptance}%)` },
+    { label: 'Missed', value: summary.missed },
+    { label: 'Left on the table', value: `₹${summary.missedFare}` },
+  ];
+
+  return (
+    <PremiumPage
+      title="Missed requests"
+      subtitle="Every request you were offered, and what happened to it"
+      headerExtra={
+        records.length > 0 && (
+          <Button size="sm" variant="ghost" onClick={clear}>
+            Clear
+          </Button>
+        )
+      }
+    >
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        {stats.map((s) => (
+          <div key={s.label} className="rounded-2xl p-4 bg-card border border-border/40 shadow-sm">
+            <p className="text-xs text-muted-foreground">{s.label}</p>
+            <p className="text-2xl font-semibold">{s.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {summary.causes.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 6 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="rounded-2xl p-6 bg-card border border-border/40 shadow-sm space-y-3"
+        >
+          <h2 className="text-lg font-semibold">Why requests were missed</h2>
+          <ul className="space-y-2">
+            {summary.causes.map(([cause, count]) => (
+              <li key={cause} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span>{cause}</span>
+                  <span className="text-muted-foreground tabular-nums">{count}</span>
+                </div>
+                <div className="h-2 rounded-full bg-muted overflow-hidden">
+                  <div className="h-full rounded-full bg-amber-500" style={{ width: `${(count / summary.missed) * 100}%` }} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </motion.div>
+      )}
+
+      <div className="flex items-center gap-2">
+        {FILTERS.map((option) => (
+          <Button
+            key={option.value}
+            size="sm"
+            variant={filter === option.value ? 'default' : 'outline'}
+            onClick={() => setFilter(option.value)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      {shown.length === 0 ? (
+        <div className="rounded-2xl border border-dashed p-12 text-center text-muted-foreground">
+          <Inbox className="w-12 h-12 mx-auto mb-3 opacity-50" />
+          <p>{records.length === 0 ? 'Requests you are offered will show up here.' : 'Nothing here.'}</p>
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {shown.map((r) => (
+            <li key={r.serviceId} className="rounded-2xl p-4 bg-card border border-border/40 shadow-sm flex items-start gap-3">
+              {r.outcome === 'accepted' ? (
+                <Check className="w-5 h-5 mt-0.5 text-success shrink-0" />
+              ) : (
+                <X className={cn('w-5 h-5 mt-0.5 shrink-0', isMissed(r) ? 'text-destructive' : 'text-muted-foreground')} />
+              )}
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-start justify-between gap-3">
+                  <p className="font-medium truncate">
+                    {r.serviceType}
+                    {r.hospitalName && <span className="text-muted-foreground"> · {r.hospitalName}</span>}
+                  </p>
+                  {r.fare !== undefined && (
+                    <span className="inline-flex items-center text-sm font-semibold shrink-0">
+                      <IndianRupee className="w-3.5 h-3.5" />
+                      {r.fare}
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm">{describeOutcome(r)}</p>
+                <div className="flex flex-wrap gap-x-4 text-xs text-muted-foreground">
+                  <span className="inline-flex items-center gap-1">
+                    <Clock className="w-3.5 h-3.5" />
+                    {formatTime(r.offeredAt)}
+                  </span>
+                  {r.distance !== undefined && (
+                    <span className="inline-flex items-center gap-1">
+                      <Navigation className="w-3.5 h-3.5" />
+                      {r.distance} km
+                    </span>
+                  )}
+                  {r.urgency && <span className="capitalize">{r.urgency} urgency</span>}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </PremiumPage>
+  );
+}
@@ -0,0 +1,154 @@
+import { tokenManager } from '@/core/auth/tokenManager';
+import { createLogger } from '@/core/logging/logger';
+import type { DeclineDetails, Service } from '@/types';
+
+// Every request the helper was offered and what became of it, for the
+// "Missed requests" view. Kept in localStorage per helper. Every open tab
+// records the same offers, so entries are keyed by service and each write
+// starts from what is stored, not from this tab's copy.
+
+export type OfferOutcome = 'accepted' | 'declined' | 'expired' | 'taken' | 'cancelled';
+
+export interface OfferRecord {
+  serviceId: string;
+  serviceType: string;
+  hospitalName?: string;
+  distance?: number;
+  fare?: number;
+  urgency?: Service['urgency'];
+  offeredAt: string;
+  // Null while the offer is open
+  outcome: OfferOutcome | null;
+  resolvedAt?: string;
+  decline?: DeclineDetails;
+  // The rule that accepted it
+  ruleName?: string;
+}
+
+type Listener = (records: OfferRecord[]) => void;
+
+const LOG_SIZE = 200;
+
+const log = createLogger('app');
+
+const keyFor = (userId: string) => `requestLog:${userId}`;
+
+function read(key: string): OfferRecord[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(key) ?? '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+const serviceTypeOf = (service: Service) =>
+  Array.isArray(service.serviceType) ? service.serviceType.join(', ') : service.serviceType;
+
+class RequestLog {
+  private userId: string | null = null;
+  private records: OfferRecord[] = [];
+  private listeners = new Set<Listener>();
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', (event) => {
+        if (this.userId && event.key === keyFor(this.userId)) this.load(this.userId);
+      });
+    }
+  }
+
+  subscribe(listener: Listener) {
+    this.listeners.add(listener);
+    listener(this.current());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  offered(service: Service, at = new Date()) {
+    this.write((records) => {
+      if (records.some((r) => r.serviceId === service.id)) return records;
+      const record: OfferRecord = {
+        serviceId: service.id,
+        serviceType: serviceTypeOf(service),
+        hospitalName: service.hospitalName,
+        distance: service.distance,
+        fare: service.estimatedFare ?? service.estimatedPay,
+        urgency: service.urgency,
+        offeredAt: at.toISOString(),
+        outcome: null,
+      };
+      return [record, ...records].slice(0, LOG_SIZE);
+    });
+  }
+
+  // The first outcome sticks; details fill in whatever another tab left out
+  resolved(serviceId: string, outcome: OfferOutcome, details: Pick<OfferRecord, 'decline' | 'ruleName'> = {}) {
+    this.write((records) =>
+      records.map((r) => {
+        if (r.serviceId !== serviceId) return r;
+        return {
+          ...r,
+          outcome: r.outcome ?? outcome,
+          resolvedAt: r.resolvedAt ?? new Date().toISOString(),
+          decline: r.decline ?? details.decline,
+          ruleName: r.ruleName ?? details.ruleName,
+        };
+      })
+    );
+  }
+
+  // A decline that never reached the server; the offer is open again
+  reopened(serviceId: string) {
+    this.write((records) =>
+      records.map((r) =>
+        r.serviceId === serviceId ? { ...r, outcome: null, resolvedAt: undefined, decline: undefined } : r
+      )
+    );
+  }
+
+  clear() {
+    this.write(() => []);
+  }
+
+  private write(update: (records: OfferRecord[]) => OfferRecord[]) {
+    this.current();
+    if (!this.userId) return;
+    const key = keyFor(this.userId);
+    const records = update(read(key));
+    // A full or unavailable storage (private mode) costs only the history,
+    // never the offer being shown
+    try {
+      localStorage.setItem(key, JSON.stringify(records));
+    } catch (error) {
+      log.warn('Could not persist the request log', error);
+    }
+    this.update(records);
+  }
+
+  // Follow whoever is signed in
+  private current() {
+    const userId = tokenManager.userId();
+    if (userId !== this.userId) {
+      if (userId) this.load(userId);
+      else {
+        this.userId = null;
+        this.records = [];
+      }
+    }
+    return this.records;
+  }
+
+  private load(userId: string) {
+    this.userId = userId;
+    this.update(read(keyFor(userId)));
+  }
+
+  private update(records: OfferRecord[]) {
+    this.records = records;
+    this.listeners.forEach((l) => l(records));
+  }
+}
+
+export const requestLog = new RequestLog();
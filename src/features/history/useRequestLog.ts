@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+import { requestLog, type OfferRecord } from './requestLog';
+
+// Live view of every request the helper was offered.
+export const useRequestLog = () => {
+  const [records, setRecords] = useState<OfferRecord[]>([]);
+
+  useEffect(() => requestLog.subscribe(setRecords), []);
+
+  return { records, clear: () => requestLog.clear() };
+};
@@ -4,26 +4,23 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { MapPin, Navigation, MessageSquare, CheckCircle } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { LIFECYCLE_ACTIONS, lifecycleOf, type LifecycleState } from '../lifecycle';
 
 interface CurrentJobCardProps {
   service: CurrentJob;
 }
 
-export default function CurrentJobCard({ service }: CurrentJobCardProps) {
-  const getStatusConfig = (status: CurrentJob['status']) => {
-    switch (status) {
-      case 'ACCEPTED':
-        return { color: 'bg-primary', label: 'Accepted' };
-      case 'ARRIVED':
-        return { color: 'bg-warning', label: 'Arrived' };
-      case 'IN_PROGRESS':
-        return { color: 'bg-success', label: 'In Progress' };
-      default:
-        return { color: 'bg-muted', label: status };
-    }
-  };
+const STATE_COLORS: Partial<Record<LifecycleState, string>> = {
+  accepted: 'bg-primary',
+  arrived: 'bg-warning',
+  started: 'bg-success',
+  unknown: 'bg-destructive',
+};
 
-  const statusConfig = getStatusConfig(service.status);
+export default function CurrentJobCard({ service }: CurrentJobCardProps) {
+  const navigate = useNavigate();
+  const lifecycle = lifecycleOf(service);
 
   const openInMaps = () => {
     const lat = (service as any).patientLocation?.lat ?? (service as any).patientLat;
@@ -44,8 +41,8 @@ export default function CurrentJobCard({ service }: CurrentJobCardProps) {
               <div className="w-2 h-2 rounded-full bg-primary animate-pulse" />
               Current Job
             </CardTitle>
-            <Badge className={`${statusConfig.color} text-white`}>
-              {statusConfig.label}
+            <Badge className={`${STATE_COLORS[lifecycle.state] ?? 'bg-muted'} text-white`}>
+              {lifecycle.label}
             </Badge>
           </div>
         </CardHeader>
@@ -76,25 +73,11 @@ export default function CurrentJobCard({ service }: CurrentJobCardProps) {
             </Button>
           </div>
 
-          {/* Status Actions */}
-          {service.status === 'ACCEPTED' && (
-            <Button className="w-full h-11" variant="default">
-              <CheckCircle className="w-4 h-4 mr-2" />
-              Mark as Arrived
-            </Button>
-          )}
-
-          {service.status === 'ARRIVED' && (
-            <Button className="w-full h-11" variant="default">
-              <CheckCircle className="w-4 h-4 mr-2" />
-              Start Service
-            </Button>
-          )}
-
-          {service.status === 'IN_PROGRESS' && (
-            <Button className="w-full h-11" variant="default">
+          {/* The next step happens on the job screen */}
+          {lifecycle.action && (
+            <Button className="w-full h-11" variant="default" onClick={() => navigate(lifecycle.path)}>
               <CheckCircle className="w-4 h-4 mr-2" />
-              Complete Service
+              {LIFECYCLE_ACTIONS[lifecycle.action].label}
             </Button>
           )}
         </CardContent>
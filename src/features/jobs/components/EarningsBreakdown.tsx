@@ -8,10 +8,10 @@ interface EarningsBreakdownProps {
 }
 
 export default function EarningsBreakdown({ service }: EarningsBreakdownProps) {
-  const billedMinutes = (service as any).billedMinutes || 0;
+  const billedMinutes = service.billedMinutes || 0;
   const platformCharge = 15;
   const serviceCharge = billedMinutes * 2.5;
-  const totalFare = (service as any).fare ?? (platformCharge + serviceCharge);
+  const totalFare = service.fare ?? (platformCharge + serviceCharge);
   const helperEarnings = totalFare;
 
   return (
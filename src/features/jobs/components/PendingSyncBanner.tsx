@@ -0,0 +1,78 @@
+import { motion } from 'framer-motion';
+import { CloudOff, AlertTriangle, RefreshCw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { OutboxAction } from '@/core/offline/outbox';
+
+interface PendingSyncBannerProps {
+  pending: OutboxAction[];
+  conflicts: OutboxAction[];
+  onRetry: () => void;
+  onDismiss: (id: string) => void;
+}
+
+const ACTION_LABELS: Record<OutboxAction['kind'], string> = {
+  arrive: 'Arrival',
+  verifyOtp: 'OTP verification',
+  complete: 'Job completion',
+  rate: 'Patient rating',
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export default function PendingSyncBanner({ pending, conflicts, onRetry, onDismiss }: PendingSyncBannerProps) {
+  if (pending.length === 0 && conflicts.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {pending.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: -6 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="rounded-2xl bg-amber-50 border border-amber-200 p-4"
+        >
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2 text-amber-900">
+              <CloudOff className="w-5 h-5" />
+              <p className="font-semibold text-sm">Pending sync</p>
+            </div>
+            <Button size="sm" variant="ghost" onClick={onRetry} className="text-amber-900 hover:bg-amber-100">
+              <RefreshCw className="w-4 h-4 mr-1" />
+              Retry now
+            </Button>
+          </div>
+          <ul className="mt-2 space-y-1 text-sm text-amber-800">
+            {pending.map((a) => (
+              <li key={a.id}>
+                {ACTION_LABELS[a.kind]} · saved at {formatTime(a.deviceTimestamp)}
+              </li>
+            ))}
+          </ul>
+          <p className="mt-2 text-xs text-amber-700">
+            These will be sent automatically when your connection returns.
+          </p>
+        </motion.div>
+      )}
+
+      {conflicts.map((a) => (
+        <motion.div
+          key={a.id}
+          initial={{ opacity: 0, y: -6 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="rounded-2xl bg-red-50 border border-red-200 p-4 flex items-start gap-3"
+        >
+          <AlertTriangle className="w-5 h-5 text-red-600 mt-0.5" />
+          <div className="flex-1">
+            <p className="font-semibold text-sm text-red-900">
+              {ACTION_LABELS[a.kind]} from {formatTime(a.deviceTimestamp)} could not be synced
+            </p>
+            <p className="text-sm text-red-800">{a.error}</p>
+          </div>
+          <Button size="icon" variant="ghost" onClick={() => onDismiss(a.id)} className="h-7 w-7 text-red-700">
+            <X className="w-4 h-4" />
+          </Button>
+        </motion.div>
+      ))}
+    </div>
+  );
+}
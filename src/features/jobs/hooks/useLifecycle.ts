@@ -0,0 +1,29 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { createLogger } from '@/core/logging/logger';
+import { canTransition, lifecycleOf, type Lifecycle, type LifecycleSource } from '../lifecycle';
+
+const log = createLogger('app');
+
+// The lifecycle of a service as it updates. The backend is the source of
+// truth, so a move the state machine does not allow is still shown, but it
+// is logged rather than passing silently. `arrivalMarked` is an arrival this
+// device sent that the service does not show yet.
+export function useLifecycle(service: LifecycleSource | null | undefined, arrivalMarked = false) {
+  const lifecycle = useMemo<Lifecycle | null>(
+    () => (service ? lifecycleOf(service, { arrivalMarked }) : null),
+    [service, arrivalMarked]
+  );
+
+  const previous = useRef<{ id: string; state: Lifecycle['state'] } | null>(null);
+  useEffect(() => {
+    if (!service || !lifecycle) return;
+    const before = previous.current;
+    previous.current = { id: service.id, state: lifecycle.state };
+    if (!before || before.id !== service.id || before.state === 'unknown') return;
+    if (!canTransition(before.state, lifecycle.state)) {
+      log.warn('Unexpected service transition', { serviceId: service.id, from: before.state, to: lifecycle.state });
+    }
+  }, [service, lifecycle]);
+
+  return lifecycle;
+}
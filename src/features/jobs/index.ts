@@ -8,3 +8,8 @@ export { default as JobsPage } from './pages/JobsPage';
 // Components
 export { default as CurrentJobCard } from './components/CurrentJobCard';
 export { default as ServiceRequestModal } from './components/ServiceRequestModal';
+
+// Lifecycle
+export { LIFECYCLE, LIFECYCLE_ACTIONS, canTransition, checkAction, lifecycleOf, reached } from './lifecycle';
+export type { Lifecycle, LifecycleAction, LifecycleState } from './lifecycle';
+export { useLifecycle } from './hooks/useLifecycle';
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { canTransition, checkAction, lifecycleOf, reached, type LifecycleSource } from './lifecycle';
+
+const job = (status: string, overrides: Partial<LifecycleSource> = {}): LifecycleSource => ({
+  id: 'svc1',
+  status,
+  ...overrides,
+});
+
+describe('lifecycleOf', () => {
+  it('maps each backend status to a state and a screen', () => {
+    expect(lifecycleOf(job('PENDING'))).toMatchObject({ state: 'requested', path: '/dashboard', isActive: false });
+    expect(lifecycleOf(job('ACCEPTED'))).toMatchObject({ state: 'accepted', action: 'arrive', path: '/jobs/svc1', isActive: true });
+    expect(lifecycleOf(job('COMPLETED'))).toMatchObject({ state: 'completed', label: 'Awaiting Payment', path: '/payment/svc1' });
+    expect(lifecycleOf(job('cancelled'))).toMatchObject({ state: 'cancelled', path: '/dashboard', isActive: false });
+  });
+
+  it('treats STARTED and IN_PROGRESS alike', () => {
+    expect(lifecycleOf(job('STARTED')).state).toBe('started');
+    expect(lifecycleOf(job('IN_PROGRESS')).state).toBe('started');
+  });
+
+  it('moves ahead of a status that lags behind what happened', () => {
+    expect(lifecycleOf(job('ACCEPTED', { arrivedAt: '2026-06-15T08:00:00Z' })).state).toBe('arrived');
+    expect(lifecycleOf(job('ACCEPTED'), { arrivalMarked: true }).state).toBe('arrived');
+    expect(lifecycleOf(job('ARRIVED', { otpVerified: true })).state).toBe('started');
+    expect(lifecycleOf(job('COMPLETED', { paymentStatus: 'COMPLETED' })).state).toBe('paid');
+  });
+
+  it('derives the guards from how far the job got', () => {
+    expect(lifecycleOf(job('ACCEPTED'))).toMatchObject({ arrivalMarked: false, otpVerified: false });
+    expect(lifecycleOf(job('ARRIVED'))).toMatchObject({ arrivalMarked: true, otpVerified: false });
+    expect(lifecycleOf(job('STARTED'))).toMatchObject({ arrivalMarked: true, otpVerified: true });
+  });
+
+  it('keeps a status it does not know as unknown, showing it as sent', () => {
+    expect(lifecycleOf(job('on_hold'))).toMatchObject({ state: 'unknown', label: 'ON_HOLD', action: null });
+  });
+});
+
+describe('reached', () => {
+  it('follows the way forward and never counts cancelled or unknown', () => {
+    expect(reached('started', 'arrived')).toBe(true);
+    expect(reached('accepted', 'arrived')).toBe(false);
+    expect(reached('cancelled', 'requested')).toBe(false);
+    expect(reached('unknown', 'requested')).toBe(false);
+  });
+});
+
+describe('canTransition', () => {
+  it('allows only the listed moves', () => {
+    expect(canTransition('accepted', 'started')).toBe(true);
+    expect(canTransition('started', 'completed')).toBe(true);
+    expect(canTransition('started', 'started')).toBe(true);
+    expect(canTransition('completed', 'started')).toBe(false);
+    expect(canTransition('paid', 'cancelled')).toBe(false);
+  });
+});
+
+describe('checkAction', () => {
+  it('allows the action of the current state', () => {
+    expect(checkAction(lifecycleOf(job('ACCEPTED')), 'arrive')).toEqual({ success: true });
+    expect(checkAction(lifecycleOf(job('ARRIVED')), 'verifyOtp')).toEqual({ success: true });
+    expect(checkAction(lifecycleOf(job('STARTED')), 'complete')).toEqual({ success: true });
+  });
+
+  it('refuses an action out of turn', () => {
+    expect(checkAction(lifecycleOf(job('ACCEPTED')), 'complete')).toEqual({
+      success: false,
+      error: 'Cannot complete the service while the job is accepted',
+    });
+    expect(checkAction(lifecycleOf(job('COMPLETED')), 'arrive').success).toBe(false);
+  });
+
+  it('names the step still missing', () => {
+    const arrived = { ...lifecycleOf(job('ARRIVED')), arrivalMarked: false };
+    expect(checkAction(arrived, 'verifyOtp')).toEqual({ success: false, error: 'Mark your arrival first' });
+    const started = { ...lifecycleOf(job('STARTED')), otpVerified: false };
+    expect(checkAction(started, 'complete')).toEqual({ success: false, error: "Verify the patient's OTP first" });
+  });
+
+  it('refuses any action on a job in an unknown state', () => {
+    expect(checkAction(lifecycleOf(job('ON_HOLD')), 'arrive')).toEqual({
+      success: false,
+      error: 'This job is in a state the app does not recognise (ON_HOLD)',
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { createLogger } from '@/core/logging/logger';
+import type { PaymentStatus, ServiceStatus } from '@/types';
+
+// A job's life from the helper's side, in one place: the states a service
+// goes through, which moves between them are allowed, and the one action the
+// helper can take in each state along with what it needs first. The
+// dashboard, job and payment screens all render from `lifecycleOf(service)`.
+//
+// The backend status alone is not enough. It reports STARTED or IN_PROGRESS
+// depending on the version, may leave a service ACCEPTED after arrival
+// (recording only `arrivedAt`), and keeps payment out of `status`. Statuses
+// it adds later come through as 'unknown' rather than being guessed at.
+
+export type LifecycleState =
+  | 'requested'
+  | 'accepted'
+  | 'arrived'
+  | 'started'
+  | 'completed'
+  | 'paid'
+  | 'cancelled'
+  | 'unknown';
+
+export type LifecycleAction = 'arrive' | 'verifyOtp' | 'complete';
+
+export type LifecycleGuard = 'arrivalMarked' | 'otpVerified';
+
+export type LifecycleScreen = 'dashboard' | 'job' | 'payment';
+
+interface StateSpec {
+  label: string;
+  // States the backend may move the job to next
+  next: LifecycleState[];
+  // What the helper does in this state
+  action: LifecycleAction | null;
+  // Where the helper should be while the job is in this state
+  screen: LifecycleScreen;
+}
+
+export const LIFECYCLE: Record<LifecycleState, StateSpec> = {
+  requested: { label: 'Requested', next: ['accepted', 'cancelled'], action: null, screen: 'dashboard' },
+  accepted: { label: 'Accepted', next: ['arrived', 'started', 'cancelled'], action: 'arrive', screen: 'job' },
+  arrived: { label: 'Arrived', next: ['started', 'cancelled'], action: 'verifyOtp', screen: 'job' },
+  started: { label: 'In Progress', next: ['completed', 'cancelled'], action: 'complete', screen: 'job' },
+  completed: { label: 'Awaiting Payment', next: ['paid'], action: null, screen: 'payment' },
+  paid: { label: 'Paid', next: [], action: null, screen: 'payment' },
+  cancelled: { label: 'Cancelled', next: [], action: null, screen: 'dashboard' },
+  unknown: { label: 'Unknown', next: [], action: null, screen: 'job' },
+};
+
+interface ActionSpec {
+  label: string;
+  // "Next: …", "Cannot … while the job is …"
+  verb: string;
+  to: LifecycleState;
+  requires: LifecycleGuard[];
+}
+
+export const LIFECYCLE_ACTIONS: Record<LifecycleAction, ActionSpec> = {
+  arrive: { label: "I've Arrived", verb: 'mark arrival', to: 'arrived', requires: [] },
+  verifyOtp: { label: 'Verify & Start', verb: 'start the service', to: 'started', requires: ['arrivalMarked'] },
+  complete: {
+    label: 'Complete Service',
+    verb: 'complete the service',
+    to: 'completed',
+    requires: ['arrivalMarked', 'otpVerified'],
+  },
+};
+
+const GUARD_ERRORS: Record<LifecycleGuard, string> = {
+  arrivalMarked: 'Mark your arrival first',
+  otpVerified: "Verify the patient's OTP first",
+};
+
+// Every status the backend is known to send
+const STATUS_STATES: Record<ServiceStatus, LifecycleState> = {
+  PENDING: 'requested',
+  ACCEPTED: 'accepted',
+  ARRIVED: 'arrived',
+  STARTED: 'started',
+  IN_PROGRESS: 'started',
+  COMPLETED: 'completed',
+  CANCELLED: 'cancelled',
+};
+
+// The way forward, for progress trackers; cancelled and unknown are off it
+const PROGRESSION: LifecycleState[] = ['requested', 'accepted', 'arrived', 'started', 'completed', 'paid'];
+
+export interface LifecycleSource {
+  id: string;
+  status: ServiceStatus | string;
+  otpVerified?: boolean;
+  arrivedAt?: string;
+  paymentStatus?: PaymentStatus;
+}
+
+export interface Lifecycle {
+  state: LifecycleState;
+  label: string;
+  // The backend's own status, shown as is when it is not one we know
+  status: string;
+  arrivalMarked: boolean;
+  otpVerified: boolean;
+  action: LifecycleAction | null;
+  // Accepted through started: the job the helper is working on
+  isActive: boolean;
+  // The screen for this job in its current state
+  path: string;
+}
+
+const log = createLogger('app');
+const reportedStatuses = new Set<string>();
+
+const isStatus = (status: string): status is ServiceStatus => Object.hasOwn(STATUS_STATES, status);
+
+// `arrivalMarked` covers an arrival this device sent (or queued offline)
+// that the backend has not reflected yet
+export function lifecycleOf(service: LifecycleSource, local: { arrivalMarked?: boolean } = {}): Lifecycle {
+  const status = String(service.status ?? '').toUpperCase();
+  let state: LifecycleState = isStatus(status) ? STATUS_STATES[status] : 'unknown';
+  if (state === 'unknown' && !reportedStatuses.has(status)) {
+    reportedStatuses.add(status);
+    log.warn('Unknown service status', { serviceId: service.id, status });
+  }
+
+  // Facts the status can lag behind
+  if (state === 'accepted' && (service.arrivedAt || local.arrivalMarked)) state = 'arrived';
+  if ((state === 'accepted' || state === 'arrived') && service.otpVerified) state = 'started';
+  if (state === 'completed' && service.paymentStatus === 'COMPLETED') state = 'paid';
+
+  // The backend only starts a job once the OTP checks out, and only after
+  // arrival
+  const otpVerified = service.otpVerified === true || reached(state, 'started');
+  const arrivalMarked = otpVerified || reached(state, 'arrived');
+  const spec = LIFECYCLE[state];
+  return {
+    state,
+    label: state === 'unknown' ? status || spec.label : spec.label,
+    status,
+    arrivalMarked,
+    otpVerified,
+    action: spec.action,
+    isActive: state === 'accepted' || state === 'arrived' || state === 'started',
+    path: spec.screen === 'payment' ? `/payment/${service.id}` : spec.screen === 'job' ? `/jobs/${service.id}` : '/dashboard',
+  };
+}
+
+// True once a job has got as far as `state`; never for cancelled or unknown
+export function reached(current: LifecycleState, state: LifecycleState) {
+  const at = PROGRESSION.indexOf(current);
+  return at >= 0 && at >= PROGRESSION.indexOf(state);
+}
+
+export const canTransition = (from: LifecycleState, to: LifecycleState) =>
+  from === to || LIFECYCLE[from].next.includes(to);
+
+// Whether the helper may take `action` now, and if not, why
+export function checkAction(lifecycle: Lifecycle, action: LifecycleAction): { success: boolean; error?: string } {
+  if (lifecycle.state === 'unknown') {
+    return { success: false, error: `This job is in a state the app does not recognise (${lifecycle.status})` };
+  }
+  const spec = LIFECYCLE_ACTIONS[action];
+  if (lifecycle.action !== action || !canTransition(lifecycle.state, spec.to)) {
+    return { success: false, error: `Cannot ${spec.verb} while the job is ${lifecycle.label.toLowerCase()}` };
+  }
+  const missing = spec.requires.find((guard) => !lifecycle[guard]);
+  return missing ? { success: false, error: GUARD_ERRORS[missing] } : { success: true };
+}
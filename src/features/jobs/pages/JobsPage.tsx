@@ -1,9 +1,11 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { apiClient } from '@/core/api/client';
-import { socketClient } from '@/core/socket/client';
-import type { Service } from '@/types';
+import { useService } from '@/core/query/hooks';
+import { realtime } from '@/core/socket/realtime';
+import type { GatewayInbound } from '@/core/socket/events';
+import { outbox } from '@/core/offline/outbox';
+import { useOutbox } from '@/core/offline/useOutbox';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
@@ -26,14 +28,15 @@ import {
 import PremiumPage from '@/components/layout/PremiumPage';
 import { ChatWindow } from '@/features/chat/ChatWindow';
 import EarningsBreakdown from '../components/EarningsBreakdown';
+import PendingSyncBanner from '../components/PendingSyncBanner';
+import { useLifecycle } from '../hooks/useLifecycle';
+import { LIFECYCLE_ACTIONS, checkAction, reached, type LifecycleAction } from '../lifecycle';
 
 export default function JobsPage() {
   const { serviceId } = useParams<{ serviceId: string }>();
   const navigate = useNavigate();
   const { toast } = useToast();
   const { helper } = useAuth();
-  const [service, setService] = useState<Service | null>(null);
-  const [loading, setLoading] = useState(true);
   const [otp, setOtp] = useState('');
   const [isVerifying, setIsVerifying] = useState(false);
   const [isArriving, setIsArriving] = useState(false);
@@ -42,6 +45,7 @@ export default function JobsPage() {
   const [patientLocation, setPatientLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [showRatingModal, setShowRatingModal] = useState(false);
   const [showChat, setShowChat] = useState(false);
+  const sync = useOutbox(serviceId);
   
   // Get helper's current location (enabled only when we have a helper ID)
   const { location: helperLocation } = useLocation({
@@ -50,49 +54,41 @@ export default function JobsPage() {
     updateInterval: 10000, // Update every 10 seconds
   });
 
-  const fetchService = useCallback(async () => {
-    if (!serviceId) return;
-    
-    try {
-      const response = await apiClient.getService(serviceId);
-      if (response.success && response.data) {
-        const svc = response.data as Service;
-        setService(svc);
-        
-        // Set patient location from service data
-        if (svc.patientLocation) {
-          setPatientLocation(svc.patientLocation);
-        }
-      } else {
-        toast({
-          title: 'Service Not Found',
-          description: 'This service may have been cancelled',
-          variant: 'destructive',
-        });
-        navigate('/dashboard');
-      }
-    } catch (error) {
-      toast({
-        title: 'Error',
-        description: 'Failed to fetch service details',
-        variant: 'destructive',
-      });
-    } finally {
-      setLoading(false);
+  // Service details come from react-query; socket events patch/invalidate
+  // the query (see core/query/useSocketQuerySync).
+  const { data, isLoading: loading, isError, refetch } = useService(serviceId);
+  const service = data ?? null;
+  // An arrival still in the outbox counts too, including after a reload, so
+  // the helper is not asked to arrive (and queue it) a second time
+  const arrivalPending = sync.pending.some((a) => a.kind === 'arrive');
+  // What the job is doing and what the helper can do next (see ../lifecycle)
+  const lifecycle = useLifecycle(service, hasMarkedArrival || arrivalPending);
+
+  useEffect(() => {
+    // Set patient location from service data
+    if (service?.patientLocation) {
+      setPatientLocation(service.patientLocation);
     }
-  }, [serviceId, navigate, toast]);
+  }, [service?.patientLocation]);
 
   useEffect(() => {
-    fetchService();
-  }, [fetchService]);
+    if (!isError) return;
+    toast({
+      title: 'Service Not Found',
+      description: 'This service may have been cancelled',
+      variant: 'destructive',
+    });
+    navigate('/dashboard');
+  }, [isError, navigate, toast]);
+
+  // Follow this job's room; reconnects join it again
+  useEffect(() => {
+    if (serviceId) realtime.gateway.watchService(serviceId);
+  }, [serviceId]);
 
   // Listen for realtime updates
   useEffect(() => {
-    const handleServiceUpdated = () => {
-      fetchService();
-    };
-
-    const handleServiceCancelled = (data: any) => {
+    const handleServiceCancelled = (data: GatewayInbound['service:cancelled']) => {
       if (data?.serviceId === serviceId || data?.service?.id === serviceId) {
         toast({
           title: 'Service Cancelled',
@@ -103,24 +99,55 @@ export default function JobsPage() {
       }
     };
 
-    const handlePatientLocation = (data: any) => {
+    const handlePatientLocation = (data: GatewayInbound['patient:location']) => {
       if (data?.serviceId === serviceId) {
         setPatientLocation({ lat: data.lat, lng: data.lng });
       }
     };
 
-    socketClient.on('service:updated', handleServiceUpdated);
-    socketClient.on('service:cancelled', handleServiceCancelled);
-    socketClient.on('patient:location', handlePatientLocation);
+    const offCancelled = realtime.gateway.on('service:cancelled', handleServiceCancelled);
+    const offPatientLocation = realtime.gateway.on('patient:location', handlePatientLocation);
 
     return () => {
-      socketClient.off('service:updated', handleServiceUpdated);
-      socketClient.off('service:cancelled', handleServiceCancelled);
-      socketClient.off('patient:location', handlePatientLocation);
+      offCancelled();
+      offPatientLocation();
     };
-  }, [serviceId, fetchService, navigate, toast]);
+  }, [serviceId, navigate, toast]);
+
+  // Actions queued while offline report back here once they are replayed
+  useEffect(() => {
+    return outbox.onSync((action, outcome) => {
+      if (action.serviceId !== serviceId) return;
+      if (outcome === 'conflict') {
+        toast({
+          title: 'Sync conflict',
+          description: action.error || 'An offline action was rejected by the server',
+          variant: 'destructive',
+        });
+        refetch();
+        return;
+      }
+      if (action.kind === 'complete') {
+        // The payment screen only opens for a completed job
+        void refetch();
+        navigate(`/payment/${serviceId}`);
+        return;
+      }
+      if (action.kind !== 'rate') refetch();
+    });
+  }, [serviceId, refetch, navigate, toast]);
+
+  // Refuses an action the job's current state does not allow
+  const allowed = (action: LifecycleAction) => {
+    const check = lifecycle ? checkAction(lifecycle, action) : { success: false, error: 'Job details are still loading' };
+    if (!check.success) {
+      toast({ title: 'Not available right now', description: check.error, variant: 'destructive' });
+    }
+    return check.success;
+  };
 
   const handleVerifyOtp = async () => {
+    if (!allowed('verifyOtp')) return;
     if (!serviceId || !otp.trim()) {
       toast({
         title: 'Invalid OTP',
@@ -132,7 +159,16 @@ export default function JobsPage() {
 
     setIsVerifying(true);
     try {
-      const response = await apiClient.verifyServiceOtp(serviceId, otp);
+      const result = await outbox.submit('verifyOtp', serviceId, { otp });
+      if (result.state === 'queued') {
+        toast({
+          title: 'Saved offline',
+          description: 'The OTP will be verified as soon as you are back online',
+        });
+        setOtp('');
+        return;
+      }
+      const response = result.response;
       if (response.success) {
         toast({
           title: 'OTP Verified!',
@@ -140,7 +176,7 @@ export default function JobsPage() {
         });
         setOtp('');
         // Refresh service data to show started state
-        await fetchService();
+        await refetch();
         // The page will automatically update to show the started service UI
       } else {
         toast({
@@ -161,18 +197,27 @@ export default function JobsPage() {
   };
 
   const handleMarkArrival = async () => {
-    if (!serviceId) return;
+    if (!serviceId || arrivalPending || !allowed('arrive')) return;
 
     setIsArriving(true);
     try {
-      const response = await apiClient.arriveService(serviceId);
+      const result = await outbox.submit('arrive', serviceId, {});
+      if (result.state === 'queued') {
+        setHasMarkedArrival(true);
+        toast({
+          title: 'Arrival saved offline',
+          description: 'It will sync when your connection returns',
+        });
+        return;
+      }
+      const response = result.response;
       if (response.success) {
         setHasMarkedArrival(true);
         toast({
           title: 'Arrival Confirmed!',
           description: 'Now verify the patient\'s OTP to start the service',
         });
-        fetchService();
+        refetch();
       } else {
         toast({
           title: 'Failed',
@@ -192,16 +237,26 @@ export default function JobsPage() {
   };
 
   const handleCompleteService = async () => {
-    if (!serviceId) return;
+    if (!serviceId || !allowed('complete')) return;
 
     setIsCompleting(true);
     try {
-      const response = await apiClient.completeService(serviceId);
+      const result = await outbox.submit('complete', serviceId, {});
+      if (result.state === 'queued') {
+        toast({
+          title: 'Completion saved offline',
+          description: 'You will be taken to payment once it syncs',
+        });
+        return;
+      }
+      const response = result.response;
       if (response.success) {
         toast({
           title: 'Service Completed!',
           description: 'Redirecting to payment receiving page...',
         });
+        // The payment screen only opens for a completed job
+        await refetch();
         // Navigate to payment receiving page after completing service
         setTimeout(() => {
           navigate(`/payment/${serviceId}`);
@@ -228,7 +283,17 @@ export default function JobsPage() {
     if (!serviceId) return;
 
     try {
-      const response = await apiClient.rateService(serviceId, rating, comment);
+      const result = await outbox.submit('rate', serviceId, { rating, comment });
+      if (result.state === 'queued') {
+        toast({
+          title: 'Rating saved offline',
+          description: 'It will be submitted when you are back online.',
+        });
+        setShowRatingModal(false);
+        setTimeout(() => navigate('/dashboard'), 1500);
+        return;
+      }
+      const response = result.response;
       if (response.success) {
         toast({
           title: 'Thank you!',
@@ -267,7 +332,7 @@ export default function JobsPage() {
     );
   }
 
-  if (!service) {
+  if (!service || !lifecycle) {
     return (
       <PremiumPage title="Service Not Found" subtitle="This service may have been cancelled">
         <div className="flex items-center justify-center min-h-[400px]">
@@ -280,12 +345,8 @@ export default function JobsPage() {
     );
   }
 
-  const isOtpVerified = (service as any).otpVerified === true;
-  // Backend uses 'STARTED' status, frontend types have 'IN_PROGRESS'
-  const statusStr = String(service.status);
-  const isStarted = statusStr === 'STARTED' || statusStr === 'IN_PROGRESS';
-  const isAccepted = statusStr === 'ACCEPTED';
-  const isArrived = hasMarkedArrival && isAccepted && !isOtpVerified;
+  const { state } = lifecycle;
+  const isCompleted = reached(state, 'completed');
 
   return (
     <>
@@ -306,22 +367,32 @@ export default function JobsPage() {
           animate={{ opacity: 1, y: 0 }}
           className="lg:col-span-2 space-y-6"
         >
+          <PendingSyncBanner
+            pending={sync.pending}
+            conflicts={sync.conflicts}
+            onRetry={sync.retry}
+            onDismiss={sync.dismiss}
+          />
+
           {/* Status Card */}
           <div className="rounded-2xl bg-white p-6 shadow-xl border">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-xl font-bold">Service Status</h3>
               <span
                 className={`px-3 py-1 rounded-full text-xs font-medium ${
-                  isStarted
+                  state === 'started'
                     ? 'bg-blue-100 text-blue-700'
-                    : isArrived
+                    : state === 'arrived'
                     ? 'bg-purple-100 text-purple-700'
-                    : isAccepted
+                    : state === 'accepted'
                     ? 'bg-amber-100 text-amber-700'
+                    : state === 'unknown'
+                    ? 'bg-red-100 text-red-700'
                     : 'bg-gray-100 text-gray-700'
                 }`}
               >
-                {service.status}
+                {lifecycle.label}
+                {sync.pending.length > 0 && ' · pending sync'}
               </span>
             </div>
 
@@ -397,7 +468,7 @@ export default function JobsPage() {
           </div>
 
           {/* Map Card */}
-          {service.status !== 'COMPLETED' && service.status !== 'CANCELLED' && (
+          {lifecycle.isActive && (
           <motion.div
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
@@ -457,7 +528,7 @@ export default function JobsPage() {
           )}
 
           {/* OTP Display - Show as soon as service is accepted */}
-          {isAccepted && service.otpCode && (
+          {(state === 'accepted' || state === 'arrived') && service.otpCode && (
             <motion.div
               initial={{ opacity: 0, y: 10 }}
               animate={{ opacity: 1, y: 0 }}
@@ -490,7 +561,7 @@ export default function JobsPage() {
           )}
 
           {/* OTP Verification Card - ONLY AFTER ARRIVAL */}
-          {isArrived && !isOtpVerified && (
+          {lifecycle.action === 'verifyOtp' && (
             <motion.div
               initial={{ opacity: 0, y: 10 }}
               animate={{ opacity: 1, y: 0 }}
@@ -517,7 +588,7 @@ export default function JobsPage() {
                   disabled={isVerifying || otp.length !== 6}
                   className="bg-purple-600 hover:bg-purple-700"
                 >
-                  {isVerifying ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Verify & Start'}
+                  {isVerifying ? <Loader2 className="w-4 h-4 animate-spin" /> : LIFECYCLE_ACTIONS.verifyOtp.label}
                 </Button>
               </div>
               <Button
@@ -532,7 +603,7 @@ export default function JobsPage() {
           )}
 
           {/* Arrival Card - FIRST STEP AFTER ACCEPTANCE */}
-          {isAccepted && !isArrived && (
+          {lifecycle.action === 'arrive' && (
             <motion.div
               initial={{ opacity: 0, y: 10 }}
               animate={{ opacity: 1, y: 0 }}
@@ -548,7 +619,7 @@ export default function JobsPage() {
               <div className="flex gap-3">
                 <Button
                   onClick={handleMarkArrival}
-                  disabled={isArriving}
+                  disabled={isArriving || arrivalPending}
                   className="flex-1 bg-blue-600 hover:bg-blue-700"
                 >
                   {isArriving ? (
@@ -559,7 +630,7 @@ export default function JobsPage() {
                   ) : (
                     <>
                       <MapPin className="w-4 h-4 mr-2" />
-                      I've Arrived
+                      {LIFECYCLE_ACTIONS.arrive.label}
                     </>
                   )}
                 </Button>
@@ -576,7 +647,7 @@ export default function JobsPage() {
           )}
 
           {/* Complete Service Card */}
-          {isStarted && service.status !== 'COMPLETED' && (
+          {lifecycle.action === 'complete' && (
             <motion.div
               initial={{ opacity: 0, y: 10 }}
               animate={{ opacity: 1, y: 0 }}
@@ -603,7 +674,7 @@ export default function JobsPage() {
                   ) : (
                     <>
                       <CheckCircle className="w-4 h-4 mr-2" />
-                      Complete Service
+                      {LIFECYCLE_ACTIONS.complete.label}
                     </>
                   )}
                 </Button>
@@ -618,6 +689,39 @@ export default function JobsPage() {
               </div>
             </motion.div>
           )}
+
+          {/* Finished here; payment is on its own screen */}
+          {isCompleted && (
+            <div className="rounded-2xl bg-white p-6 shadow-xl border flex items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                {state === 'paid' ? 'The patient has paid for this job.' : 'Waiting for the patient to pay.'}
+              </p>
+              <Button onClick={() => navigate(lifecycle.path)}>View Payment</Button>
+            </div>
+          )}
+
+          {/* A status this app does not know; nothing is offered until it is */}
+          {state === 'unknown' && (
+            <div className="rounded-2xl bg-red-50 p-6 border border-red-200 space-y-3">
+              <div className="flex items-center gap-3">
+                <AlertCircle className="w-6 h-6 text-red-600" />
+                <h3 className="text-lg font-bold text-red-900">Unrecognised job status</h3>
+              </div>
+              <p className="text-sm text-red-800">
+                The server reports this job as “{lifecycle.status || 'blank'}”. Refresh to check again, or chat with
+                the patient while it is sorted out.
+              </p>
+              <div className="flex gap-3">
+                <Button variant="outline" onClick={() => void refetch()} className="flex-1">
+                  Refresh
+                </Button>
+                <Button variant="outline" onClick={() => setShowChat(true)} className="flex-1 chat-button">
+                  <MessageCircle className="w-4 h-4 mr-2" />
+                  Chat with Patient
+                </Button>
+              </div>
+            </div>
+          )}
         </motion.div>
 
         {/* Right: Progress Tracker */}
@@ -632,10 +736,10 @@ export default function JobsPage() {
             <div className="flex items-start gap-3">
               <div
                 className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                  isAccepted || isArrived || isStarted ? 'bg-emerald-500 text-white' : 'bg-gray-200 text-gray-500'
+                  reached(state, 'accepted') ? 'bg-emerald-500 text-white' : 'bg-gray-200 text-gray-500'
                 }`}
               >
-                {isAccepted || isArrived || isStarted ? <CheckCircle className="w-5 h-5" /> : '1'}
+                {reached(state, 'accepted') ? <CheckCircle className="w-5 h-5" /> : '1'}
               </div>
               <div className="flex-1">
                 <p className="font-medium">Service Accepted</p>
@@ -647,10 +751,10 @@ export default function JobsPage() {
             <div className="flex items-start gap-3">
               <div
                 className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                  isArrived || isStarted ? 'bg-emerald-500 text-white' : 'bg-gray-200 text-gray-500'
+                  lifecycle.arrivalMarked ? 'bg-emerald-500 text-white' : 'bg-gray-200 text-gray-500'
                 }`}
               >
-                {isArrived || isStarted ? <CheckCircle className="w-5 h-5" /> : '2'}
+                {lifecycle.arrivalMarked ? <CheckCircle className="w-5 h-5" /> : '2'}
               </div>
               <div className="flex-1">
                 <p className="font-medium">Arrived at Location</p>
@@ -662,10 +766,10 @@ export default function JobsPage() {
             <div className="flex items-start gap-3">
               <div
                 className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                  isOtpVerified ? 'bg-emerald-500 text-white' : 'bg-gray-200 text-gray-500'
+                  lifecycle.otpVerified ? 'bg-emerald-500 text-white' : 'bg-gray-200 text-gray-500'
                 }`}
               >
-                {isOtpVerified ? <CheckCircle className="w-5 h-5" /> : '3'}
+                {lifecycle.otpVerified ? <CheckCircle className="w-5 h-5" /> : '3'}
               </div>
               <div className="flex-1">
                 <p className="font-medium">OTP Verified & Started</p>
@@ -677,10 +781,10 @@ export default function JobsPage() {
             <div className="flex items-start gap-3">
               <div
                 className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                  service.status === 'COMPLETED' ? 'bg-emerald-500 text-white' : 'bg-gray-200 text-gray-500'
+                  isCompleted ? 'bg-emerald-500 text-white' : 'bg-gray-200 text-gray-500'
                 }`}
               >
-                {service.status === 'COMPLETED' ? <CheckCircle className="w-5 h-5" /> : '4'}
+                {isCompleted ? <CheckCircle className="w-5 h-5" /> : '4'}
               </div>
               <div className="flex-1">
                 <p className="font-medium">Service Completed</p>
@@ -689,7 +793,7 @@ export default function JobsPage() {
             </div>
           </div>
 
-          {service.status === 'COMPLETED' && service.fare && (
+          {isCompleted && service.fare && (
             <div className="mt-6 pt-6 border-t">
               <div className="flex items-center justify-between text-sm mb-2">
                 <span className="text-muted-foreground">Total Fare</span>
@@ -700,7 +804,7 @@ export default function JobsPage() {
               <div className="flex items-center justify-between text-sm">
                 <span className="text-muted-foreground">Your Earnings</span>
                 <span className="font-bold text-lg text-emerald-600">
-                  ₹{((service as any).billedMinutes || 0) * 2.5}
+                  ₹{(service.billedMinutes || 0) * 2.5}
                 </span>
               </div>
             </div>
@@ -709,7 +813,7 @@ export default function JobsPage() {
       </div>
 
       {/* Earnings Breakdown - Show after completion */}
-      {service.status === 'COMPLETED' && (
+      {isCompleted && (
         <div className="mt-6">
           <EarningsBreakdown service={service} />
         </div>
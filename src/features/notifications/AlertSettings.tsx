@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import { BellRing, Play, Vibrate, Volume2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  ALERT_TONES,
+  alertPrefs,
+  notificationsSupported,
+  playTone,
+  requestNotificationPermission,
+  type AlertPrefs,
+  type AlertTone,
+} from './requestAlerts';
+
+const permissionOf = () => (notificationsSupported() ? Notification.permission : 'unsupported');
+
+// How new requests get the helper's attention on this device: tone, volume,
+// vibration and lock-screen notifications. Saved as they change.
+export function AlertSettings() {
+  const [prefs, setPrefs] = useState<AlertPrefs>(alertPrefs.current);
+  const [permission, setPermission] = useState(permissionOf);
+
+  useEffect(() => alertPrefs.subscribe(setPrefs), []);
+
+  const allow = async () => setPermission(await requestNotificationPermission());
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <h2 className="text-lg font-semibold text-slate-800">Request Alerts</h2>
+        <p className="text-sm text-slate-500">How new service requests sound on this device.</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {(Object.keys(ALERT_TONES) as AlertTone[]).map((tone) => (
+          <Button
+            key={tone}
+            type="button"
+            variant={prefs.tone === tone ? 'default' : 'outline'}
+            className={prefs.tone === tone ? 'bg-emerald-500 hover:bg-emerald-600' : ''}
+            onClick={() => {
+              alertPrefs.update({ tone });
+              playTone(tone, prefs.volume);
+            }}
+          >
+            {ALERT_TONES[tone].label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Volume2 className="h-5 w-5 text-slate-500 shrink-0" />
+        <Slider
+          aria-label="Alert volume"
+          value={[Math.round(prefs.volume * 100)]}
+          max={100}
+          step={5}
+          onValueChange={([value]) => alertPrefs.update({ volume: value / 100 })}
+          onValueCommit={([value]) => playTone(prefs.tone, value / 100)}
+        />
+        <span className="w-10 text-right text-sm text-slate-500 tabular-nums">{Math.round(prefs.volume * 100)}%</span>
+        <Button type="button" size="icon" variant="ghost" aria-label="Play alert" onClick={() => playTone()}>
+          <Play className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between p-4 rounded-xl border-2 border-slate-200">
+        <div className="flex items-start gap-4">
+          <div className="p-2 rounded-lg bg-white shadow-sm text-amber-500">
+            <Vibrate className="h-5 w-5" />
+          </div>
+          <div>
+            <h3 className="font-medium text-slate-900">Vibrate</h3>
+            <p className="text-sm text-slate-500 mt-0.5">On phones that support it</p>
+          </div>
+        </div>
+        <Switch
+          checked={prefs.vibrate}
+          onCheckedChange={(vibrate) => alertPrefs.update({ vibrate })}
+          className="data-[state=checked]:bg-emerald-500"
+        />
+      </div>
+
+      <div className="flex items-center justify-between p-4 rounded-xl border-2 border-slate-200">
+        <div className="flex items-start gap-4">
+          <div className="p-2 rounded-lg bg-white shadow-sm text-purple-500">
+            <BellRing className="h-5 w-5" />
+          </div>
+          <div>
+            <h3 className="font-medium text-slate-900">Lock-screen alerts</h3>
+            <p className="text-sm text-slate-500 mt-0.5">
+              {permission === 'granted'
+                ? 'Requests show up with Accept and Decline while the app is in the background'
+                : permission === 'denied'
+                  ? 'Blocked in your browser settings'
+                  : permission === 'unsupported'
+                    ? 'Not supported in this browser'
+                    : 'Get a notification when the app is in the background'}
+            </p>
+          </div>
+        </div>
+        {permission === 'default' && (
+          <Button type="button" size="sm" variant="outline" onClick={() => void allow()}>
+            Allow
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,36 +1,15 @@
-import { useEffect, useState } from 'react';
 import { Bell } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { apiClient } from '@/core/api/client';
+import { useUnreadNotificationCount } from '@/core/query/hooks';
 
 interface NotificationBellProps {
   onNotificationClick: () => void;
 }
 
 export function NotificationBell({ onNotificationClick }: NotificationBellProps) {
-  const [unreadCount, setUnreadCount] = useState(0);
-
-  useEffect(() => {
-    fetchUnreadCount();
-    
-    // Poll for updates every 30 seconds
-    const interval = setInterval(fetchUnreadCount, 30000);
-    
-    return () => clearInterval(interval);
-  }, []);
-
-  const fetchUnreadCount = async () => {
-    try {
-      const response = await apiClient.getUnreadNotificationCount();
-      if (response.success && response.data) {
-        const data = response.data as any;
-        setUnreadCount(data.count || 0);
-      }
-    } catch (error) {
-      console.error('Failed to fetch unread count:', error);
-    }
-  };
+  const { data } = useUnreadNotificationCount();
+  const unreadCount = data?.count ?? 0;
 
   return (
     <Button
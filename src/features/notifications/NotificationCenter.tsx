@@ -1,20 +1,14 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useRef } from 'react';
+import { useQueryClient, type InfiniteData } from '@tanstack/react-query';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Check, Trash2, Bell, MessageCircle, AlertCircle, Star } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { ScrollArea } from '@/components/ui/scroll-area';
 import { apiClient } from '@/core/api/client';
+import { queryKeys } from '@/core/query/keys';
+import { pageItems, useNotifications } from '@/core/query/hooks';
+import { useVirtualList } from '@/hooks/useVirtualList';
 import { toast } from 'sonner';
-
-interface Notification {
-  id: string;
-  title: string;
-  body: string;
-  type: string;
-  isRead: boolean;
-  createdAt: string;
-  data?: any;
-}
+import type { AppNotification, Page } from '@/types';
 
 interface NotificationCenterProps {
   isOpen: boolean;
@@ -22,33 +16,35 @@ interface NotificationCenterProps {
 }
 
 export function NotificationCenter({ isOpen, onClose }: NotificationCenterProps) {
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [loading, setLoading] = useState(false);
+  const queryClient = useQueryClient();
+  const listKey = queryKeys.notifications.list();
+  const { data, isLoading: loading, fetchNextPage, hasNextPage, isFetchingNextPage } = useNotifications(isOpen);
+  const notifications: AppNotification[] = pageItems(data?.pages);
 
-  useEffect(() => {
-    if (isOpen) {
-      fetchNotifications();
-    }
-  }, [isOpen]);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const loadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) void fetchNextPage();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+  const { listRef, rows, totalSize, measure } = useVirtualList({
+    count: notifications.length,
+    getKey: (index) => notifications[index].id,
+    estimateSize: 120,
+    scrollRef,
+    onEndReached: loadMore,
+  });
 
-  const fetchNotifications = async () => {
-    setLoading(true);
-    try {
-      const response = await apiClient.getNotifications(50);
-      if (response.success && response.data) {
-        setNotifications(response.data as Notification[]);
-      }
-    } catch (error) {
-      console.error('Failed to fetch notifications:', error);
-    } finally {
-      setLoading(false);
-    }
+  // Patch the loaded pages in place, then let the unread badge refetch
+  const patchNotifications = (update: (prev: AppNotification[]) => AppNotification[]) => {
+    queryClient.setQueryData<InfiniteData<Page<AppNotification>>>(listKey, (prev) =>
+      prev && { ...prev, pages: prev.pages.map((page) => ({ ...page, items: update(page.items) })) }
+    );
+    void queryClient.invalidateQueries({ queryKey: queryKeys.notifications.unreadCount() });
   };
 
   const markAsRead = async (notificationId: string) => {
     try {
       await apiClient.markNotificationAsRead(notificationId);
-      setNotifications(prev =>
+      patchNotifications(prev =>
         prev.map(n => (n.id === notificationId ? { ...n, isRead: true } : n))
       );
     } catch (error) {
@@ -59,7 +55,7 @@ export function NotificationCenter({ isOpen, onClose }: NotificationCenterProps)
   const markAllAsRead = async () => {
     try {
       await apiClient.markAllNotificationsAsRead();
-      setNotifications(prev => prev.map(n => ({ ...n, isRead: true })));
+      patchNotifications(prev => prev.map(n => ({ ...n, isRead: true })));
       toast.success('All notifications marked as read');
     } catch (error) {
       toast.error('Failed to mark all as read');
@@ -69,7 +65,7 @@ export function NotificationCenter({ isOpen, onClose }: NotificationCenterProps)
   const deleteNotification = async (notificationId: string) => {
     try {
       await apiClient.deleteNotification(notificationId);
-      setNotifications(prev => prev.filter(n => n.id !== notificationId));
+      patchNotifications(prev => prev.filter(n => n.id !== notificationId));
       toast.success('Notification deleted');
     } catch (error) {
       toast.error('Failed to delete notification');
@@ -144,7 +140,7 @@ export function NotificationCenter({ isOpen, onClose }: NotificationCenterProps)
           </div>
 
           {/* Notifications List */}
-          <ScrollArea className="flex-1">
+          <div ref={scrollRef} className="flex-1 overflow-y-auto">
             {loading ? (
               <div className="flex items-center justify-center h-full">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-500"></div>
@@ -155,66 +151,75 @@ export function NotificationCenter({ isOpen, onClose }: NotificationCenterProps)
                 <p>No notifications yet</p>
               </div>
             ) : (
-              <div className="divide-y">
-                {notifications.map((notification) => (
-                  <motion.div
-                    key={notification.id}
-                    initial={{ opacity: 0, x: -20 }}
-                    animate={{ opacity: 1, x: 0 }}
-                    className={`p-4 hover:bg-slate-50 transition-colors ${
-                      !notification.isRead ? 'bg-emerald-50/50' : ''
-                    }`}
-                  >
-                    <div className="flex gap-3">
-                      <div className="flex-shrink-0 mt-1">
-                        {getIcon(notification.type)}
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-start justify-between gap-2">
-                          <div className="flex-1">
-                            <h3 className="font-medium text-sm">
-                              {notification.title}
-                            </h3>
-                            <p className="text-sm text-slate-600 mt-1">
-                              {notification.body}
-                            </p>
-                            <p className="text-xs text-slate-400 mt-1">
-                              {formatTime(notification.createdAt)}
-                            </p>
-                          </div>
-                          {!notification.isRead && (
-                            <div className="w-2 h-2 rounded-full bg-emerald-500 flex-shrink-0"></div>
-                          )}
+              <div ref={listRef} className="relative" style={{ height: totalSize }}>
+                {rows.map(({ index, key, start }) => {
+                  const notification = notifications[index];
+                  return (
+                    <div
+                      key={key}
+                      ref={measure}
+                      data-virtual-key={key}
+                      style={{ transform: `translateY(${start}px)` }}
+                      className={`absolute inset-x-0 top-0 border-b p-4 hover:bg-slate-50 transition-colors ${
+                        !notification.isRead ? 'bg-emerald-50/50' : ''
+                      }`}
+                    >
+                      <div className="flex gap-3">
+                        <div className="flex-shrink-0 mt-1">
+                          {getIcon(notification.type)}
                         </div>
-                        <div className="flex items-center gap-2 mt-2">
-                          {!notification.isRead && (
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-start justify-between gap-2">
+                            <div className="flex-1">
+                              <h3 className="font-medium text-sm">
+                                {notification.title}
+                              </h3>
+                              <p className="text-sm text-slate-600 mt-1">
+                                {notification.body}
+                              </p>
+                              <p className="text-xs text-slate-400 mt-1">
+                                {formatTime(notification.createdAt)}
+                              </p>
+                            </div>
+                            {!notification.isRead && (
+                              <div className="w-2 h-2 rounded-full bg-emerald-500 flex-shrink-0"></div>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2 mt-2">
+                            {!notification.isRead && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => markAsRead(notification.id)}
+                                className="h-7 text-xs"
+                              >
+                                <Check className="h-3 w-3 mr-1" />
+                                Mark read
+                              </Button>
+                            )}
                             <Button
                               variant="ghost"
                               size="sm"
-                              onClick={() => markAsRead(notification.id)}
-                              className="h-7 text-xs"
+                              onClick={() => deleteNotification(notification.id)}
+                              className="h-7 text-xs text-red-600 hover:text-red-700 hover:bg-red-50"
                             >
-                              <Check className="h-3 w-3 mr-1" />
-                              Mark read
+                              <Trash2 className="h-3 w-3 mr-1" />
+                              Delete
                             </Button>
-                          )}
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => deleteNotification(notification.id)}
-                            className="h-7 text-xs text-red-600 hover:text-red-700 hover:bg-red-50"
-                          >
-                            <Trash2 className="h-3 w-3 mr-1" />
-                            Delete
-                          </Button>
+                          </div>
                         </div>
                       </div>
                     </div>
-                  </motion.div>
-                ))}
+                  );
+                })}
               </div>
             )}
-          </ScrollArea>
+            {isFetchingNextPage && (
+              <div className="flex justify-center py-3">
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-emerald-500"></div>
+              </div>
+            )}
+          </div>
         </motion.div>
       </motion.div>
     </AnimatePresence>
@@ -5,6 +5,11 @@ import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { apiClient } from '@/core/api/client';
 import { toast } from 'sonner';
+import { createLogger } from '@/core/logging/logger';
+import { subscribePush, syncPushSubscription, unsubscribePush } from '@/core/sw/push';
+import { AlertSettings } from './AlertSettings';
+
+const log = createLogger('app');
 
 interface NotificationPreferences {
   emailEnabled: boolean;
@@ -26,16 +31,20 @@ export function NotificationPreferences() {
   });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [pushBusy, setPushBusy] = useState(false);
 
   useEffect(() => {
-    fetchPreferences();
+    const controller = new AbortController();
+    fetchPreferences(controller.signal);
+    return () => controller.abort();
   }, []);
 
-  const fetchPreferences = async () => {
+  const fetchPreferences = async (signal?: AbortSignal) => {
     try {
-      const response = await apiClient.getNotificationPreferences();
+      const response = await apiClient.getNotificationPreferences({ signal });
+      if (signal?.aborted) return;
       if (response.success && response.data) {
-        const data = response.data as any;
+        const data = response.data;
         setPreferences({
           emailEnabled: data.emailEnabled ?? true,
           smsEnabled: data.smsEnabled ?? true,
@@ -44,12 +53,13 @@ export function NotificationPreferences() {
           chatMessages: data.chatMessages ?? true,
           promotionalMessages: data.promotionalMessages ?? false,
         });
+        if (data.pushEnabled ?? true) void syncPushSubscription();
       }
     } catch (error) {
-      console.error('Failed to fetch preferences:', error);
+      log.error('Failed to fetch preferences', error);
       toast.error('Failed to load notification preferences');
     } finally {
-      setLoading(false);
+      if (!signal?.aborted) setLoading(false);
     }
   };
 
@@ -63,7 +73,7 @@ export function NotificationPreferences() {
         toast.error('Failed to save preferences');
       }
     } catch (error) {
-      console.error('Failed to save preferences:', error);
+      log.error('Failed to save preferences', error);
       toast.error('Failed to save preferences');
     } finally {
       setSaving(false);
@@ -74,6 +84,19 @@ export function NotificationPreferences() {
     setPreferences(prev => ({ ...prev, [key]: value }));
   };
 
+  // Push also needs this device subscribed, which happens right away rather
+  // than on save
+  const togglePush = async (enabled: boolean) => {
+    updatePreference('pushEnabled', enabled);
+    setPushBusy(true);
+    const result = enabled ? await subscribePush() : await unsubscribePush();
+    setPushBusy(false);
+    if (!result.success) {
+      updatePreference('pushEnabled', !enabled);
+      toast.error(result.error ?? 'Could not update push notifications');
+    }
+  };
+
   const preferenceItems = [
     {
       id: 'delivery-methods',
@@ -97,7 +120,7 @@ export function NotificationPreferences() {
           key: 'pushEnabled' as const,
           icon: Bell,
           label: 'Push Notifications',
-          description: 'Get instant notifications in the app',
+          description: 'Requests, messages and payments on this device, even when the app is closed',
           color: 'text-purple-500',
         },
       ],
@@ -202,8 +225,11 @@ export function NotificationPreferences() {
                         <Switch
                           checked={isEnabled}
                           onCheckedChange={(checked) =>
-                            updatePreference(item.key, checked)
+                            item.key === 'pushEnabled'
+                              ? void togglePush(checked)
+                              : updatePreference(item.key, checked)
                           }
+                          disabled={item.key === 'pushEnabled' && pushBusy}
                           className="data-[state=checked]:bg-emerald-500"
                         />
                       </motion.div>
@@ -214,6 +240,11 @@ export function NotificationPreferences() {
             ))}
           </div>
 
+          {/* Request alerts (this device only, saved as they change) */}
+          <div className="p-6 border-t">
+            <AlertSettings />
+          </div>
+
           {/* Save Button */}
           <div className="p-6 border-t bg-slate-50">
             <Button
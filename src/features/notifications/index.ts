@@ -1,3 +1,6 @@
 export { NotificationBell } from './NotificationBell';
 export { NotificationCenter } from './NotificationCenter';
 export { NotificationPreferences } from './NotificationPreferences';
+export { AlertSettings } from './AlertSettings';
+export { alertPrefs, playTone, requestAlerts, requestNotificationPermission } from './requestAlerts';
+export type { AlertPrefs, AlertTone } from './requestAlerts';
@@ -0,0 +1,238 @@
+import { claimOnce } from '@/core/tabs/claim';
+import { registerServiceWorker } from '@/core/sw/registration';
+import { createLogger } from '@/core/logging/logger';
+import type { Service } from '@/types';
+
+// The alert for a new service request: the helper's chosen tone, repeated
+// with a vibration until they answer or the offer runs out, and a system
+// notification with Accept / Decline when the app is in the background.
+// Only one tab alerts for each request.
+
+export type AlertTone = 'chime' | 'bell' | 'pulse' | 'urgent';
+
+export interface AlertPrefs {
+  tone: AlertTone;
+  // 0–1
+  volume: number;
+  vibrate: boolean;
+}
+
+interface ToneSpec {
+  label: string;
+  wave: OscillatorType;
+  notes: number[];
+  // Seconds between notes, and how long each one rings
+  step: number;
+  length: number;
+}
+
+export const ALERT_TONES: Record<AlertTone, ToneSpec> = {
+  chime: { label: 'Hospital chime', wave: 'triangle', notes: [523.25, 659.25, 783.99], step: 0.18, length: 0.45 },
+  bell: { label: 'Bell', wave: 'sine', notes: [880, 1318.51], step: 0.3, length: 0.9 },
+  pulse: { label: 'Pulse', wave: 'square', notes: [660, 660, 660], step: 0.16, length: 0.08 },
+  urgent: { label: 'Urgent', wave: 'sawtooth', notes: [987.77, 739.99, 987.77, 739.99], step: 0.14, length: 0.12 },
+};
+
+const REPEAT_MS = 4_000;
+const VIBRATION = [300, 150, 300, 150, 600];
+const PREFS_KEY = 'requestAlertPrefs';
+const DEFAULT_PREFS: AlertPrefs = { tone: 'chime', volume: 0.7, vibrate: true };
+
+const log = createLogger('app');
+
+// Not in the DOM typings yet
+interface RequestNotificationOptions extends NotificationOptions {
+  actions?: { action: string; title: string }[];
+  vibrate?: number[];
+  renotify?: boolean;
+}
+
+type Listener = (prefs: AlertPrefs) => void;
+
+// Tone, volume and vibration for this device
+class AlertPrefsStore {
+  private prefs: AlertPrefs = this.read();
+  private listeners = new Set<Listener>();
+
+  get current() {
+    return this.prefs;
+  }
+
+  subscribe(listener: Listener) {
+    this.listeners.add(listener);
+    listener(this.prefs);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  update(patch: Partial<AlertPrefs>) {
+    this.prefs = { ...this.prefs, ...patch };
+    localStorage.setItem(PREFS_KEY, JSON.stringify(this.prefs));
+    this.listeners.forEach((l) => l(this.prefs));
+  }
+
+  private read(): AlertPrefs {
+    try {
+      const saved = JSON.parse(localStorage.getItem(PREFS_KEY) ?? 'null') as Partial<AlertPrefs> | null;
+      const prefs = { ...DEFAULT_PREFS, ...saved };
+      return ALERT_TONES[prefs.tone] ? prefs : { ...prefs, tone: DEFAULT_PREFS.tone };
+    } catch {
+      return DEFAULT_PREFS;
+    }
+  }
+}
+
+export const alertPrefs = new AlertPrefsStore();
+
+let audioCtx: AudioContext | null = null;
+
+const audioContext = () => {
+  if (typeof window === 'undefined') return null;
+  const AudioCtor = (window.AudioContext ||
+    (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext) as typeof AudioContext | undefined;
+  if (!AudioCtor) return null;
+  audioCtx ??= new AudioCtor();
+  return audioCtx;
+};
+
+export function playTone(tone: AlertTone = alertPrefs.current.tone, volume = alertPrefs.current.volume) {
+  const ctx = audioContext();
+  if (!ctx || volume <= 0) return;
+  void ctx.resume?.();
+  const spec = ALERT_TONES[tone];
+  const start = ctx.currentTime + 0.05;
+  spec.notes.forEach((freq, idx) => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = spec.wave;
+    osc.frequency.value = freq;
+    osc.connect(gain);
+    gain.connect(ctx.destination);
+
+    const noteStart = start + idx * spec.step;
+    gain.gain.setValueAtTime(0.0001, noteStart);
+    gain.gain.exponentialRampToValueAtTime(Math.max(0.0001, 0.5 * volume), noteStart + 0.03);
+    gain.gain.exponentialRampToValueAtTime(0.0001, noteStart + spec.length);
+    osc.start(noteStart);
+    osc.stop(noteStart + spec.length + 0.05);
+  });
+}
+
+export const notificationsSupported = () => typeof Notification !== 'undefined';
+
+export async function requestNotificationPermission(): Promise<NotificationPermission | 'unsupported'> {
+  if (!notificationsSupported()) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+}
+
+const describe = (service: Service) =>
+  [
+    Array.isArray(service.serviceType) ? service.serviceType.join(', ') : service.serviceType,
+    service.hospitalName,
+    service.distance !== undefined ? `${service.distance} km` : undefined,
+    (service.estimatedFare ?? service.estimatedPay) !== undefined ? `₹${service.estimatedFare ?? service.estimatedPay}` : undefined,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+interface ActiveAlert {
+  service: Service;
+  deadline: number;
+  timer?: number;
+  notified: boolean;
+  fallback?: Notification;
+}
+
+class RequestAlerts {
+  private alerts = new Map<string, ActiveAlert>();
+
+  constructor() {
+    // Browsers keep audio locked until the page is interacted with, so
+    // unlock it on the first tap or key press
+    if (typeof window !== 'undefined') {
+      const unlock = () => {
+        void audioContext()?.resume?.();
+        window.removeEventListener('pointerdown', unlock);
+        window.removeEventListener('keydown', unlock);
+      };
+      window.addEventListener('pointerdown', unlock);
+      window.addEventListener('keydown', unlock);
+    }
+  }
+
+  start(service: Service, deadline: number) {
+    if (this.alerts.has(service.id)) return;
+    const alert: ActiveAlert = { service, deadline, notified: false };
+    this.alerts.set(service.id, alert);
+    void claimOnce(`alert:${service.id}`, Math.max(1_000, deadline - Date.now())).then((won) => {
+      // Answered before the claim came back, or another tab is alerting
+      if (!won || this.alerts.get(service.id) !== alert) return;
+      this.ring(alert);
+      alert.timer = window.setInterval(() => {
+        if (Date.now() >= alert.deadline) this.stop(service.id);
+        else this.ring(alert);
+      }, REPEAT_MS);
+    });
+  }
+
+  stop(serviceId: string) {
+    const alert = this.alerts.get(serviceId);
+    if (!alert) return;
+    this.alerts.delete(serviceId);
+    window.clearInterval(alert.timer);
+    if (typeof navigator !== 'undefined') navigator.vibrate?.(0);
+    if (alert.notified) void this.closeNotification(alert);
+  }
+
+  private ring(alert: ActiveAlert) {
+    const prefs = alertPrefs.current;
+    playTone(prefs.tone, prefs.volume);
+    if (prefs.vibrate) navigator.vibrate?.(VIBRATION);
+    if (document.hidden && !alert.notified) {
+      alert.notified = true;
+      void this.notify(alert);
+    }
+  }
+
+  private async notify(alert: ActiveAlert) {
+    if (!notificationsSupported() || Notification.permission !== 'granted') return;
+    const { service } = alert;
+    const options: RequestNotificationOptions = {
+      body: describe(service),
+      tag: `request:${service.id}`,
+      requireInteraction: true,
+      renotify: true,
+      icon: '/vite.svg',
+      data: { kind: 'service-request', serviceId: service.id, url: '/dashboard' },
+      actions: [
+        { action: 'accept', title: 'Accept' },
+        { action: 'decline', title: 'Decline' },
+      ],
+      vibrate: alertPrefs.current.vibrate ? VIBRATION : undefined,
+    };
+    try {
+      const registration = await registerServiceWorker();
+      if (registration) await registration.showNotification('New service request', options);
+      // Without a service worker there are no actions; a click just focuses
+      else {
+        alert.fallback = new Notification('New service request', { body: options.body, tag: options.tag });
+        alert.fallback.onclick = () => window.focus();
+      }
+      // Answered while the notification was on its way
+      if (this.alerts.get(service.id) !== alert) void this.closeNotification(alert);
+    } catch (error) {
+      log.warn('Could not show request notification', error);
+    }
+  }
+
+  private async closeNotification(alert: ActiveAlert) {
+    alert.fallback?.close();
+    const registration = await registerServiceWorker();
+    const open = await registration?.getNotifications({ tag: `request:${alert.service.id}` });
+    open?.forEach((n) => n.close());
+  }
+}
+
+export const requestAlerts = new RequestAlerts();
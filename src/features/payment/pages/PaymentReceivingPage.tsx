@@ -2,13 +2,15 @@ import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { useParams, useNavigate } from 'react-router-dom';
 import { apiClient } from '@/core/api/client';
-import { socketClient } from '@/core/socket/client';
-import type { Service } from '@/types';
+import { useService } from '@/core/query/hooks';
+import { realtime } from '@/core/socket/realtime';
+import type { GatewayInbound } from '@/core/socket/events';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { CheckCircle2, Clock, Loader2, ArrowLeft, IndianRupee } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import EarningsBreakdown from '@/features/jobs/components/EarningsBreakdown';
+import { useLifecycle } from '@/features/jobs/hooks/useLifecycle';
 import PremiumPage from '@/components/layout/PremiumPage';
 import { RatingModal } from '@/shared/components';
 
@@ -16,55 +18,32 @@ export default function PaymentReceivingPage() {
   const { serviceId } = useParams<{ serviceId: string }>();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [service, setService] = useState<Service | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [paymentStatus, setPaymentStatus] = useState<'PENDING' | 'COMPLETED' | 'FAILED'>('PENDING');
+  const { data, isLoading: loading, refetch } = useService(serviceId);
+  const service = data ?? null;
+  // 'paid' once the payment:completed socket event patches the service
+  // (core/query)
+  const lifecycle = useLifecycle(service);
   const [showRatingModal, setShowRatingModal] = useState(false);
+  const fetchServiceDetails = () => void refetch();
 
   useEffect(() => {
     if (!serviceId) return;
-    fetchServiceDetails();
 
     // Listen for payment completion event
-    const handlePaymentCompleted = (data: any) => {
+    const handlePaymentCompleted = (data: GatewayInbound['payment:completed']) => {
       if (data.serviceId === serviceId) {
-        setPaymentStatus('COMPLETED');
         toast({
           title: 'Payment Received!',
           description: `Patient paid via ${data.paymentMethod || 'Cash'}`,
         });
-        fetchServiceDetails();
         // Prompt helper to leave a rating
         setTimeout(() => setShowRatingModal(true), 800);
       }
     };
 
-    socketClient.on('payment:completed', handlePaymentCompleted);
-
-    return () => {
-      socketClient.off('payment:completed', handlePaymentCompleted);
-    };
+    return realtime.gateway.on('payment:completed', handlePaymentCompleted);
   }, [serviceId, toast]);
 
-  const fetchServiceDetails = async () => {
-    if (!serviceId) return;
-    setLoading(true);
-    try {
-      const response = await apiClient.getService(serviceId);
-      if (response.success && response.data) {
-        const svc = response.data as Service;
-        setService(svc);
-        // Check payment status
-        const status = (svc as any).paymentStatus || 'PENDING';
-        setPaymentStatus(status);
-      }
-    } catch (error) {
-      console.error('Failed to fetch service details:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   if (loading) {
     return (
       <PremiumPage title="Loading..." subtitle="Fetching payment details">
@@ -75,7 +54,7 @@ export default function PaymentReceivingPage() {
     );
   }
 
-  if (!service) {
+  if (!service || !lifecycle) {
     return (
       <PremiumPage title="Service Not Found" subtitle="This service may have been cancelled">
         <div className="flex items-center justify-center min-h-[400px]">
@@ -88,14 +67,45 @@ export default function PaymentReceivingPage() {
     );
   }
 
-  const billedMinutes = (service as any).billedMinutes || 0;
+  // Only a finished job has anything to pay; anything else goes back to
+  // where it belongs
+  if (lifecycle.state !== 'completed' && lifecycle.state !== 'paid') {
+    const message =
+      lifecycle.state === 'cancelled'
+        ? 'This job was cancelled, so there is no payment to collect.'
+        : lifecycle.state === 'unknown'
+          ? `The server reports this job as “${lifecycle.status || 'blank'}”. Payment opens once it is completed.`
+          : 'Complete the job first; payment opens once it is done.';
+    return (
+      <PremiumPage title="Payment Receiving" subtitle={lifecycle.label}>
+        <Card>
+          <CardContent className="pt-6 space-y-4">
+            <p className="text-sm text-muted-foreground">{message}</p>
+            <div className="flex gap-3">
+              {lifecycle.isActive && (
+                <Button onClick={() => navigate(lifecycle.path)} className="flex-1">
+                  Back to Job
+                </Button>
+              )}
+              <Button onClick={() => navigate('/dashboard')} variant="outline" className="flex-1">
+                Back to Dashboard
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </PremiumPage>
+    );
+  }
+
+  const paid = lifecycle.state === 'paid';
+  const billedMinutes = service.billedMinutes || 0;
   const serviceCharge = billedMinutes * 2.5;
   const platformCharge = 15;
   const totalFare = service.fare ?? serviceCharge + platformCharge;
   const helperEarnings = totalFare;
 
   return (
-    <PremiumPage title="Payment Receiving" subtitle="Waiting for patient payment">
+    <PremiumPage title="Payment Receiving" subtitle={paid ? 'Payment received' : 'Waiting for patient payment'}>
       <div className="space-y-6">
         {/* Payment Status Card */}
         <motion.div
@@ -103,13 +113,13 @@ export default function PaymentReceivingPage() {
           animate={{ opacity: 1, y: 0 }}
         >
           <Card className={`border-2 ${
-            paymentStatus === 'COMPLETED' 
+            paid 
               ? 'border-emerald-200 bg-emerald-50/50' 
               : 'border-amber-200 bg-amber-50/50'
           }`}>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
-                {paymentStatus === 'COMPLETED' ? (
+                {paid ? (
                   <CheckCircle2 className="h-5 w-5 text-emerald-600" />
                 ) : (
                   <Clock className="h-5 w-5 text-amber-600" />
@@ -118,7 +128,7 @@ export default function PaymentReceivingPage() {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              {paymentStatus === 'COMPLETED' ? (
+              {paid ? (
                 <div className="space-y-3">
                   <div className="p-4 bg-emerald-100 rounded-lg border border-emerald-200">
                     <div className="flex items-center gap-2 text-emerald-700 mb-2">
@@ -126,11 +136,11 @@ export default function PaymentReceivingPage() {
                       <span className="font-semibold text-lg">Payment Received!</span>
                     </div>
                     <p className="text-sm text-emerald-600">
-                      Patient paid via {(service as any).paymentMethod || 'Cash'}
+                      Patient paid via {service.paymentMethod || 'Cash'}
                     </p>
-                    {(service as any).paidAt && (
+                    {service.paidAt && (
                       <p className="text-xs text-emerald-500 mt-1">
-                        Received at {new Date((service as any).paidAt).toLocaleString()}
+                        Received at {new Date(service.paidAt).toLocaleString()}
                       </p>
                     )}
                   </div>
@@ -187,14 +197,12 @@ export default function PaymentReceivingPage() {
         </motion.div>
 
         {/* Earnings Breakdown */}
-        {service.status === 'COMPLETED' && (
-          <EarningsBreakdown service={service} />
-        )}
+        <EarningsBreakdown service={service} />
 
         {/* Rating Modal */}
         <RatingModal
           isOpen={showRatingModal}
-          personName={(service as any).patient?.name || 'Patient'}
+          personName={service.patient?.name || 'Patient'}
           personType="patient"
           onClose={() => setShowRatingModal(false)}
           onSubmit={async (rating: number, comment: string) => {
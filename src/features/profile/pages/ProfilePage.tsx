@@ -4,9 +4,10 @@ import { useAuth } from '@/features/auth';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
-import { User, Star, LogOut, Settings, FileText, Shield, Edit2, Check } from 'lucide-react';
+import { User, Star, LogOut, Settings, FileText, Shield, Edit2, Check, LifeBuoy } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
+import { sendDiagnostics } from '@/core/logging/diagnostics';
 
 /**
  * Enhanced ProfilePage:
@@ -178,18 +179,36 @@ export default function ProfilePage() {
 
   // sync local avatar preview with helper data
   useEffect(() => {
-    setLocalAvatar((helper as any)?.avatarUrl ?? null);
+    setLocalAvatar(helper?.avatarUrl ?? null);
   }, [helper]);
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     navigate('/');
   };
 
+  // Recent log and connection history for support (core/logging)
+  const handleSendDiagnostics = async () => {
+    try {
+      const result = await sendDiagnostics();
+      if (result === 'downloaded') {
+        toast({ title: 'Diagnostics saved', description: 'Send the downloaded file to HelpBuddy support.' });
+      }
+    } catch {
+      toast({ title: 'Could not export diagnostics', variant: 'destructive' });
+    }
+  };
+
   const menuItems = [
-    { icon: Settings, label: 'Settings', onClick: () => navigate('/settings') },
-    { icon: FileText, label: 'Documents', onClick: () => navigate('/documents') },
-    { icon: Shield, label: 'Verification', onClick: () => navigate('/verification') },
+    { icon: Settings, label: 'Settings', description: 'Manage settings', onClick: () => navigate('/settings') },
+    { icon: FileText, label: 'Documents', description: 'Manage documents', onClick: () => navigate('/documents') },
+    { icon: Shield, label: 'Verification', description: 'Manage verification', onClick: () => navigate('/verification') },
+    {
+      icon: LifeBuoy,
+      label: 'Send diagnostics',
+      description: 'Share recent app logs with support',
+      onClick: () => void handleSendDiagnostics(),
+    },
   ];
 
   const formatCurrency = (v?: number) =>
@@ -205,7 +224,7 @@ export default function ProfilePage() {
         userId: payload.name ?? user?.name ?? helper?.userId,
         phone: payload.phone ?? user?.phone,
         // If avatarDataUrl is a dataUrl, you should upload and set avatarUrl to returned URL.
-        avatarUrl: payload.avatarDataUrl ?? (helper as any)?.avatarUrl ?? null,
+        avatarUrl: payload.avatarDataUrl ?? helper?.avatarUrl ?? null,
       };
       if (updateHelper) updateHelper(updated as any);
       setLocalAvatar(updated.avatarUrl);
@@ -264,9 +283,9 @@ export default function ProfilePage() {
                     <div className="flex items-center gap-3 mt-3">
                       <div className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-success/10 text-success text-sm font-medium">
                         <Star className="w-4 h-4" />
-                        <span>{((helper as any)?.avgRating ?? helper?.rating ?? 0).toFixed(1)}</span>
-                        {(helper as any)?.totalRatings && (
-                          <span className="text-xs ml-1">({(helper as any).totalRatings})</span>
+                        <span>{(helper?.avgRating ?? helper?.rating ?? 0).toFixed(1)}</span>
+                        {helper?.totalRatings && (
+                          <span className="text-xs ml-1">({helper.totalRatings})</span>
                         )}
                       </div>
 
@@ -299,9 +318,9 @@ export default function ProfilePage() {
                     </div>
 
                     <div>
-                      <p className="text-lg font-semibold">{((helper as any)?.avgRating ?? helper?.rating ?? 0).toFixed(1)}</p>
+                      <p className="text-lg font-semibold">{(helper?.avgRating ?? helper?.rating ?? 0).toFixed(1)}</p>
                       <p className="text-xs text-muted-foreground mt-0.5">
-                        Rating{(helper as any)?.totalRatings ? ` (${(helper as any).totalRatings})` : ''}
+                        Rating{helper?.totalRatings ? ` (${helper.totalRatings})` : ''}
                       </p>
                     </div>
                   </div>
@@ -331,7 +350,7 @@ export default function ProfilePage() {
 
                   <div className="flex-1">
                     <div className="font-medium">{m.label}</div>
-                    <p className="text-xs text-muted-foreground mt-0.5">Manage {m.label.toLowerCase()}</p>
+                    <p className="text-xs text-muted-foreground mt-0.5">{m.description}</p>
                   </div>
 
                   <div className="text-sm text-muted-foreground">›</div>
@@ -0,0 +1,56 @@
+import { Check, History, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useRules } from '../useRules';
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString([], { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Why each recent request was handled automatically
+export function RuleDecisionLog() {
+  const { decisions, clearDecisions } = useRules();
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <History className="w-5 h-5 text-primary" />
+            Automatic decisions
+          </h2>
+          <p className="text-sm text-muted-foreground">The last requests your rules answered, and why.</p>
+        </div>
+        {decisions.length > 0 && (
+          <Button size="sm" variant="ghost" onClick={clearDecisions}>
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {decisions.length === 0 ? (
+        <p className="text-sm text-muted-foreground rounded-xl border border-dashed p-4">Nothing handled automatically yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {decisions.map((d) => (
+            <li key={`${d.serviceId}:${d.at}`} className="rounded-xl border p-3 flex items-start gap-3">
+              {d.action === 'accept' ? (
+                <Check className="w-4 h-4 mt-1 text-success shrink-0" />
+              ) : (
+                <X className="w-4 h-4 mt-1 text-destructive shrink-0" />
+              )}
+              <div className="min-w-0 text-sm">
+                <p className="font-medium">
+                  {d.action === 'accept' ? 'Accepted' : 'Declined'} {d.serviceType}
+                  {d.hospitalName && <span className="text-muted-foreground"> · {d.hospitalName}</span>}
+                </p>
+                <p className="text-muted-foreground">
+                  Rule “{d.ruleName}”: {d.reasons.length ? d.reasons.join(', ') : 'matches every request'}
+                </p>
+                <p className="text-xs text-muted-foreground">{formatTime(d.at)}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,274 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Pencil, Plus, Trash2, Zap } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { SERVICE_TYPES } from '@/core/config/constants';
+import { cn } from '@/lib/utils';
+import { describeRule, ruleProblem, type RequestRule, type RuleAction, type Urgency } from '../engine';
+import { useRules } from '../useRules';
+
+const URGENCIES: Urgency[] = ['high', 'medium', 'low'];
+
+const newRule = (): RequestRule => ({
+  id: `rule_${Date.now().toString(36)}`,
+  name: '',
+  enabled: true,
+  action: 'accept',
+  conditions: {},
+});
+
+const toNumber = (value: string) => (value.trim() === '' || Number.isNaN(Number(value)) ? undefined : Number(value));
+
+const toggle = <T,>(list: T[] | undefined, item: T) => {
+  const next = list?.includes(item) ? list.filter((i) => i !== item) : [...(list ?? []), item];
+  return next.length ? next : undefined;
+};
+
+function RuleForm({
+  initial,
+  onCancel,
+  onSave,
+}: {
+  initial: RequestRule;
+  onCancel: () => void;
+  onSave: (rule: RequestRule) => void;
+}) {
+  const [rule, setRule] = useState(initial);
+  const [hospitals, setHospitals] = useState(initial.conditions.hospitals?.join(', ') ?? '');
+  const [error, setError] = useState<string | null>(null);
+  const c = rule.conditions;
+  const setConditions = (patch: Partial<RequestRule['conditions']>) =>
+    setRule((r) => ({ ...r, conditions: { ...r.conditions, ...patch } }));
+
+  const submit = () => {
+    const list = hospitals
+      .split(',')
+      .map((h) => h.trim())
+      .filter(Boolean);
+    const conditions = { ...rule.conditions, hospitals: list.length ? list : undefined };
+    const saved = { ...rule, conditions };
+    const problem = ruleProblem(saved);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onSave({ ...saved, name: rule.name.trim() || describeRule(saved) });
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-2">
+        <Label htmlFor="rule-name">Name</Label>
+        <Input
+          id="rule-name"
+          placeholder="e.g. Nearby wheelchair jobs at AIIMS"
+          value={rule.name}
+          onChange={(e) => setRule({ ...rule, name: e.target.value })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>When a request matches</Label>
+        <div className="flex gap-2">
+          {(['accept', 'decline'] as RuleAction[]).map((action) => (
+            <Button
+              key={action}
+              type="button"
+              size="sm"
+              variant={rule.action === action ? 'default' : 'outline'}
+              onClick={() => setRule({ ...rule, action })}
+            >
+              {action === 'accept' ? 'Accept it' : 'Decline it'}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Service type (any selected; none means any)</Label>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {SERVICE_TYPES.map((type) => (
+            <label key={type} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={!!c.serviceTypes?.includes(type)}
+                onCheckedChange={() => setConditions({ serviceTypes: toggle(c.serviceTypes, type) })}
+              />
+              {type}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="rule-distance">Max distance (km)</Label>
+          <Input
+            id="rule-distance"
+            type="number"
+            min={0}
+            step={0.5}
+            value={c.maxDistanceKm ?? ''}
+            onChange={(e) => setConditions({ maxDistanceKm: toNumber(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rule-fare">Min fare (₹)</Label>
+          <Input
+            id="rule-fare"
+            type="number"
+            min={0}
+            step={10}
+            value={c.minFare ?? ''}
+            onChange={(e) => setConditions({ minFare: toNumber(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Urgency (any selected; none means any)</Label>
+        <div className="flex gap-4">
+          {URGENCIES.map((urgency) => (
+            <label key={urgency} className="flex items-center gap-2 text-sm capitalize">
+              <Checkbox
+                checked={!!c.urgency?.includes(urgency)}
+                onCheckedChange={() => setConditions({ urgency: toggle(c.urgency, urgency) })}
+              />
+              {urgency}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="rule-hospitals">Hospitals (comma separated, part of the name is enough)</Label>
+        <Input
+          id="rule-hospitals"
+          placeholder="e.g. AIIMS, Safdarjung"
+          value={hospitals}
+          onChange={(e) => setHospitals(e.target.value)}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="rule-from">From (time)</Label>
+          <Input
+            id="rule-from"
+            type="time"
+            value={c.from ?? ''}
+            onChange={(e) => setConditions({ from: e.target.value || undefined })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rule-to">Until (time)</Label>
+          <Input
+            id="rule-to"
+            type="time"
+            value={c.to ?? ''}
+            onChange={(e) => setConditions({ to: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="button" onClick={submit}>
+          Save rule
+        </Button>
+      </DialogFooter>
+    </div>
+  );
+}
+
+// Settings section for the helper's auto-accept / auto-decline rules
+export function RulesEditor() {
+  const { rules, save, remove, move } = useRules();
+  const [editing, setEditing] = useState<RequestRule | null>(null);
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Zap className="w-5 h-5 text-primary" />
+            Request rules
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Accept or decline matching requests automatically. The first matching rule wins.
+          </p>
+        </div>
+        <Button size="sm" onClick={() => setEditing(newRule())}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add rule
+        </Button>
+      </div>
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-muted-foreground rounded-xl border border-dashed p-4">
+          No rules yet. Every request will wait for you to answer it.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {rules.map((rule, index) => (
+            <li key={rule.id} className="rounded-xl border p-3 flex items-center gap-3">
+              <Switch checked={rule.enabled} onCheckedChange={(enabled) => save({ ...rule, enabled })} />
+              <div className={cn('flex-1 min-w-0', !rule.enabled && 'opacity-50')}>
+                <p className="font-medium truncate">{rule.name}</p>
+                <p className="text-xs text-muted-foreground truncate">{describeRule(rule)}</p>
+                {ruleProblem(rule) && <p className="text-xs text-destructive">Not applied: {ruleProblem(rule)}</p>}
+              </div>
+              <div className="flex items-center">
+                <Button size="icon" variant="ghost" className="h-8 w-8" aria-label="Move up" disabled={index === 0} onClick={() => move(rule.id, -1)}>
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8"
+                  aria-label="Move down"
+                  disabled={index === rules.length - 1}
+                  onClick={() => move(rule.id, 1)}
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button size="icon" variant="ghost" className="h-8 w-8" aria-label="Edit rule" onClick={() => setEditing(rule)}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button size="icon" variant="ghost" className="h-8 w-8 text-destructive" aria-label="Delete rule" onClick={() => remove(rule.id)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-h-[calc(100vh-32px)] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing && rules.some((r) => r.id === editing.id) ? 'Edit rule' : 'New rule'}</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <RuleForm
+              key={editing.id}
+              initial={editing}
+              onCancel={() => setEditing(null)}
+              onSave={(rule) => {
+                save(rule);
+                setEditing(null);
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </section>
+  );
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import type { Service } from '@/types';
+import { describeRule, evaluateRules, ruleProblem, type RequestRule } from './engine';
+
+const service = (overrides: Partial<Service> = {}) =>
+  ({
+    id: 's1',
+    status: 'PENDING',
+    serviceType: ['Wheelchair Assistance'],
+    hospitalName: 'AIIMS New Delhi',
+    distance: 2.5,
+    estimatedFare: 150,
+    urgency: 'medium',
+    ...overrides,
+  }) as Service;
+
+const rule = (overrides: Partial<RequestRule> = {}): RequestRule => ({
+  id: 'r1',
+  name: 'Rule',
+  enabled: true,
+  action: 'accept',
+  conditions: { maxDistanceKm: 5 },
+  ...overrides,
+});
+
+// A local time today
+const at = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  const d = new Date(2026, 5, 15);
+  d.setHours(h, m);
+  return d;
+};
+
+describe('evaluateRules', () => {
+  it('applies the first enabled rule whose conditions all hold', () => {
+    const rules = [
+      rule({ id: 'off', enabled: false, action: 'decline' }),
+      rule({ id: 'far', conditions: { maxDistanceKm: 1 } }),
+      rule({ id: 'near', name: 'Near AIIMS', conditions: { maxDistanceKm: 3, hospitals: ['aiims'] } }),
+      rule({ id: 'any', action: 'decline' }),
+    ];
+    const decision = evaluateRules(rules, service(), at('10:00'));
+    expect(decision).toEqual({
+      ruleId: 'near',
+      ruleName: 'Near AIIMS',
+      action: 'accept',
+      reasons: ['2.5 km away (max 3 km)', 'at AIIMS New Delhi'],
+    });
+  });
+
+  it('leaves the request to the helper when no rule matches', () => {
+    expect(evaluateRules([rule({ conditions: { minFare: 200 } })], service(), at('10:00'))).toBeNull();
+  });
+
+  it('never acts on a field the request does not carry', () => {
+    const rules = [rule({ action: 'decline', conditions: { maxDistanceKm: 10 } })];
+    expect(evaluateRules(rules, service({ distance: undefined }), at('10:00'))).toBeNull();
+  });
+
+  it('matches service types and urgency case by case', () => {
+    const rules = [rule({ conditions: { serviceTypes: ['wheelchair assistance'], urgency: ['high', 'medium'] } })];
+    expect(evaluateRules(rules, service(), at('10:00'))?.reasons).toEqual([
+      'service is Wheelchair Assistance',
+      'medium urgency',
+    ]);
+    expect(evaluateRules(rules, service({ urgency: 'low' }), at('10:00'))).toBeNull();
+  });
+
+  it('takes the fare from estimatedPay when there is no estimatedFare', () => {
+    const rules = [rule({ conditions: { minFare: 100 } })];
+    expect(evaluateRules(rules, service({ estimatedFare: undefined, estimatedPay: 120 }), at('10:00'))).not.toBeNull();
+  });
+
+  it('handles time windows that run past midnight', () => {
+    const rules = [rule({ action: 'decline', conditions: { from: '21:00', to: '06:00' } })];
+    expect(evaluateRules(rules, service(), at('23:30'))).not.toBeNull();
+    expect(evaluateRules(rules, service(), at('05:59'))).not.toBeNull();
+    expect(evaluateRules(rules, service(), at('06:00'))).toBeNull();
+    expect(evaluateRules(rules, service(), at('12:00'))).toBeNull();
+  });
+
+  it('runs a window with only one end until or from midnight', () => {
+    const after = [rule({ action: 'decline', conditions: { from: '21:00' } })];
+    expect(evaluateRules(after, service(), at('22:00'))).not.toBeNull();
+    expect(evaluateRules(after, service(), at('08:00'))).toBeNull();
+
+    const before = [rule({ action: 'decline', conditions: { to: '07:00' } })];
+    expect(evaluateRules(before, service(), at('06:30'))).not.toBeNull();
+    expect(evaluateRules(before, service(), at('07:30'))).toBeNull();
+  });
+
+  it('skips an accept rule without conditions', () => {
+    const rules = [rule({ id: 'everything', conditions: {} }), rule({ id: 'fallback', action: 'decline', conditions: {} })];
+    expect(evaluateRules(rules, service(), at('10:00'))?.ruleId).toBe('fallback');
+  });
+});
+
+describe('ruleProblem', () => {
+  it('flags only accept rules without conditions', () => {
+    expect(ruleProblem(rule({ conditions: {} }))).toMatch(/at least one condition/);
+    expect(ruleProblem(rule({ conditions: { hospitals: [] } }))).not.toBeNull();
+    expect(ruleProblem(rule())).toBeNull();
+    expect(ruleProblem(rule({ action: 'decline', conditions: {} }))).toBeNull();
+  });
+});
+
+describe('describeRule', () => {
+  it('summarises the conditions in one line', () => {
+    expect(describeRule(rule({ conditions: { serviceTypes: ['Pharmacy'], from: '21:00' }, action: 'decline' }))).toBe(
+      'Auto-decline Pharmacy, after 21:00'
+    );
+    expect(describeRule(rule({ conditions: { maxDistanceKm: 3, minFare: 100, from: '08:00', to: '14:00' } }))).toBe(
+      'Auto-accept within 3 km, fare ≥ ₹100, 08:00–14:00'
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import type { Service } from '@/types';
+
+// Helper-defined rules for incoming requests, e.g. "accept wheelchair
+// assistance under 3 km paying at least ₹100 at AIIMS" or "decline pharmacy
+// pickups after 9pm". Rules are checked in order and the first enabled rule
+// whose conditions all hold decides; a request no rule matches is left to
+// the helper. A condition on a field the request does not carry (say, no
+// distance) does not hold, so a rule never acts on a guess. An accept rule
+// without conditions would take every request, so it is never applied.
+
+export type RuleAction = 'accept' | 'decline';
+export type Urgency = NonNullable<Service['urgency']>;
+
+export interface RuleConditions {
+  // Any of these (case-insensitive)
+  serviceTypes?: string[];
+  maxDistanceKm?: number;
+  // Against estimatedFare, or estimatedPay
+  minFare?: number;
+  // Any of these
+  urgency?: Urgency[];
+  // hospitalName contains any of these (case-insensitive)
+  hospitals?: string[];
+  // Local time, "HH:MM"; a window may run past midnight. With only `from`
+  // it runs until midnight, with only `to` from midnight.
+  from?: string;
+  to?: string;
+}
+
+export interface RequestRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  action: RuleAction;
+  conditions: RuleConditions;
+}
+
+export interface RuleDecision {
+  ruleId: string;
+  ruleName: string;
+  action: RuleAction;
+  // One line per condition that held, for the decision log
+  reasons: string[];
+}
+
+const minutesOf = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + (m || 0);
+};
+
+const inWindow = (at: Date, from?: string, to?: string) => {
+  const now = at.getHours() * 60 + at.getMinutes();
+  const start = from ? minutesOf(from) : 0;
+  const end = to ? minutesOf(to) : 24 * 60;
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+};
+
+const serviceTypesOf = (service: Service) =>
+  (Array.isArray(service.serviceType) ? service.serviceType : [service.serviceType]).filter(Boolean);
+
+// Null when a condition does not hold, otherwise why each one did
+function check(conditions: RuleConditions, service: Service, at: Date): string[] | null {
+  const reasons: string[] = [];
+
+  if (conditions.serviceTypes?.length) {
+    const wanted = conditions.serviceTypes.map((t) => t.toLowerCase());
+    const match = serviceTypesOf(service).find((t) => wanted.includes(t.toLowerCase()));
+    if (!match) return null;
+    reasons.push(`service is ${match}`);
+  }
+
+  if (conditions.maxDistanceKm !== undefined) {
+    if (service.distance === undefined || service.distance > conditions.maxDistanceKm) return null;
+    reasons.push(`${service.distance} km away (max ${conditions.maxDistanceKm} km)`);
+  }
+
+  if (conditions.minFare !== undefined) {
+    const fare = service.estimatedFare ?? service.estimatedPay;
+    if (fare === undefined || fare < conditions.minFare) return null;
+    reasons.push(`fare ₹${fare} (min ₹${conditions.minFare})`);
+  }
+
+  if (conditions.urgency?.length) {
+    if (!service.urgency || !conditions.urgency.includes(service.urgency)) return null;
+    reasons.push(`${service.urgency} urgency`);
+  }
+
+  if (conditions.hospitals?.length) {
+    const name = service.hospitalName?.toLowerCase() ?? '';
+    const match = conditions.hospitals.find((h) => h.trim() && name.includes(h.trim().toLowerCase()));
+    if (!match) return null;
+    reasons.push(`at ${service.hospitalName}`);
+  }
+
+  if (conditions.from || conditions.to) {
+    if (!inWindow(at, conditions.from, conditions.to)) return null;
+    reasons.push(`between ${conditions.from ?? '00:00'} and ${conditions.to ?? '24:00'}`);
+  }
+
+  return reasons;
+}
+
+const hasConditions = (c: RuleConditions) =>
+  Boolean(
+    c.serviceTypes?.length ||
+      c.maxDistanceKm !== undefined ||
+      c.minFare !== undefined ||
+      c.urgency?.length ||
+      c.hospitals?.length ||
+      c.from ||
+      c.to
+  );
+
+// Why a rule cannot be saved or applied as it stands, if it cannot
+export function ruleProblem(rule: RequestRule): string | null {
+  if (rule.action === 'accept' && !hasConditions(rule.conditions)) {
+    return 'An accept rule needs at least one condition, or it would accept every request';
+  }
+  return null;
+}
+
+export function evaluateRules(rules: RequestRule[], service: Service, at = new Date()): RuleDecision | null {
+  for (const rule of rules) {
+    if (!rule.enabled || ruleProblem(rule)) continue;
+    const reasons = check(rule.conditions, service, at);
+    if (reasons) return { ruleId: rule.id, ruleName: rule.name, action: rule.action, reasons };
+  }
+  return null;
+}
+
+// One-line summary for the rules list
+export function describeRule(rule: RequestRule): string {
+  const c = rule.conditions;
+  const parts: string[] = [];
+  if (c.serviceTypes?.length) parts.push(c.serviceTypes.join(' or '));
+  if (c.maxDistanceKm !== undefined) parts.push(`within ${c.maxDistanceKm} km`);
+  if (c.minFare !== undefined) parts.push(`fare ≥ ₹${c.minFare}`);
+  if (c.urgency?.length) parts.push(`${c.urgency.join('/')} urgency`);
+  if (c.hospitals?.length) parts.push(`at ${c.hospitals.join(' or ')}`);
+  if (c.from && c.to) parts.push(`${c.from}–${c.to}`);
+  else if (c.from) parts.push(`after ${c.from}`);
+  else if (c.to) parts.push(`before ${c.to}`);
+  return `${rule.action === 'accept' ? 'Auto-accept' : 'Auto-decline'} ${parts.length ? parts.join(', ') : 'every request'}`;
+}
@@ -0,0 +1,16 @@
+/**
+ * Request Rules Feature - Public API
+ */
+
+// Engine
+export { evaluateRules, describeRule, ruleProblem } from './engine';
+export type { RequestRule, RuleAction, RuleConditions, RuleDecision } from './engine';
+export { ruleStore } from './store';
+export type { LoggedDecision } from './store';
+
+// Hooks
+export { useRules } from './useRules';
+
+// Components
+export { RulesEditor } from './components/RulesEditor';
+export { RuleDecisionLog } from './components/RuleDecisionLog';
@@ -0,0 +1,160 @@
+import { tokenManager } from '@/core/auth/tokenManager';
+import { createLogger } from '@/core/logging/logger';
+import type { Service } from '@/types';
+import { evaluateRules, type RequestRule, type RuleDecision } from './engine';
+
+// The signed-in helper's rules and a log of what they decided, kept in
+// localStorage per helper. Other tabs pick up changes through the `storage`
+// event.
+
+export interface LoggedDecision extends RuleDecision {
+  at: string;
+  serviceId: string;
+  serviceType: string;
+  hospitalName?: string;
+}
+
+interface RulesState {
+  rules: RequestRule[];
+  decisions: LoggedDecision[];
+}
+
+type Listener = (state: RulesState) => void;
+
+const DECISION_LOG_SIZE = 50;
+
+const log = createLogger('app');
+
+const rulesKey = (userId: string) => `requestRules:${userId}`;
+const decisionsKey = (userId: string) => `requestRuleDecisions:${userId}`;
+
+function read<T>(key: string): T[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(key) ?? '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// A full or unavailable storage (private mode) must not stop a rule from
+// acting; the change then lasts for this page only
+function write(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    log.warn('Could not persist request rules', error);
+  }
+}
+
+class RuleStore {
+  private userId: string | null = null;
+  private state: RulesState = { rules: [], decisions: [] };
+  private listeners = new Set<Listener>();
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', (event) => {
+        if (this.userId && (event.key === rulesKey(this.userId) || event.key === decisionsKey(this.userId))) {
+          this.load(this.userId);
+        }
+      });
+    }
+  }
+
+  get rules() {
+    return this.current().rules;
+  }
+
+  get decisions() {
+    return this.current().decisions;
+  }
+
+  subscribe(listener: Listener) {
+    this.listeners.add(listener);
+    listener(this.current());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  save(rule: RequestRule) {
+    const rules = this.rules.some((r) => r.id === rule.id)
+      ? this.rules.map((r) => (r.id === rule.id ? rule : r))
+      : [...this.rules, rule];
+    this.setRules(rules);
+  }
+
+  remove(ruleId: string) {
+    this.setRules(this.rules.filter((r) => r.id !== ruleId));
+  }
+
+  // Earlier rules win, so order matters
+  move(ruleId: string, offset: -1 | 1) {
+    const rules = [...this.rules];
+    const from = rules.findIndex((r) => r.id === ruleId);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= rules.length) return;
+    [rules[from], rules[to]] = [rules[to], rules[from]];
+    this.setRules(rules);
+  }
+
+  evaluate(service: Service): RuleDecision | null {
+    return evaluateRules(this.rules, service);
+  }
+
+  // Log a decision that was acted on; every tab evaluates, one acts
+  record(service: Service, decision: RuleDecision) {
+    this.current();
+    if (!this.userId) return;
+    const entry: LoggedDecision = {
+      ...decision,
+      at: new Date().toISOString(),
+      serviceId: service.id,
+      serviceType: Array.isArray(service.serviceType) ? service.serviceType.join(', ') : service.serviceType,
+      hospitalName: service.hospitalName,
+    };
+    log.info(`Rule "${decision.ruleName}": auto-${decision.action}`, { serviceId: service.id, reasons: decision.reasons });
+    const decisions = [entry, ...this.decisions].slice(0, DECISION_LOG_SIZE);
+    write(decisionsKey(this.userId), decisions);
+    this.update({ ...this.state, decisions });
+  }
+
+  clearDecisions() {
+    if (!this.userId) return;
+    localStorage.removeItem(decisionsKey(this.userId));
+    this.update({ ...this.state, decisions: [] });
+  }
+
+  private setRules(rules: RequestRule[]) {
+    this.current();
+    if (!this.userId) return;
+    write(rulesKey(this.userId), rules);
+    this.update({ ...this.state, rules });
+  }
+
+  // Follow whoever is signed in
+  private current() {
+    const userId = tokenManager.userId();
+    if (userId !== this.userId) {
+      if (userId) this.load(userId);
+      else {
+        this.userId = null;
+        this.state = { rules: [], decisions: [] };
+      }
+    }
+    return this.state;
+  }
+
+  private load(userId: string) {
+    this.userId = userId;
+    this.update({ rules: read<RequestRule>(rulesKey(userId)), decisions: read<LoggedDecision>(decisionsKey(userId)) });
+  }
+
+  private update(state: RulesState) {
+    this.state = state;
+    this.listeners.forEach((l) => l(state));
+  }
+}
+
+export const ruleStore = new RuleStore();
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { ruleStore, type LoggedDecision } from './store';
+import type { RequestRule } from './engine';
+
+// Live view of the helper's request rules and their recent decisions.
+export const useRules = () => {
+  const [rules, setRules] = useState<RequestRule[]>([]);
+  const [decisions, setDecisions] = useState<LoggedDecision[]>([]);
+
+  useEffect(
+    () =>
+      ruleStore.subscribe((state) => {
+        setRules(state.rules);
+        setDecisions(state.decisions);
+      }),
+    []
+  );
+
+  return {
+    rules,
+    decisions,
+    save: (rule: RequestRule) => ruleStore.save(rule),
+    remove: (ruleId: string) => ruleStore.remove(ruleId),
+    move: (ruleId: string, offset: -1 | 1) => ruleStore.move(ruleId, offset),
+    clearDecisions: () => ruleStore.clearDecisions(),
+  };
+};
@@ -0,0 +1,6 @@
+/**
+ * Settings Feature - Public API
+ */
+
+// Pages
+export { default as SettingsPage } from './pages/SettingsPage';
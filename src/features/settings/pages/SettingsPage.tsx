@@ -0,0 +1,68 @@
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { BellRing, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import PremiumPage from '@/components/layout/PremiumPage';
+import { RuleDecisionLog, RulesEditor } from '@/features/rules';
+import { ShiftCalendar, ShiftEditor } from '@/features/shifts';
+
+export default function SettingsPage() {
+  const navigate = useNavigate();
+
+  return (
+    <PremiumPage title="Settings" subtitle="When and how requests reach you">
+      <motion.div
+        initial={{ opacity: 0, y: 6 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="rounded-2xl p-6 bg-card border border-border/40 shadow-sm flex items-center justify-between gap-3"
+      >
+        <div>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <BellRing className="w-5 h-5 text-primary" />
+            Notifications &amp; alerts
+          </h2>
+          <p className="text-sm text-muted-foreground">Alert tone, volume, vibration and lock-screen alerts.</p>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => navigate('/settings/notifications')}>
+          Open
+          <ChevronRight className="w-4 h-4 ml-1" />
+        </Button>
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 6 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="rounded-2xl p-6 bg-card border border-border/40 shadow-sm"
+      >
+        <ShiftEditor />
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 6 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.05 }}
+        className="rounded-2xl p-6 bg-card border border-border/40 shadow-sm"
+      >
+        <ShiftCalendar />
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 6 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="rounded-2xl p-6 bg-card border border-border/40 shadow-sm"
+      >
+        <RulesEditor />
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 6 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.15 }}
+        className="rounded-2xl p-6 bg-card border border-border/40 shadow-sm"
+      >
+        <RuleDecisionLog />
+      </motion.div>
+    </PremiumPage>
+  );
+}
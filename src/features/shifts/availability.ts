@@ -0,0 +1,48 @@
+import { apiClient } from '@/core/api/client';
+import { realtime } from '@/core/socket/realtime';
+import { createLogger } from '@/core/logging/logger';
+import { shiftStore, type AvailabilitySession } from './store';
+
+const log = createLogger('app');
+
+// Tell the realtime server availability changed so requests start (or stop)
+// arriving right away, connecting first when going online without a socket.
+function announce(helperId: string, isAvailable: boolean) {
+  if (!isAvailable || realtime.gateway.isConnected()) {
+    realtime.gateway.emit('helper:availability:update', { helperId, isAvailable });
+    log.debug('Emitted helper:availability:update', { isAvailable });
+    return;
+  }
+
+  realtime.connect();
+  let attempts = 0;
+  const emitWhenReady = () => {
+    attempts += 1;
+    if (realtime.gateway.isConnected()) {
+      realtime.gateway.emit('helper:availability:update', { helperId, isAvailable });
+      log.debug('Emitted helper:availability:update after connect', { isAvailable });
+    } else if (attempts < 10) {
+      setTimeout(emitWhenReady, 300);
+    } else {
+      log.warn('Could not emit availability:update, socket failed to connect');
+    }
+  };
+  emitWhenReady();
+}
+
+// Turn the helper online or offline, whether from the toggle or a shift
+// starting or ending, and log it for the shift calendar. Resolves with the
+// API response; the caller updates auth state and tells the helper.
+export async function setAvailability(helperId: string, isAvailable: boolean, source: AvailabilitySession['source']) {
+  const response = await apiClient.updateAvailability(helperId, isAvailable);
+  const updated = response?.success ? response.data : undefined;
+  if (updated) {
+    shiftStore.recordAvailability(updated.isAvailable, source);
+    try {
+      announce(updated.id, isAvailable);
+    } catch {
+      // ignore
+    }
+  }
+  return response;
+}
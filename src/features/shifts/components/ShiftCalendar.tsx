@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { CalendarDays } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { addDays, dateKey, occurrencesBetween, startOfDay } from '../schedule';
+import { useShifts } from '../useShifts';
+
+const PAST_DAYS = 6;
+const FUTURE_DAYS = 7;
+const HOURS = [0, 6, 12, 18, 24];
+
+interface Span {
+  start: Date;
+  end: Date;
+}
+
+// Left offset and width within a day, in percent
+const place = (span: Span, day: Date) => {
+  const from = day.getTime();
+  const to = addDays(day, 1).getTime();
+  const start = Math.max(span.start.getTime(), from);
+  const end = Math.min(span.end.getTime(), to);
+  if (end <= start) return null;
+  const length = to - from;
+  return { left: ((start - from) / length) * 100, width: ((end - start) / length) * 100 };
+};
+
+// Two weeks around today: planned shifts as outlines, the time the helper
+// was actually online filled in.
+export function ShiftCalendar() {
+  const { schedule, sessions } = useShifts();
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(id);
+  }, []);
+
+  const today = startOfDay(now);
+  const days = Array.from({ length: PAST_DAYS + FUTURE_DAYS + 1 }, (_, i) => addDays(today, i - PAST_DAYS));
+  const planned = occurrencesBetween(schedule, days[0], addDays(today, FUTURE_DAYS + 1));
+  const worked: Span[] = sessions.map((s) => ({ start: new Date(s.start), end: s.end ? new Date(s.end) : now }));
+
+  return (
+    <section className="space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <CalendarDays className="w-5 h-5 text-primary" />
+          Shift calendar
+        </h2>
+        <p className="text-sm text-muted-foreground">The past week and the week ahead.</p>
+      </div>
+
+      <div className="flex items-center gap-4 text-xs text-muted-foreground">
+        <span className="inline-flex items-center gap-1.5">
+          <span className="w-3 h-3 rounded-sm border border-primary/50 bg-primary/10" />
+          Planned
+        </span>
+        <span className="inline-flex items-center gap-1.5">
+          <span className="w-3 h-3 rounded-sm bg-success/80" />
+          Online
+        </span>
+      </div>
+
+      <div className="space-y-1.5">
+        <div className="flex text-[10px] text-muted-foreground">
+          <span className="w-20 shrink-0" />
+          <div className="relative flex-1 h-3">
+            {HOURS.map((h) => (
+              <span key={h} className="absolute -translate-x-1/2" style={{ left: `${(h / 24) * 100}%` }}>
+                {h}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {days.map((day) => {
+          const isToday = dateKey(day) === dateKey(today);
+          const marker = isToday ? place({ start: now, end: new Date(now.getTime() + 1) }, day) : null;
+          return (
+            <div key={dateKey(day)} className="flex items-center">
+              <span className={cn('w-20 shrink-0 text-xs', isToday ? 'font-semibold text-foreground' : 'text-muted-foreground')}>
+                {day.toLocaleDateString([], { weekday: 'short', day: 'numeric' })}
+              </span>
+              <div className={cn('relative flex-1 h-6 rounded-md bg-muted/50 overflow-hidden', day > today && 'bg-muted/30')}>
+                {planned.map((shift) => {
+                  const spot = place(shift, day);
+                  return (
+                    spot && (
+                      <div
+                        key={shift.key}
+                        className="absolute inset-y-0 rounded-sm border border-primary/50 bg-primary/10"
+                        style={{ left: `${spot.left}%`, width: `${spot.width}%` }}
+                      />
+                    )
+                  );
+                })}
+                {worked.map((session) => {
+                  const spot = place(session, day);
+                  return (
+                    spot && (
+                      <div
+                        key={session.start.toISOString()}
+                        className="absolute inset-y-1 rounded-sm bg-success/80"
+                        style={{ left: `${spot.left}%`, width: `${spot.width}%` }}
+                      />
+                    )
+                  );
+                })}
+                {marker && <div className="absolute inset-y-0 w-px bg-destructive" style={{ left: `${marker.left}%` }} />}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,321 @@
+import { useState } from 'react';
+import { CalendarClock, CalendarOff, CalendarPlus, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  WEEKDAYS,
+  currentShift,
+  dateKey,
+  describeDays,
+  formatTime,
+  nextShift,
+  type ShiftOverride,
+  type WeeklyShift,
+} from '../schedule';
+import { useShifts } from '../useShifts';
+
+// Monday first, as helpers read a week
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const newId = (prefix: string) => `${prefix}_${Date.now().toString(36)}`;
+
+const formatDate = (key: string) =>
+  new Date(`${key}T00:00`).toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' });
+
+const overnight = (start: string, end: string) => end <= start;
+
+function WeeklyForm({
+  initial,
+  onCancel,
+  onSave,
+}: {
+  initial: WeeklyShift;
+  onCancel: () => void;
+  onSave: (shift: WeeklyShift) => void;
+}) {
+  const [shift, setShift] = useState(initial);
+  const toggleDay = (day: number) =>
+    setShift((s) => ({ ...s, days: s.days.includes(day) ? s.days.filter((d) => d !== day) : [...s.days, day] }));
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-2">
+        <Label>Days</Label>
+        <div className="flex flex-wrap gap-2">
+          {WEEK_ORDER.map((day) => (
+            <Button
+              key={day}
+              type="button"
+              size="sm"
+              className="w-12"
+              variant={shift.days.includes(day) ? 'default' : 'outline'}
+              onClick={() => toggleDay(day)}
+            >
+              {WEEKDAYS[day]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="shift-start">Start</Label>
+          <Input id="shift-start" type="time" value={shift.start} onChange={(e) => setShift({ ...shift, start: e.target.value })} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="shift-end">End</Label>
+          <Input id="shift-end" type="time" value={shift.end} onChange={(e) => setShift({ ...shift, end: e.target.value })} />
+        </div>
+      </div>
+      {shift.start && shift.end && overnight(shift.start, shift.end) && (
+        <p className="text-xs text-muted-foreground">Ends the next morning.</p>
+      )}
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="button" disabled={!shift.days.length || !shift.start || !shift.end} onClick={() => onSave(shift)}>
+          Save shift
+        </Button>
+      </DialogFooter>
+    </div>
+  );
+}
+
+function OverrideForm({ onCancel, onSave }: { onCancel: () => void; onSave: (override: ShiftOverride) => void }) {
+  const [override, setOverride] = useState<ShiftOverride>({
+    id: newId('override'),
+    date: dateKey(new Date()),
+    kind: 'off',
+    start: '09:00',
+    end: '13:00',
+  });
+  const extra = override.kind === 'extra';
+  const valid = !!override.date && (!extra || (!!override.start && !!override.end));
+
+  const submit = () =>
+    onSave(extra ? override : { id: override.id, date: override.date, kind: 'off' });
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-2">
+        <Label htmlFor="override-date">Date</Label>
+        <Input
+          id="override-date"
+          type="date"
+          min={dateKey(new Date())}
+          value={override.date}
+          onChange={(e) => setOverride({ ...override, date: e.target.value })}
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant={extra ? 'outline' : 'default'}
+          onClick={() => setOverride({ ...override, kind: 'off' })}
+        >
+          Day off
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant={extra ? 'default' : 'outline'}
+          onClick={() => setOverride({ ...override, kind: 'extra' })}
+        >
+          Extra shift
+        </Button>
+      </div>
+
+      {extra ? (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="override-start">Start</Label>
+            <Input
+              id="override-start"
+              type="time"
+              value={override.start ?? ''}
+              onChange={(e) => setOverride({ ...override, start: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="override-end">End</Label>
+            <Input
+              id="override-end"
+              type="time"
+              value={override.end ?? ''}
+              onChange={(e) => setOverride({ ...override, end: e.target.value })}
+            />
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Your weekly shifts won't start on this day.</p>
+      )}
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="button" disabled={!valid} onClick={submit}>
+          Save
+        </Button>
+      </DialogFooter>
+    </div>
+  );
+}
+
+// Settings section for the helper's weekly shifts and one-off exceptions
+export function ShiftEditor() {
+  const { schedule, saveWeekly, removeWeekly, saveOverride, removeOverride } = useShifts();
+  const [editing, setEditing] = useState<WeeklyShift | null>(null);
+  const [addingOverride, setAddingOverride] = useState(false);
+
+  const now = new Date();
+  const current = currentShift(schedule, now);
+  const next = nextShift(schedule, now);
+  const today = dateKey(now);
+  const upcoming = schedule.overrides.filter((o) => o.date >= today).sort((a, b) => a.date.localeCompare(b.date));
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <CalendarClock className="w-5 h-5 text-primary" />
+            Shifts
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Go online and offline automatically. You'll get a reminder 10 minutes before each shift.
+          </p>
+        </div>
+        <Button
+          size="sm"
+          onClick={() => setEditing({ id: newId('shift'), days: [1, 2, 3, 4, 5], start: '08:00', end: '14:00' })}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add shift
+        </Button>
+      </div>
+
+      {(current || next) && (
+        <p className="text-sm rounded-xl bg-primary/5 px-3 py-2">
+          {current
+            ? `On shift until ${formatTime(current.end)}`
+            : `Next shift ${next!.start.toLocaleDateString([], { weekday: 'short' })} ${formatTime(next!.start)}–${formatTime(next!.end)}`}
+        </p>
+      )}
+
+      {schedule.weekly.length === 0 ? (
+        <p className="text-sm text-muted-foreground rounded-xl border border-dashed p-4">
+          No shifts yet. Availability stays under your control.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {schedule.weekly.map((shift) => (
+            <li key={shift.id} className="rounded-xl border p-3 flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{describeDays(shift.days)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {shift.start}–{shift.end}
+                  {overnight(shift.start, shift.end) && ' (next day)'}
+                </p>
+              </div>
+              <Button size="icon" variant="ghost" className="h-8 w-8" aria-label="Edit shift" onClick={() => setEditing(shift)}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 text-destructive"
+                aria-label="Delete shift"
+                onClick={() => removeWeekly(shift.id)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between gap-3 pt-2">
+        <h3 className="text-sm font-semibold">Exceptions</h3>
+        <Button size="sm" variant="outline" onClick={() => setAddingOverride(true)}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add exception
+        </Button>
+      </div>
+
+      {upcoming.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No days off or extra shifts coming up.</p>
+      ) : (
+        <ul className="space-y-2">
+          {upcoming.map((o) => (
+            <li key={o.id} className="rounded-xl border p-3 flex items-center gap-3">
+              {o.kind === 'off' ? (
+                <CalendarOff className="w-4 h-4 text-muted-foreground shrink-0" />
+              ) : (
+                <CalendarPlus className="w-4 h-4 text-primary shrink-0" />
+              )}
+              <p className="flex-1 text-sm">
+                <span className="font-medium">{formatDate(o.date)}</span>
+                <span className="text-muted-foreground">
+                  {' '}
+                  · {o.kind === 'off' ? 'Day off' : `Extra shift ${o.start}–${o.end}`}
+                </span>
+              </p>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 text-destructive"
+                aria-label="Delete exception"
+                onClick={() => removeOverride(o.id)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing && schedule.weekly.some((w) => w.id === editing.id) ? 'Edit shift' : 'New shift'}</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <WeeklyForm
+              key={editing.id}
+              initial={editing}
+              onCancel={() => setEditing(null)}
+              onSave={(shift) => {
+                saveWeekly(shift);
+                setEditing(null);
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={addingOverride} onOpenChange={setAddingOverride}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add exception</DialogTitle>
+          </DialogHeader>
+          {addingOverride && (
+            <OverrideForm
+              onCancel={() => setAddingOverride(false)}
+              onSave={(override) => {
+                saveOverride(override);
+                setAddingOverride(false);
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </section>
+  );
+}
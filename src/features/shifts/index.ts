@@ -0,0 +1,18 @@
+/**
+ * Shifts Feature - Public API
+ */
+
+// Schedule
+export { currentShift, nextShift, occurrencesBetween } from './schedule';
+export type { ShiftOccurrence, ShiftOverride, ShiftSchedule, WeeklyShift } from './schedule';
+export { shiftStore } from './store';
+export type { AvailabilitySession } from './store';
+export { setAvailability } from './availability';
+
+// Hooks
+export { useShifts } from './useShifts';
+export { useShiftScheduler } from './useShiftScheduler';
+
+// Components
+export { ShiftEditor } from './components/ShiftEditor';
+export { ShiftCalendar } from './components/ShiftCalendar';
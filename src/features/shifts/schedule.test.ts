@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { currentShift, describeDays, nextShift, occurrencesBetween, type ShiftSchedule } from './schedule';
+
+// June 2026: the 15th is a Monday
+const at = (day: number, hh = 0, mm = 0) => new Date(2026, 5, day, hh, mm);
+
+const weekdays: ShiftSchedule = {
+  weekly: [{ id: 'w1', days: [1, 2, 3, 4, 5], start: '08:00', end: '14:00' }],
+  overrides: [],
+};
+
+const span = (o: { start: Date; end: Date }) => [o.start.toString(), o.end.toString()];
+
+describe('occurrencesBetween', () => {
+  it('lists each weekly shift on its days, earliest first', () => {
+    const shifts = occurrencesBetween(weekdays, at(13), at(20));
+    expect(shifts.map((o) => o.key)).toEqual([
+      '2026-06-15@w1',
+      '2026-06-16@w1',
+      '2026-06-17@w1',
+      '2026-06-18@w1',
+      '2026-06-19@w1',
+    ]);
+    expect(span(shifts[0])).toEqual(span({ start: at(15, 8), end: at(15, 14) }));
+  });
+
+  it('includes shifts that only partly overlap the range', () => {
+    expect(occurrencesBetween(weekdays, at(15, 13), at(15, 13, 30)).map((o) => o.key)).toEqual(['2026-06-15@w1']);
+    expect(occurrencesBetween(weekdays, at(15, 14), at(15, 23))).toEqual([]);
+  });
+
+  it('runs a shift whose end is not after its start into the next day', () => {
+    const nights: ShiftSchedule = {
+      weekly: [{ id: 'n1', days: [0], start: '22:00', end: '06:00' }],
+      overrides: [],
+    };
+    // Starts on Sunday the 14th, still running early Monday
+    const shifts = occurrencesBetween(nights, at(15, 2), at(15, 3));
+    expect(shifts.map((o) => o.key)).toEqual(['2026-06-14@n1']);
+    expect(span(shifts[0])).toEqual(span({ start: at(14, 22), end: at(15, 6) }));
+  });
+
+  it('drops weekly shifts on a day off but keeps extra ones', () => {
+    const schedule: ShiftSchedule = {
+      weekly: weekdays.weekly,
+      overrides: [
+        { id: 'o1', date: '2026-06-16', kind: 'off' },
+        { id: 'x1', date: '2026-06-16', kind: 'extra', start: '18:00', end: '20:00' },
+        { id: 'x2', date: '2026-06-13', kind: 'extra', start: '09:00', end: '11:00' },
+      ],
+    };
+    const shifts = occurrencesBetween(schedule, at(13), at(17));
+    expect(shifts.map((o) => [o.key, o.kind])).toEqual([
+      ['2026-06-13@x2', 'extra'],
+      ['2026-06-15@w1', 'weekly'],
+      ['2026-06-16@x1', 'extra'],
+    ]);
+  });
+});
+
+describe('currentShift and nextShift', () => {
+  it('finds the shift under way and the one after it', () => {
+    expect(currentShift(weekdays, at(15, 9))?.key).toBe('2026-06-15@w1');
+    expect(currentShift(weekdays, at(15, 14))).toBeNull();
+    expect(nextShift(weekdays, at(15, 9))?.key).toBe('2026-06-16@w1');
+    // Friday afternoon: next is Monday
+    expect(nextShift(weekdays, at(19, 15))?.key).toBe('2026-06-22@w1');
+  });
+});
+
+describe('describeDays', () => {
+  it('names runs of days Monday first', () => {
+    expect(describeDays([5, 1, 3, 2, 4])).toBe('Mon–Fri');
+    expect(describeDays([0, 1, 2, 3, 4, 5, 6])).toBe('Every day');
+    expect(describeDays([6, 0])).toBe('Sat, Sun');
+    expect(describeDays([1, 3])).toBe('Mon, Wed');
+  });
+});
@@ -0,0 +1,98 @@
+// A helper's working hours: weekly shifts ("Mon–Fri 08:00–14:00") plus
+// one-off overrides for a date, either a day off (no weekly shifts start
+// that day) or an extra shift. Times are local "HH:MM"; a shift whose end
+// is not after its start runs past midnight.
+
+export interface WeeklyShift {
+  id: string;
+  // 0 = Sunday, as Date#getDay
+  days: number[];
+  start: string;
+  end: string;
+}
+
+export interface ShiftOverride {
+  id: string;
+  // Local date, "YYYY-MM-DD"
+  date: string;
+  kind: 'off' | 'extra';
+  // Extra shifts only
+  start?: string;
+  end?: string;
+}
+
+export interface ShiftSchedule {
+  weekly: WeeklyShift[];
+  overrides: ShiftOverride[];
+}
+
+// One concrete shift on one day. `key` is stable, so the scheduler can
+// remember which shifts it already started, ended or reminded about.
+export interface ShiftOccurrence {
+  key: string;
+  start: Date;
+  end: Date;
+  kind: 'weekly' | 'extra';
+}
+
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const dateKey = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+export const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+
+// Calendar arithmetic, so days stay days across DST changes
+export const addDays = (d: Date, days: number) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + days);
+
+const atTime = (day: Date, hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), h || 0, m || 0);
+};
+
+const occurrence = (day: Date, id: string, start: string, end: string, kind: ShiftOccurrence['kind']): ShiftOccurrence => {
+  const from = atTime(day, start);
+  let to = atTime(day, end);
+  if (to <= from) to = atTime(addDays(day, 1), end);
+  return { key: `${dateKey(day)}@${id}`, start: from, end: to, kind };
+};
+
+// Every shift overlapping [from, to), earliest first
+export function occurrencesBetween(schedule: ShiftSchedule, from: Date, to: Date): ShiftOccurrence[] {
+  const result: ShiftOccurrence[] = [];
+  // Start a day early for overnight shifts running into `from`
+  for (let day = addDays(startOfDay(from), -1); day < to; day = addDays(day, 1)) {
+    const key = dateKey(day);
+    const overrides = schedule.overrides.filter((o) => o.date === key);
+    if (!overrides.some((o) => o.kind === 'off')) {
+      schedule.weekly
+        .filter((w) => w.days.includes(day.getDay()))
+        .forEach((w) => result.push(occurrence(day, w.id, w.start, w.end, 'weekly')));
+    }
+    overrides
+      .filter((o) => o.kind === 'extra' && o.start && o.end)
+      .forEach((o) => result.push(occurrence(day, o.id, o.start!, o.end!, 'extra')));
+  }
+  return result.filter((o) => o.end > from && o.start < to).sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+export function currentShift(schedule: ShiftSchedule, now = new Date()): ShiftOccurrence | null {
+  return occurrencesBetween(schedule, now, new Date(now.getTime() + 1)).find((o) => o.start <= now) ?? null;
+}
+
+export function nextShift(schedule: ShiftSchedule, now = new Date()): ShiftOccurrence | null {
+  return occurrencesBetween(schedule, now, addDays(now, 8)).find((o) => o.start > now) ?? null;
+}
+
+export const formatTime = (d: Date) => d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// "Mon–Fri", "Sat, Sun", "Every day"
+export function describeDays(days: number[]): string {
+  const sorted = [...days].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+  if (sorted.length === 7) return 'Every day';
+  const mondayFirst = sorted.map((d) => (d + 6) % 7);
+  const consecutive = mondayFirst.every((d, i) => i === 0 || d === mondayFirst[i - 1] + 1);
+  if (consecutive && sorted.length > 2) return `${WEEKDAYS[sorted[0]]}–${WEEKDAYS[sorted[sorted.length - 1]]}`;
+  return sorted.map((d) => WEEKDAYS[d]).join(', ');
+}
@@ -0,0 +1,154 @@
+import { tokenManager } from '@/core/auth/tokenManager';
+import type { ShiftOverride, ShiftSchedule, WeeklyShift } from './schedule';
+
+// The signed-in helper's shift schedule, when they were actually online
+// (the calendar's past shifts) and which shifts the scheduler has already
+// acted on, kept in localStorage per helper. Other tabs pick up changes
+// through the `storage` event.
+
+export interface AvailabilitySession {
+  start: string;
+  // Null while still online
+  end: string | null;
+  source: 'manual' | 'shift';
+}
+
+export type ShiftMilestone = 'reminded' | 'started' | 'overrun' | 'ended';
+
+interface ShiftState {
+  schedule: ShiftSchedule;
+  sessions: AvailabilitySession[];
+  handled: Record<ShiftMilestone, string[]>;
+}
+
+type Listener = (state: ShiftState) => void;
+
+// Sessions older than this are dropped
+const SESSION_HISTORY_MS = 30 * 24 * 60 * 60_000;
+const HANDLED_SIZE = 50;
+
+const keyFor = (userId: string) => `shifts:${userId}`;
+
+const empty = (): ShiftState => ({
+  schedule: { weekly: [], overrides: [] },
+  sessions: [],
+  handled: { reminded: [], started: [], overrun: [], ended: [] },
+});
+
+function read(key: string): ShiftState {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(key) ?? 'null') as Partial<ShiftState> | null;
+    const base = empty();
+    return {
+      schedule: { ...base.schedule, ...parsed?.schedule },
+      sessions: parsed?.sessions ?? [],
+      handled: { ...base.handled, ...parsed?.handled },
+    };
+  } catch {
+    return empty();
+  }
+}
+
+class ShiftStore {
+  private userId: string | null = null;
+  private state: ShiftState = empty();
+  private listeners = new Set<Listener>();
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', (event) => {
+        if (this.userId && event.key === keyFor(this.userId)) this.load(this.userId);
+      });
+    }
+  }
+
+  get schedule() {
+    return this.current().schedule;
+  }
+
+  get sessions() {
+    return this.current().sessions;
+  }
+
+  subscribe(listener: Listener) {
+    this.listeners.add(listener);
+    listener(this.current());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  saveWeekly(shift: WeeklyShift) {
+    const weekly = this.schedule.weekly.filter((w) => w.id !== shift.id);
+    this.set({ schedule: { ...this.schedule, weekly: [...weekly, shift] } });
+  }
+
+  removeWeekly(id: string) {
+    this.set({ schedule: { ...this.schedule, weekly: this.schedule.weekly.filter((w) => w.id !== id) } });
+  }
+
+  saveOverride(override: ShiftOverride) {
+    const overrides = this.schedule.overrides.filter((o) => o.id !== override.id);
+    this.set({ schedule: { ...this.schedule, overrides: [...overrides, override] } });
+  }
+
+  removeOverride(id: string) {
+    this.set({ schedule: { ...this.schedule, overrides: this.schedule.overrides.filter((o) => o.id !== id) } });
+  }
+
+  isHandled(milestone: ShiftMilestone, occurrenceKey: string) {
+    return this.current().handled[milestone].includes(occurrenceKey);
+  }
+
+  markHandled(milestone: ShiftMilestone, occurrenceKey: string) {
+    if (this.isHandled(milestone, occurrenceKey)) return;
+    const handled = this.state.handled;
+    this.set({ handled: { ...handled, [milestone]: [...handled[milestone], occurrenceKey].slice(-HANDLED_SIZE) } });
+  }
+
+  // Availability went on or off; a no-op if the log already says so
+  recordAvailability(isAvailable: boolean, source: AvailabilitySession['source'], at = new Date()) {
+    const sessions = this.sessions;
+    const open = sessions.length > 0 && sessions[sessions.length - 1].end === null;
+    if (isAvailable === open) return;
+    const cutoff = at.getTime() - SESSION_HISTORY_MS;
+    const kept = sessions.filter((s) => s.end === null || Date.parse(s.end) >= cutoff);
+    const next = isAvailable
+      ? [...kept, { start: at.toISOString(), end: null, source }]
+      : kept.map((s, i) => (i === kept.length - 1 ? { ...s, end: at.toISOString() } : s));
+    this.set({ sessions: next });
+  }
+
+  private set(patch: Partial<ShiftState>) {
+    this.current();
+    if (!this.userId) return;
+    const state = { ...this.state, ...patch };
+    localStorage.setItem(keyFor(this.userId), JSON.stringify(state));
+    this.update(state);
+  }
+
+  // Follow whoever is signed in
+  private current() {
+    const userId = tokenManager.userId();
+    if (userId !== this.userId) {
+      if (userId) this.load(userId);
+      else {
+        this.userId = null;
+        this.state = empty();
+      }
+    }
+    return this.state;
+  }
+
+  private load(userId: string) {
+    this.userId = userId;
+    this.update(read(keyFor(userId)));
+  }
+
+  private update(state: ShiftState) {
+    this.state = state;
+    this.listeners.forEach((l) => l(state));
+  }
+}
+
+export const shiftStore = new ShiftStore();
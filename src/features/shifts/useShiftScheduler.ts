@@ -0,0 +1,129 @@
+import { useEffect, useRef } from 'react';
+import { useAuth } from '@/features/auth';
+import { useActiveService } from '@/core/query/hooks';
+import { claimOnce } from '@/core/tabs/claim';
+import { createLogger } from '@/core/logging/logger';
+import { toast } from '@/hooks/use-toast';
+import { setAvailability } from './availability';
+import { currentShift, formatTime, nextShift, occurrencesBetween } from './schedule';
+import { shiftStore } from './store';
+
+const log = createLogger('app');
+
+const TICK_MS = 30_000;
+const REMINDER_MS = 10 * 60_000;
+// How far back to look for shifts that ended while the app was closed
+const LOOKBACK_MS = 12 * 60 * 60_000;
+
+// Runs the helper's shift schedule while signed in: a reminder before each
+// shift, online when it starts and offline when it ends. Each step happens
+// once per shift across tabs (claimOnce, then recorded in the shift store),
+// so the helper can still switch off mid-shift and stay off. A shift that
+// ends during a job warns instead, and goes offline once the job is done.
+export function useShiftScheduler() {
+  const { helper, updateHelper } = useAuth();
+  const { data: activeService } = useActiveService(!!helper?.isAvailable);
+
+  // The timer reads the latest values without restarting
+  const latest = useRef({ helper, updateHelper, activeService });
+  latest.current = { helper, updateHelper, activeService };
+
+  useEffect(() => {
+    let running = false;
+
+    const switchTo = async (isAvailable: boolean) => {
+      const { helper, updateHelper } = latest.current;
+      if (!helper?.id) return false;
+      const response = await setAvailability(helper.id, isAvailable, 'shift');
+      if (!response?.success || !response.data) {
+        log.warn('Shift availability update failed', { isAvailable, error: response?.error });
+        return false;
+      }
+      updateHelper(response.data);
+      return true;
+    };
+
+    const check = async (now: Date) => {
+      const { helper, activeService } = latest.current;
+      if (!helper?.id) return;
+      const schedule = shiftStore.schedule;
+      const current = currentShift(schedule, now);
+
+      const ended = occurrencesBetween(schedule, new Date(now.getTime() - LOOKBACK_MS), now).filter(
+        (o) => o.end <= now && shiftStore.isHandled('started', o.key) && !shiftStore.isHandled('ended', o.key)
+      );
+      for (const shift of ended) {
+        // Back-to-back shifts, or already offline: nothing to switch
+        if (current || !helper.isAvailable) {
+          shiftStore.markHandled('ended', shift.key);
+          continue;
+        }
+        if (activeService) {
+          if (!shiftStore.isHandled('overrun', shift.key) && (await claimOnce(`shift-overrun:${shift.key}`))) {
+            shiftStore.markHandled('overrun', shift.key);
+            toast({
+              title: 'Shift ended during a job',
+              description: `Your shift ended at ${formatTime(shift.end)}. You'll go offline once the current job is complete.`,
+            });
+          }
+          continue;
+        }
+        if (!(await claimOnce(`shift-end:${shift.key}`))) continue;
+        if (await switchTo(false)) {
+          shiftStore.markHandled('ended', shift.key);
+          toast({ title: "Shift over — you're offline", description: "You won't receive new requests." });
+          // Any other ended shifts are closed off on the next check
+          break;
+        }
+      }
+
+      if (current && !shiftStore.isHandled('started', current.key) && (await claimOnce(`shift-start:${current.key}`))) {
+        if (helper.isAvailable || (await switchTo(true))) {
+          shiftStore.markHandled('started', current.key);
+          if (!helper.isAvailable) {
+            toast({ title: "Shift started — you're online", description: `Receiving requests until ${formatTime(current.end)}.` });
+          }
+        }
+      }
+
+      const next = nextShift(schedule, now);
+      if (
+        next &&
+        next.start.getTime() - now.getTime() <= REMINDER_MS &&
+        !shiftStore.isHandled('reminded', next.key) &&
+        (await claimOnce(`shift-reminder:${next.key}`))
+      ) {
+        shiftStore.markHandled('reminded', next.key);
+        toast({
+          title: 'Shift starting soon',
+          description: `Your shift starts at ${formatTime(next.start)}. You'll go online automatically.`,
+        });
+      }
+    };
+
+    const tick = async () => {
+      if (running) return;
+      running = true;
+      try {
+        await check(new Date());
+      } catch (e) {
+        log.error('Shift check failed', e);
+      } finally {
+        running = false;
+      }
+    };
+
+    // Background timers are throttled, so also check on coming back
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') void tick();
+    };
+
+    void tick();
+    const timer = setInterval(() => void tick(), TICK_MS);
+    document.addEventListener('visibilitychange', onVisible);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', onVisible);
+    };
+  }, []);
+}
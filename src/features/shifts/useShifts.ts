@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { shiftStore, type AvailabilitySession } from './store';
+import type { ShiftOverride, ShiftSchedule, WeeklyShift } from './schedule';
+
+// Live view of the helper's shift schedule and availability history.
+export const useShifts = () => {
+  const [schedule, setSchedule] = useState<ShiftSchedule>({ weekly: [], overrides: [] });
+  const [sessions, setSessions] = useState<AvailabilitySession[]>([]);
+
+  useEffect(
+    () =>
+      shiftStore.subscribe((state) => {
+        setSchedule(state.schedule);
+        setSessions(state.sessions);
+      }),
+    []
+  );
+
+  return {
+    schedule,
+    sessions,
+    saveWeekly: (shift: WeeklyShift) => shiftStore.saveWeekly(shift),
+    removeWeekly: (id: string) => shiftStore.removeWeekly(id),
+    saveOverride: (override: ShiftOverride) => shiftStore.saveOverride(override),
+    removeOverride: (id: string) => shiftStore.removeOverride(id),
+  };
+};
@@ -1,14 +1,10 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { apiClient } from '@/core/api/client';
-import { socketClient } from '@/core/socket/client';
-
-// Local lightweight type for location updates (do not depend on a missing export)
-interface LocationUpdate {
-  lat: number;
-  lng: number;
-  accuracy?: number | null;
-  timestamp?: number;
-}
+import { realtime } from '@/core/socket/realtime';
+import type { LocationUpdate } from '@/core/socket/events';
+import { createLogger } from '@/core/logging/logger';
+
+const log = createLogger('location');
 
 interface UseLocationOptions {
   enabled: boolean;
@@ -50,21 +46,21 @@ export const useLocation = ({ enabled, helperId, updateInterval = 5000 }: UseLoc
           // Send via socket for real-time if connected; otherwise schedule a
           // one-time emit when the socket connects to avoid lost events.
           try {
-            if (socketClient.isConnected()) {
-              socketClient.emit('helper:location:update', locationData);
+            if (realtime.gateway.isConnected()) {
+              realtime.gateway.emit('helper:location:update', locationData);
             } else {
               const onceHandler = () => {
                 try {
-                  socketClient.emit('helper:location:update', locationData);
-                } catch (e) {
+                  realtime.gateway.emit('helper:location:update', locationData);
+                } catch {
                   // ignore emit failures
                 }
                 // remove this listener after it's fired
-                try { socketClient.off('connect', onceHandler); } catch (e) { /* ignore */ }
+                try { realtime.gateway.off('connect', onceHandler); } catch { /* ignore */ }
               };
-              socketClient.on('connect', onceHandler);
+              realtime.gateway.on('connect', onceHandler);
             }
-          } catch (e) {
+          } catch {
             // Socket client may be unavailable; ignore and continue with API fallback
           }
 
@@ -82,7 +78,7 @@ export const useLocation = ({ enabled, helperId, updateInterval = 5000 }: UseLoc
               }
             }
           } catch (err) {
-            console.error('Failed to update location via API:', err);
+            log.error('Failed to update location via API', err);
           }
         }
       }
@@ -95,7 +91,7 @@ export const useLocation = ({ enabled, helperId, updateInterval = 5000 }: UseLoc
     if (error.code === error.PERMISSION_DENIED) {
       setPermissionStatus('denied');
       setError('Location permission denied. Please enable location access in your browser settings.');
-      console.warn('Location permission denied');
+      log.warn('Location permission denied');
       return;
     }
 
@@ -107,7 +103,7 @@ export const useLocation = ({ enabled, helperId, updateInterval = 5000 }: UseLoc
       : friendly;
     setError(msg);
     // Use warn to avoid noisy stack traces in some dev tools
-    console.warn('Location error:', error);
+    log.warn('Location error', { code: error.code, message: error.message });
 
     // Timeout code is 3 per spec. Some browsers may not expose constants on the error object.
     const TIMEOUT_CODE = 3;
@@ -125,7 +121,7 @@ export const useLocation = ({ enabled, helperId, updateInterval = 5000 }: UseLoc
             setError(null);
           },
           (e) => {
-            console.debug('Fallback geolocation failed:', e);
+            log.debug('Fallback geolocation failed', { code: e.code, message: e.message });
             // schedule a backoff before attempting to re-watch
             retryRef.current = Math.min(5, retryRef.current + 1);
             const backoffMs = 3000 * Math.pow(2, retryRef.current - 1);
@@ -197,7 +193,7 @@ export const useLocation = ({ enabled, helperId, updateInterval = 5000 }: UseLoc
       permissionCheckedRef.current = true;
       return true;
     } catch (err) {
-      console.warn('Permissions API not available:', err);
+      log.warn('Permissions API not available', err);
       permissionCheckedRef.current = true;
       return true;
     }
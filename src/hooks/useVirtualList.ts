@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+
+// Windowed rendering for long lists (service history, notifications). Only
+// the rows near the viewport are mounted; the rest are represented by the
+// list's total height. Rows may differ in height: each mounted row is
+// measured and the estimate is used until then. Works with the window as the
+// scroller or with a scrollable element (`scrollRef`).
+
+interface UseVirtualListOptions {
+  count: number;
+  // Stable key per index, so measurements survive inserts and removals
+  getKey: (index: number) => string;
+  estimateSize: number;
+  gap?: number;
+  // Extra pixels rendered above and below the viewport
+  overscan?: number;
+  scrollRef?: RefObject<HTMLElement | null>;
+  // Called when the last `endThreshold` rows come into view (infinite scroll)
+  onEndReached?: () => void;
+  endThreshold?: number;
+}
+
+export interface VirtualRow {
+  index: number;
+  key: string;
+  start: number;
+}
+
+export const useVirtualList = ({
+  count,
+  getKey,
+  estimateSize,
+  gap = 0,
+  overscan = 600,
+  scrollRef,
+  onEndReached,
+  endThreshold = 5,
+}: UseVirtualListOptions) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const sizesRef = useRef(new Map<string, number>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const observedRef = useRef(new Set<HTMLElement>());
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const [, setMeasureVersion] = useState(0);
+
+  // Where the viewport sits relative to the top of the list
+  useEffect(() => {
+    const scroller = scrollRef?.current ?? null;
+    const update = () => {
+      const list = listRef.current;
+      if (!list) return;
+      const listTop = list.getBoundingClientRect().top;
+      const next = scroller
+        ? { top: scroller.getBoundingClientRect().top - listTop, height: scroller.clientHeight }
+        : { top: -listTop, height: window.innerHeight };
+      setViewport((prev) => (prev.top === next.top && prev.height === next.height ? prev : next));
+    };
+    update();
+    const target: HTMLElement | Window = scroller ?? window;
+    target.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      target.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [scrollRef, count]);
+
+  // Row refs attach before effects run, so the observer is created on demand
+  const observer = useCallback(() => {
+    observerRef.current ??= new ResizeObserver((entries) => {
+      let changed = false;
+      entries.forEach((entry) => {
+        const key = (entry.target as HTMLElement).dataset.virtualKey;
+        const height = entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height;
+        if (key && sizesRef.current.get(key) !== height) {
+          sizesRef.current.set(key, height);
+          changed = true;
+        }
+      });
+      if (changed) setMeasureVersion((v) => v + 1);
+    });
+    return observerRef.current;
+  }, []);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  // Ref callback for each rendered row (which must carry `data-virtual-key`).
+  // Rows scrolled out of the window are unmounted; stop watching them.
+  const measure = useCallback(
+    (el: HTMLElement | null) => {
+      if (!el) return;
+      observedRef.current.forEach((row) => {
+        if (!row.isConnected) {
+          observer().unobserve(row);
+          observedRef.current.delete(row);
+        }
+      });
+      observer().observe(el);
+      observedRef.current.add(el);
+    },
+    [observer]
+  );
+
+  const offsets: number[] = new Array(count);
+  let totalSize = 0;
+  for (let i = 0; i < count; i += 1) {
+    offsets[i] = totalSize;
+    totalSize += (sizesRef.current.get(getKey(i)) ?? estimateSize) + gap;
+  }
+  if (count > 0) totalSize -= gap;
+
+  // First row whose bottom edge is below `y`
+  const rowAt = (y: number) => {
+    let lo = 0;
+    let hi = count - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      const end = mid + 1 < count ? offsets[mid + 1] : totalSize;
+      if (end <= y) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+
+  const rows: VirtualRow[] = [];
+  if (count > 0) {
+    const first = rowAt(Math.max(0, viewport.top - overscan));
+    const last = rowAt(viewport.top + viewport.height + overscan);
+    for (let i = first; i <= last; i += 1) rows.push({ index: i, key: getKey(i), start: offsets[i] });
+  }
+
+  const lastRendered = rows.length ? rows[rows.length - 1].index : -1;
+  useEffect(() => {
+    if (onEndReached && count > 0 && lastRendered >= count - endThreshold) onEndReached();
+  }, [lastRendered, count, endThreshold, onEndReached]);
+
+  return { listRef, rows, totalSize, measure };
+};
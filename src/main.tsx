@@ -2,9 +2,20 @@ import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
 import { SocketProvider } from '@/core/providers/SocketProvider';
+import { env } from '@/core/config/env';
+import { registerServiceWorker } from '@/core/sw/registration';
 
-createRoot(document.getElementById("root")!).render(
-	<SocketProvider>
-		<App />
-	</SocketProvider>
-);
+// The mock backend is loaded on demand, so normal runs never fetch it.
+const ready = env.mockApi
+	? import('@/core/mock').then((m) => m.installMockBackend())
+	: Promise.resolve();
+
+void ready.then(() => {
+	createRoot(document.getElementById("root")!).render(
+		<SocketProvider>
+			<App />
+		</SocketProvider>
+	);
+	// System notifications for requests that arrive in the background
+	void registerServiceWorker();
+});
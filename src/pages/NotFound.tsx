@@ -1,11 +1,14 @@
 import { useLocation } from "react-router-dom";
 import { useEffect } from "react";
+import { createLogger } from "@/core/logging/logger";
+
+const log = createLogger("app");
 
 const NotFound = () => {
   const location = useLocation();
 
   useEffect(() => {
-    console.error("404 Error: User attempted to access non-existent route:", location.pathname);
+    log.error("404: user attempted to access non-existent route", { path: location.pathname });
   }, [location.pathname]);
 
   return (
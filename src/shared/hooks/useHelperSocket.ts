@@ -1,62 +1,62 @@
-import { useEffect, useCallback } from 'react';
-import { getSocket, emitEvent } from '@/core/socket/socketClient';
-import { SOCKET_EVENTS } from '@/core/config/constants';
+import { useEffect, useCallback, useRef } from 'react';
+import { realtime } from '@/core/socket/realtime';
+import { useSocketContext } from '@/core/providers/SocketProvider';
+import type { EventName, GatewayInbound } from '@/core/socket/events';
 
 export const useHelperSocket = () => {
-  const socket = getSocket();
+  const { isConnected } = useSocketContext();
+  // Listeners added through this hook are dropped when the component unmounts
+  const cleanupsRef = useRef(new Set<() => void>());
 
   const updateLocation = useCallback((serviceId: string, location: { lat: number; lng: number }) => {
-    emitEvent(SOCKET_EVENTS.HELPER_LOCATION_UPDATE, {
+    realtime.gateway.emit('helper:location:update', {
       serviceId,
-      location,
+      ...location,
       timestamp: Date.now(),
     });
   }, []);
 
-  const onServiceRequest = useCallback((callback: (data: any) => void) => {
-    if (socket) {
-      socket.on(SOCKET_EVENTS.SERVICE_REQUEST_CREATED, callback);
-      return () => {
-        socket.off(SOCKET_EVENTS.SERVICE_REQUEST_CREATED, callback);
+  const subscribe = useCallback(
+    <K extends EventName<GatewayInbound>>(event: K, callback: (data: GatewayInbound[K]) => void) => {
+      const off = realtime.gateway.on(event, callback);
+      const cleanup = () => {
+        off();
+        cleanupsRef.current.delete(cleanup);
       };
-    }
-  }, [socket]);
-
-  const onServiceUpdate = useCallback((callback: (data: any) => void) => {
-    if (socket) {
-      socket.on(SOCKET_EVENTS.SERVICE_REQUEST_UPDATED, callback);
-      return () => {
-        socket.off(SOCKET_EVENTS.SERVICE_REQUEST_UPDATED, callback);
-      };
-    }
-  }, [socket]);
-
-  const onPatientLocationUpdate = useCallback((callback: (data: any) => void) => {
-    if (socket) {
-      socket.on(SOCKET_EVENTS.PATIENT_LOCATION_UPDATE, callback);
-      return () => {
-        socket.off(SOCKET_EVENTS.PATIENT_LOCATION_UPDATE, callback);
-      };
-    }
-  }, [socket]);
+      cleanupsRef.current.add(cleanup);
+      return cleanup;
+    },
+    []
+  );
+
+  const onServiceRequest = useCallback(
+    (callback: (data: GatewayInbound['service:request']) => void) => subscribe('service:request', callback),
+    [subscribe]
+  );
+
+  const onServiceUpdate = useCallback(
+    (callback: (data: GatewayInbound['service:updated']) => void) => subscribe('service:updated', callback),
+    [subscribe]
+  );
+
+  const onPatientLocationUpdate = useCallback(
+    (callback: (data: GatewayInbound['patient:location']) => void) => subscribe('patient:location', callback),
+    [subscribe]
+  );
 
   useEffect(() => {
+    const cleanups = cleanupsRef.current;
     return () => {
-      // Cleanup socket listeners when component unmounts
-      if (socket) {
-        socket.off(SOCKET_EVENTS.SERVICE_REQUEST_CREATED);
-        socket.off(SOCKET_EVENTS.SERVICE_REQUEST_UPDATED);
-        socket.off(SOCKET_EVENTS.PATIENT_LOCATION_UPDATE);
-      }
+      cleanups.forEach((cleanup) => cleanup());
     };
-  }, [socket]);
+  }, []);
 
   return {
-    socket,
+    socket: realtime.gateway,
     updateLocation,
     onServiceRequest,
     onServiceUpdate,
     onPatientLocationUpdate,
-    isConnected: socket?.connected || false,
+    isConnected,
   };
 };
@@ -1,31 +1,50 @@
 export interface User {
   id: string;
-  name: string;
-  phone: string;
+  name?: string;
+  phone?: string;
   email?: string;
   avatar?: string;
+  isAvailable?: boolean;
+  isVerified?: boolean;
+  rating?: number;
+  completedServices?: number;
+  userType?: string;
+}
+
+export interface Helper {
+  id: string;
+  userId: string;
   isAvailable: boolean;
+  // Online but not taking requests until then (ISO time); see PATCH /helpers/:id/pause
+  pausedUntil?: string | null;
   isVerified?: boolean;
   rating?: number;
+  avgRating?: number;
+  totalRatings?: number;
   completedServices?: number;
+  totalEarnings?: number;
+  currentBalance?: number;
+  avatarUrl?: string | null;
 }
 
+// Most of these fields are only present on some payloads (the request event
+// carries a subset of what GET /services/:id returns), so they are optional.
 export interface ServiceRequest {
   id: string;
-  patientId: string;
-  patientName: string;
-  patientPhone: string;
-  patientLocation: Location;
-  hospitalId: string;
-  hospitalName: string;
-  hospitalLocation: Location;
-  distance: number;
-  estimatedPay: number;
-  urgency: 'low' | 'medium' | 'high';
+  patientId?: string;
+  patientName?: string;
+  patientPhone?: string;
+  patientLocation?: Location;
+  hospitalId?: string;
+  hospitalName?: string;
+  hospitalLocation?: Location;
+  distance?: number;
+  estimatedPay?: number;
+  urgency?: 'low' | 'medium' | 'high';
   status: ServiceStatus;
   notes?: string;
-  createdAt: string;
-  updatedAt: string;
+  createdAt?: string;
+  updatedAt?: string;
 }
 
 export interface Location {
@@ -46,13 +65,15 @@ export type ServiceStatus =
   | 'PENDING'
   | 'ACCEPTED'
   | 'ARRIVED'
+  // Newer backends say STARTED where older ones said IN_PROGRESS
+  | 'STARTED'
   | 'IN_PROGRESS'
   | 'COMPLETED'
   | 'CANCELLED';
 
 export interface Service extends ServiceRequest {
-  helperId: string;
-  helperName: string;
+  helperId?: string;
+  helperName?: string;
   acceptedAt?: string;
   arrivedAt?: string;
   startedAt?: string;
@@ -69,6 +90,27 @@ export interface Service extends ServiceRequest {
   description?: string;
   estimatedFare?: number;
   expiresInMs?: number;
+  otpCode?: string;
+  fare?: number;
+  billedMinutes?: number;
+  paymentStatus?: PaymentStatus;
+  paymentMethod?: string;
+  paidAt?: string;
+}
+
+export type PaymentStatus = 'PENDING' | 'COMPLETED' | 'FAILED';
+
+// Why an offer was turned down, sent with POST /services/:id/decline.
+// `source` says who decided: the helper, one of their rules, the countdown
+// running out, or accepting another offer; `reason` is the helper's pick.
+export type DeclineSource = 'manual' | 'rule' | 'timeout' | 'superseded';
+export type DeclineReason = 'too_far' | 'busy' | 'wrong_service' | 'unsafe_area';
+
+export interface DeclineDetails {
+  source: DeclineSource;
+  reason?: DeclineReason;
+  // The rule that declined it, for source 'rule'
+  ruleName?: string;
 }
 
 export interface Earnings {
@@ -103,3 +145,87 @@ export interface CurrentJob {
   serviceType?: string[];
   description?: string;
 }
+
+// Row shape returned by GET /services/history. Older backends sent
+// `finalFare` and a nested `rating` object, so both are still accepted.
+export interface HistoryItem {
+  id: string;
+  patientUser?: { name?: string };
+  patient?: { name?: string };
+  serviceType: string | string[];
+  fare?: number;
+  finalFare?: number;
+  patientRating?: number;
+  rating?: number | { patientRating?: number; helperRating?: number };
+  createdAt: string;
+  requestedAt?: string;
+  status: string;
+}
+
+// One page of a paginated list; `nextCursor` is null on the last page.
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  total?: number;
+}
+
+export interface AppNotification {
+  id: string;
+  title: string;
+  body: string;
+  type: string;
+  isRead: boolean;
+  createdAt: string;
+  data?: Record<string, unknown>;
+}
+
+export type ChatMessageType = 'TEXT' | 'IMAGE' | 'FILE' | 'VOICE' | 'TEMPLATE';
+
+export interface ChatMessage {
+  id: string;
+  serviceId: string;
+  senderId: string;
+  senderType: 'PATIENT' | 'HELPER';
+  messageType: ChatMessageType;
+  message?: string;
+  fileName?: string;
+  fileUrl?: string;
+  fileSize?: number;
+  mimeType?: string;
+  isRead: boolean;
+  createdAt: string;
+}
+
+// Analytics payloads (GET /analytics/helper/*)
+export interface EarningsTrendPoint {
+  period: string;
+  earnings: number;
+  services?: number;
+}
+
+export interface PeakHour {
+  hour: number;
+  count: number;
+}
+
+export interface ServiceTypeShare {
+  name: string;
+  count: number;
+}
+
+export interface SatisfactionTrendPoint {
+  period: string;
+  averageRating: number;
+  count?: number;
+}
+
+export interface RatingStats {
+  averageRating: number;
+  totalRatings: number;
+  distribution?: Record<number, number>;
+}
+
+export interface EarningsSummaryStats {
+  totalEarnings: number;
+  totalServices?: number;
+}
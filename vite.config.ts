@@ -4,6 +4,10 @@ import path from 'path';
 
 export default defineConfig({
   plugins: [react()],
+  // Reported in the diagnostics bundle (core/logging/diagnostics)
+  define: {
+    __APP_VERSION__: JSON.stringify(process.env.npm_package_version ?? 'dev'),
+  },
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),